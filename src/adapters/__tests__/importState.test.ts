@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { ImportStateTracker } from '../importState';
+import { ImportStateRepository } from '../../repository/ImportStateRepository';
+import { IMPORT_STATE_TABLE_SQL } from '../../database';
+import { SessionProvider } from '../../types';
+
+describe('ImportStateTracker', () => {
+  let db: Database.Database;
+  let repository: ImportStateRepository;
+  let tracker: ImportStateTracker;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(IMPORT_STATE_TABLE_SQL);
+    repository = new ImportStateRepository(db);
+    tracker = new ImportStateTracker(repository);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-state-test-'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('treats unknown sources as changed', () => {
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(file, '{"type":"user"}\n');
+
+    expect(tracker.hasChanged(SessionProvider.CLAUDE_CODE, file)).toBe(true);
+  });
+
+  it('skips sources that were imported and not modified', () => {
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(file, '{"type":"user"}\n');
+
+    tracker.hasChanged(SessionProvider.CLAUDE_CODE, file);
+    tracker.markImported(SessionProvider.CLAUDE_CODE, file, 'session-1');
+
+    expect(tracker.hasChanged(SessionProvider.CLAUDE_CODE, file)).toBe(false);
+    expect(tracker.takeSkippedCount()).toBe(1);
+    expect(repository.get(SessionProvider.CLAUDE_CODE, file)?.sessionId).toBe('session-1');
+  });
+
+  it('hashes a source shared by several sessions only once', () => {
+    const file = path.join(tempDir, 'state.vscdb');
+    fs.writeFileSync(file, 'sqlite');
+    const hash = jest.spyOn(tracker as any, 'hash');
+
+    tracker.hasChanged(SessionProvider.CURSOR, file);
+    tracker.markImported(SessionProvider.CURSOR, file, 'composer-1');
+    tracker.markImported(SessionProvider.CURSOR, file, 'composer-2');
+
+    expect(hash).toHaveBeenCalledTimes(1);
+    expect(tracker.hasChanged(SessionProvider.CURSOR, file)).toBe(false);
+  });
+
+  it('fingerprints SQLite databases with their write-ahead log instead of reading them', () => {
+    const file = path.join(tempDir, 'state.vscdb');
+    const cursorDb = new Database(file);
+    cursorDb.pragma('journal_mode = WAL');
+    cursorDb.exec('CREATE TABLE ItemTable (key TEXT PRIMARY KEY, value BLOB)');
+    const hashFile = jest.spyOn(tracker as any, 'hashFile');
+
+    try {
+      tracker.markImported(SessionProvider.CURSOR, file, 'composer-1');
+      expect(tracker.hasChanged(SessionProvider.CURSOR, file)).toBe(false);
+      expect(hashFile).not.toHaveBeenCalled();
+
+      cursorDb.prepare('INSERT INTO ItemTable (key, value) VALUES (?, ?)').run('composerData:1', '{}');
+
+      expect(fs.existsSync(`${file}-wal`)).toBe(true);
+      expect(tracker.hasChanged(SessionProvider.CURSOR, file)).toBe(true);
+    } finally {
+      cursorDb.close();
+    }
+  });
+
+  it('hashes large files in chunks', () => {
+    const file = path.join(tempDir, 'session.jsonl');
+    const content = Buffer.alloc(3 * 1024 * 1024 + 7, 'a');
+    fs.writeFileSync(file, content);
+    tracker.markImported(SessionProvider.CODEX, file);
+
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(file, future, future);
+    expect(tracker.hasChanged(SessionProvider.CODEX, file)).toBe(false);
+
+    content[content.length - 1] = 'b'.charCodeAt(0);
+    fs.writeFileSync(file, content);
+    expect(tracker.hasChanged(SessionProvider.CODEX, file)).toBe(true);
+  });
+
+  it('detects modified content', () => {
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(file, '{"type":"user"}\n');
+    tracker.markImported(SessionProvider.CODEX, file);
+
+    fs.appendFileSync(file, '{"type":"assistant"}\n');
+
+    expect(tracker.hasChanged(SessionProvider.CODEX, file)).toBe(true);
+  });
+
+  it('skips touched files whose content hash is unchanged', () => {
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(file, '{"type":"user"}\n');
+    tracker.markImported(SessionProvider.CODEX, file);
+
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(file, future, future);
+
+    expect(tracker.hasChanged(SessionProvider.CODEX, file)).toBe(false);
+    expect(repository.get(SessionProvider.CODEX, file)?.mtimeMs).toBe(fs.statSync(file).mtimeMs);
+  });
+
+  it('tracks state per provider', () => {
+    const file = path.join(tempDir, 'session.json');
+    fs.writeFileSync(file, '{}');
+    tracker.markImported(SessionProvider.GEMINI, file);
+
+    expect(tracker.hasChanged(SessionProvider.GEMINI, file)).toBe(false);
+    expect(tracker.hasChanged(SessionProvider.AMP, file)).toBe(true);
+  });
+
+  it('fingerprints directory sources by their files', () => {
+    const taskDir = path.join(tempDir, 'task-1');
+    fs.mkdirSync(taskDir);
+    fs.writeFileSync(path.join(taskDir, 'ui_messages.json'), '[]');
+    tracker.markImported(SessionProvider.KILO_CODE, taskDir);
+
+    expect(tracker.hasChanged(SessionProvider.KILO_CODE, taskDir)).toBe(false);
+
+    fs.writeFileSync(path.join(taskDir, 'api_conversation_history.json'), '[{"role":"user"}]');
+
+    expect(tracker.hasChanged(SessionProvider.KILO_CODE, taskDir)).toBe(true);
+  });
+});
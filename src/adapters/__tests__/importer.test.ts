@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionImporter } from '../importer';
+import { AiderAdapter } from '../aider/adapter';
+import { CHAT_HISTORY_FILE } from '../aider';
+import { DatabaseManager } from '../../database';
+import { SessionProvider } from '../../types';
+import { SearchDatabase } from '../../searchDatabase';
+
+const history = fs.readFileSync(path.join(__dirname, '..', 'aider', '__tests__', 'fixtures', 'chat.history.md'), 'utf-8');
+
+describe('SessionImporter', () => {
+  let tempDir: string;
+  let db: DatabaseManager;
+  let searchDb: SearchDatabase;
+  let importer: SessionImporter;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'importer-test-'));
+    const projectDir = path.join(tempDir, 'work', 'api');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(path.join(projectDir, CHAT_HISTORY_FILE), history);
+
+    db = new DatabaseManager(path.join(tempDir, 'data'));
+    searchDb = new SearchDatabase(path.join(tempDir, 'data'));
+    importer = new SessionImporter([new AiderAdapter({ searchRoots: [path.join(tempDir, 'work')] })], db, searchDb);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+    searchDb.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('parses a shared source again when a filter left out some of its sessions', async () => {
+    await importer.importAll({ filter: { since: new Date('2025-01-16') } });
+    expect(db.sessions.getCount()).toBe(1);
+    expect(db.importState.get(SessionProvider.AIDER, path.join(tempDir, 'work', 'api', CHAT_HISTORY_FILE))).toBeUndefined();
+
+    await importer.importAll();
+    expect(db.sessions.getCount()).toBe(2);
+
+    // Now every session of the history is imported, so it is skipped as unchanged
+    const adapter = importer.getAdapters()[0];
+    expect(await importer.importChanged(adapter)).toEqual([]);
+  });
+
+  it('records sources without sessions so they are not read again', async () => {
+    const emptyHistory = path.join(tempDir, 'work', 'empty', CHAT_HISTORY_FILE);
+    fs.mkdirSync(path.dirname(emptyHistory));
+    fs.writeFileSync(emptyHistory, '');
+
+    await importer.importAll();
+    expect(db.sessions.getCount()).toBe(2);
+    expect(db.importState.get(SessionProvider.AIDER, emptyHistory)).toMatchObject({ size: 0, sessionId: undefined });
+
+    const adapter = importer.getAdapters()[0];
+    const getSessions = jest.spyOn(adapter, 'getSessions');
+    expect(await importer.importChanged(adapter)).toEqual([]);
+    expect(getSessions.mock.calls[0][0]?.shouldParse?.(emptyHistory)).toBe(false);
+
+    fs.writeFileSync(emptyHistory, history);
+    expect(await importer.importChanged(adapter)).toHaveLength(2);
+  });
+
+  it('parses a shared source again when one of its sessions failed', async () => {
+    const adapter = importer.getAdapters()[0];
+    const getSessions = adapter.getSessions.bind(adapter);
+    jest.spyOn(adapter, 'getSessions').mockImplementationOnce(async options => {
+      const sessions = await getSessions(options);
+      return [sessions[0], { ...sessions[1], projectPath: 'unknown' }];
+    });
+
+    await importer.importAll();
+    expect(db.sessions.getCount()).toBe(1);
+
+    expect(await importer.importChanged(adapter)).toHaveLength(2);
+    expect(db.sessions.getCount()).toBe(2);
+  });
+});
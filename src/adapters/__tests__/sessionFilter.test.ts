@@ -0,0 +1,59 @@
+import { filterAdapters, matchesSessionFilter } from '../sessionFilter';
+import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { SessionProvider } from '../../types';
+
+function createSession(overrides: Partial<SessionWithProject> = {}): SessionWithProject {
+  return {
+    session: { sessionId: 'session-1', messages: [], metadata: {} } as any,
+    provider: SessionProvider.CLAUDE_CODE,
+    projectPath: '/home/me/work/api',
+    projectName: 'api',
+    created: '2025-01-10T10:00:00.000Z',
+    updated: '2025-01-10T12:00:00.000Z',
+    sourcePath: '/home/me/.claude/projects/-home-me-work-api/session-1.jsonl',
+    ...overrides,
+  };
+}
+
+function createAdapter(provider: SessionProvider): SessionAdapter {
+  return { provider, label: provider, getWatchPaths: () => [], getSessions: async () => [] };
+}
+
+describe('SessionFilter', () => {
+  it('matches everything with an empty filter', () => {
+    expect(matchesSessionFilter(createSession(), {})).toBe(true);
+  });
+
+  it('filters adapters by provider', () => {
+    const adapters = [createAdapter(SessionProvider.CLAUDE_CODE), createAdapter(SessionProvider.CODEX), createAdapter(SessionProvider.AMP)];
+
+    const filtered = filterAdapters(adapters, { providers: [SessionProvider.CODEX, SessionProvider.AMP] });
+
+    expect(filtered.map(a => a.provider)).toEqual([SessionProvider.CODEX, SessionProvider.AMP]);
+    expect(filterAdapters(adapters, {})).toHaveLength(3);
+  });
+
+  it('matches projects by name or path glob', () => {
+    expect(matchesSessionFilter(createSession(), { projects: ['api'] })).toBe(true);
+    expect(matchesSessionFilter(createSession(), { projects: ['/home/me/work/**'] })).toBe(true);
+    expect(matchesSessionFilter(createSession(), { projects: ['web', '/home/me/private/*'] })).toBe(false);
+  });
+
+  it('filters sessions updated before the since date', () => {
+    expect(matchesSessionFilter(createSession(), { since: new Date('2025-01-10T00:00:00Z') })).toBe(true);
+    expect(matchesSessionFilter(createSession(), { since: new Date('2025-01-11T00:00:00Z') })).toBe(false);
+  });
+
+  it('excludes by project or session file glob', () => {
+    expect(matchesSessionFilter(createSession(), { exclude: ['**/private/**'] })).toBe(true);
+    expect(matchesSessionFilter(createSession(), { exclude: ['api'] })).toBe(false);
+    expect(matchesSessionFilter(createSession(), { exclude: ['**/*.jsonl'] })).toBe(false);
+  });
+
+  it('combines include and exclude criteria', () => {
+    const filter = { projects: ['/home/me/work/*'], exclude: ['api'] };
+
+    expect(matchesSessionFilter(createSession(), filter)).toBe(false);
+    expect(matchesSessionFilter(createSession({ projectName: 'web', projectPath: '/home/me/work/web' }), filter)).toBe(true);
+  });
+});
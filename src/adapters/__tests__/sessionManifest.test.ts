@@ -0,0 +1,51 @@
+import { SessionManifest } from '../sessionManifest';
+import { SessionWithProject } from '../sessionAdapter';
+import { SessionProvider } from '../../types';
+import { generateProjectUuid } from '../../utils/uuid';
+
+function createSession(messageCount: number, updated: string): SessionWithProject {
+  return {
+    session: { sessionId: 'session-1', messages: new Array(messageCount).fill({}), metadata: {} } as any,
+    provider: SessionProvider.CODEX,
+    projectPath: '/work/api',
+    projectName: 'api',
+    created: '2025-01-10T10:00:00.000Z',
+    updated,
+  };
+}
+
+describe('SessionManifest', () => {
+  const manifest = new SessionManifest([{
+    sessionId: 'session-1',
+    projectUuid: generateProjectUuid('/work/api'),
+    provider: SessionProvider.CODEX,
+    messageCount: 3,
+    updatedAt: '2025-01-10T12:00:00.000Z',
+  }]);
+
+  it('pushes sessions unknown to the server', () => {
+    const session = createSession(3, '2025-01-10T12:00:00.000Z');
+    session.session.sessionId = 'session-2';
+
+    expect(manifest.needsPush(session)).toBe(true);
+  });
+
+  it('skips sessions the server has in the same state', () => {
+    expect(manifest.needsPush(createSession(3, '2025-01-10T12:00:00.000Z'))).toBe(false);
+  });
+
+  it('pushes sessions updated after the server copy', () => {
+    expect(manifest.needsPush(createSession(3, '2025-01-10T13:00:00.000Z'))).toBe(true);
+  });
+
+  it('pushes sessions whose message count differs', () => {
+    expect(manifest.needsPush(createSession(5, '2025-01-10T12:00:00.000Z'))).toBe(true);
+  });
+
+  it('matches sessions per project', () => {
+    const session = createSession(3, '2025-01-10T12:00:00.000Z');
+    session.projectPath = '/work/web';
+
+    expect(manifest.needsPush(session)).toBe(true);
+  });
+});
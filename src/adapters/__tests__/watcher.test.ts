@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionWatcher } from '../watcher';
+import { SessionImporter } from '../importer';
+import { SessionAdapter } from '../sessionAdapter';
+import { SessionProvider } from '../../types';
+
+function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > timeoutMs) return reject(new Error('Timed out'));
+      setTimeout(check, 20);
+    };
+    check();
+  });
+}
+
+describe('SessionWatcher', () => {
+  let tempDir: string;
+  let adapter: SessionAdapter;
+  let importChanged: jest.Mock;
+  let watcher: SessionWatcher;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-test-'));
+    adapter = {
+      provider: SessionProvider.CLAUDE_CODE,
+      label: 'Test',
+      getWatchPaths: () => [tempDir, path.join(tempDir, 'missing')],
+      getSessions: async () => [],
+    };
+    importChanged = jest.fn().mockResolvedValue([]);
+    const importer = { getAdapters: () => [adapter], importChanged, takeRedactionCounts: () => ({}) } as unknown as SessionImporter;
+    watcher = new SessionWatcher(importer, {}, 100);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('debounces a burst of changes into a single import', async () => {
+    watcher.start();
+
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(file, '{"type":"user"}\n');
+    fs.appendFileSync(file, '{"type":"assistant"}\n');
+    fs.appendFileSync(file, '{"type":"assistant"}\n');
+
+    await waitFor(() => importChanged.mock.calls.length > 0);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(importChanged).toHaveBeenCalledTimes(1);
+    expect(importChanged).toHaveBeenCalledWith(adapter, {});
+  });
+
+  it('scans existing roots on start when requested', async () => {
+    watcher.start(true);
+
+    await waitFor(() => importChanged.mock.calls.length > 0);
+
+    expect(importChanged).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AiderSessionFinder, AiderSessionParser, CHAT_HISTORY_FILE, INPUT_HISTORY_FILE } from '../index';
+import { AiderAdapter } from '../adapter';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const history = fs.readFileSync(path.join(fixturesDir, 'chat.history.md'), 'utf-8');
+const inputHistory = fs.readFileSync(path.join(fixturesDir, 'input.history'), 'utf-8');
+
+/** Aider writes local time */
+const localTime = (value: string) => new Date(value).toISOString();
+
+describe('Aider', () => {
+  let rootDir: string;
+
+  beforeAll(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aider-test-'));
+
+    const apiDir = path.join(rootDir, 'work', 'api');
+    fs.mkdirSync(apiDir, { recursive: true });
+    fs.writeFileSync(path.join(apiDir, CHAT_HISTORY_FILE), history);
+    fs.writeFileSync(path.join(apiDir, INPUT_HISTORY_FILE), inputHistory);
+
+    // Without input history
+    const cliDir = path.join(rootDir, 'cli');
+    fs.mkdirSync(cliDir);
+    fs.writeFileSync(path.join(cliDir, CHAT_HISTORY_FILE), '# aider chat started at 2025-02-01 08:00:00\n\n#### fix the typo in --help\n\nDone.\n');
+
+    // Not searched: dependencies and hidden directories
+    for (const skipped of ['node_modules/pkg', '.cache/repo']) {
+      fs.mkdirSync(path.join(rootDir, skipped), { recursive: true });
+      fs.writeFileSync(path.join(rootDir, skipped, CHAT_HISTORY_FILE), history);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('AiderSessionFinder', () => {
+    it('should find chat histories below the search roots', () => {
+      const histories = new AiderSessionFinder({ searchRoots: [rootDir] }).listHistoryFiles();
+
+      expect(histories.sort((a, b) => a.projectPath.localeCompare(b.projectPath))).toEqual([
+        { projectPath: path.join(rootDir, 'cli'), historyPath: path.join(rootDir, 'cli', CHAT_HISTORY_FILE), inputHistoryPath: undefined },
+        {
+          projectPath: path.join(rootDir, 'work', 'api'),
+          historyPath: path.join(rootDir, 'work', 'api', CHAT_HISTORY_FILE),
+          inputHistoryPath: path.join(rootDir, 'work', 'api', INPUT_HISTORY_FILE)
+        }
+      ]);
+    });
+
+    it('should not search deeper than maxDepth', () => {
+      const histories = new AiderSessionFinder({ searchRoots: [rootDir], maxDepth: 1 }).listHistoryFiles();
+
+      expect(histories.map(h => h.projectPath)).toEqual([path.join(rootDir, 'cli')]);
+    });
+
+    it('should expand ~ in search roots', () => {
+      expect(new AiderSessionFinder({ searchRoots: ['~/projects'] }).getSearchRoots()).toEqual([path.join(os.homedir(), 'projects')]);
+    });
+  });
+
+  describe('AiderSessionParser', () => {
+    const parser = new AiderSessionParser();
+    const sessions = parser.parseHistory(history, '/home/dev/api/.aider.chat.history.md', inputHistory);
+
+    it('should split the history into sessions and skip sessions without input', () => {
+      expect(sessions.map(s => s.title)).toEqual(['add a /health endpoint that returns the version', 'explain the health check']);
+      expect(sessions[0].sessionId).not.toBe(sessions[1].sessionId);
+      expect(parser.parseHistory(history, '/home/dev/api/.aider.chat.history.md', inputHistory)[0].sessionId).toBe(sessions[0].sessionId);
+    });
+
+    it('should map user lines, replies and Aider output', () => {
+      expect(sessions[0].messages.map(m => m.type)).toEqual(['info', 'user', 'assistant_text', 'info', 'user', 'assistant_text', 'info']);
+      expect(sessions[0].messages[1]).toEqual({
+        type: 'user',
+        timestamp: localTime('2025-01-15T10:00:12.482'),
+        content: [{ type: 'text', text: 'add a /health endpoint\nthat returns the version' }]
+      });
+      expect(sessions[0].messages[3]).toMatchObject({
+        type: 'info',
+        title: 'aider',
+        content: { type: 'text', text: expect.stringContaining('Applied edit to server.py\nCommit 4f2a9c1') }
+      });
+    });
+
+    it('should turn SEARCH/REPLACE blocks into diffs', () => {
+      const reply = sessions[0].messages[2];
+
+      expect(reply.type === 'assistant_text' && reply.content).toEqual([
+        { type: 'markdown', markdown: "I'll add the route to `server.py`:" },
+        { type: 'diff', oldText: 'from flask import Flask', newText: 'from flask import Flask, jsonify', filePath: 'server.py' },
+        { type: 'diff', oldText: 'app = Flask(__name__)', newText: 'app = Flask(__name__)\n\n\n@app.get("/health")\ndef health():\n    return jsonify(version=VERSION)', filePath: 'server.py' },
+        { type: 'markdown', markdown: 'Run it with:\n\n```bash\nflask run\n```' }
+      ]);
+    });
+
+    it('should read the file name inside the fence', () => {
+      const reply = sessions[0].messages[5];
+
+      expect(reply.type === 'assistant_text' && reply.content).toEqual([
+        { type: 'markdown', markdown: 'It is not defined yet. Add it to `version.py`:' },
+        { type: 'diff', oldText: '', newText: 'VERSION = "1.0.0"', filePath: 'version.py' }
+      ]);
+    });
+
+    it('should record models and token usage', () => {
+      expect(sessions[0].messages[2]).toMatchObject({ model: 'claude-3-5-sonnet-20241022', usage: { input: 2100, output: 150, cacheRead: 0, cacheWrite: 0 } });
+      expect(sessions[0].metadata).toMatchObject({
+        models: [['claude-3-5-sonnet-20241022', 2]],
+        usage: { input: 4500, output: 210, cacheRead: 0, cacheWrite: 1200 },
+        created: localTime('2025-01-15T10:00:00'),
+        modified: localTime('2025-01-15T10:02:40.100')
+      });
+      expect(sessions[1].metadata?.models).toEqual([['gpt-4o', 1]]);
+    });
+
+    it('should use the session start without input history', () => {
+      const [session] = parser.parseHistory(history.split('# aider chat started at 2025-01-16')[0], '/tmp/history.md');
+
+      expect(session.messages.every(m => m.timestamp === localTime('2025-01-15T10:00:00'))).toBe(true);
+    });
+  });
+
+  describe('AiderAdapter', () => {
+    it('should import the sessions of every repository', async () => {
+      const sessions = await new AiderAdapter({ searchRoots: [rootDir] }).getSessions();
+
+      expect(sessions.map(s => s.projectName).sort()).toEqual(['api', 'api', 'cli']);
+      expect(sessions.find(s => s.projectName === 'cli')).toMatchObject({
+        provider: 'aider',
+        projectPath: path.join(rootDir, 'cli'),
+        title: 'fix the typo in --help',
+        created: localTime('2025-02-01T08:00:00'),
+        sourcePath: path.join(rootDir, 'cli', CHAT_HISTORY_FILE)
+      });
+    });
+
+    it('should skip unchanged histories and find nothing without search roots', async () => {
+      const adapter = new AiderAdapter({ searchRoots: [rootDir] });
+
+      expect(await adapter.getSessions({ shouldParse: sourcePath => sourcePath.includes('cli') })).toHaveLength(1);
+      expect(await new AiderAdapter().getSessions()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import { SessionProvider } from '../../types';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { extractProjectName } from '../../utils/project';
+import { toDateTimeString } from '../../utils/time';
+import { AiderConfig, AiderSessionFinder, AiderSessionParser } from './index';
+
+export class AiderAdapter implements SessionAdapter {
+  readonly provider = SessionProvider.AIDER;
+  readonly label = 'Aider';
+
+  private finder: AiderSessionFinder;
+  private parser: AiderSessionParser;
+
+  /**
+   * @param config Search roots from config.json; without any, no sessions are found
+   */
+  constructor(config?: AiderConfig) {
+    this.finder = new AiderSessionFinder(config);
+    this.parser = new AiderSessionParser();
+  }
+
+  /**
+   * The history files themselves: watching the search roots would fire on every edit in every repository.
+   * Repositories where Aider is used for the first time are picked up by the next import.
+   */
+  getWatchPaths(): string[] {
+    return this.finder.listHistoryFiles().map(info => info.historyPath);
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
+    const sessions: SessionWithProject[] = [];
+
+    for (const { projectPath, historyPath, inputHistoryPath } of this.finder.listHistoryFiles()) {
+      if (options.shouldParse && !options.shouldParse(historyPath)) continue;
+
+      const projectName = extractProjectName(projectPath);
+      if (!projectName) {
+        console.log(`Skipping Aider history ${historyPath}: could not extract project name`);
+        continue;
+      }
+
+      try {
+        const content = fs.readFileSync(historyPath, 'utf-8');
+        const inputHistory = inputHistoryPath ? fs.readFileSync(inputHistoryPath, 'utf-8') : undefined;
+
+        for (const session of this.parser.parseHistory(content, historyPath, inputHistory)) {
+          if (session.metadata) session.metadata.cwd = projectPath;
+          const created = session.metadata?.created || toDateTimeString(Date.now());
+
+          sessions.push({
+            session,
+            provider: this.provider,
+            projectPath,
+            projectName,
+            title: session.title,
+            created,
+            updated: session.metadata?.modified || created,
+            sourcePath: historyPath
+          });
+        }
+      } catch (e) {
+        console.error(`Error parsing Aider history ${historyPath}:`, e);
+      }
+    }
+
+    return sessions;
+  }
+}
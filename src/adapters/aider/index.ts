@@ -0,0 +1,412 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SessionDetail, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator } from '../../utils/tokenUsage';
+
+export const CHAT_HISTORY_FILE = '.aider.chat.history.md';
+export const INPUT_HISTORY_FILE = '.aider.input.history';
+
+const DEFAULT_MAX_DEPTH = 4;
+/** Directories that never hold a repository worth scanning */
+const SKIPPED_DIRS = new Set(['node_modules', 'vendor', '__pycache__']);
+
+const SESSION_START = /^# aider chat started at (.+?)\s*$/;
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+/**
+ * Aider settings in config.json
+ */
+export interface AiderConfig {
+  /** Directories searched for repositories with an Aider chat history, "~" expands to the home directory */
+  searchRoots: string[];
+  /** How many directory levels below a root are searched (default 4) */
+  maxDepth?: number;
+}
+
+export interface AiderHistoryInfo {
+  projectPath: string;
+  historyPath: string;
+  /** .aider.input.history next to the chat history, if present */
+  inputHistoryPath?: string;
+}
+
+interface InputEntry {
+  timestamp: string;
+  text: string;
+}
+
+/**
+ * Aider session finder
+ * Aider writes its history into the repository it runs in, so there is no
+ * central store; the configured roots are searched for .aider.chat.history.md.
+ */
+export class AiderSessionFinder {
+  private readonly searchRoots: string[];
+  private readonly maxDepth: number;
+
+  constructor(config: AiderConfig = { searchRoots: [] }) {
+    this.searchRoots = config.searchRoots.map(root => path.resolve(root.replace(/^~(?=$|[/\\])/, os.homedir())));
+    this.maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  getSearchRoots(): string[] {
+    return this.searchRoots;
+  }
+
+  /**
+   * Lists all chat history files below the search roots
+   */
+  listHistoryFiles(): AiderHistoryInfo[] {
+    const histories = new Map<string, AiderHistoryInfo>();
+
+    for (const root of this.searchRoots) {
+      this.scan(root, 0, histories);
+    }
+
+    return [...histories.values()];
+  }
+
+  private scan(dir: string, depth: number, histories: Map<string, AiderHistoryInfo>): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (e) {
+      return;
+    }
+
+    if (entries.some(entry => entry.isFile() && entry.name === CHAT_HISTORY_FILE)) {
+      const inputHistoryPath = path.join(dir, INPUT_HISTORY_FILE);
+      histories.set(dir, {
+        projectPath: dir,
+        historyPath: path.join(dir, CHAT_HISTORY_FILE),
+        inputHistoryPath: fs.existsSync(inputHistoryPath) ? inputHistoryPath : undefined
+      });
+    }
+
+    if (depth >= this.maxDepth) return;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+      this.scan(path.join(dir, entry.name), depth + 1, histories);
+    }
+  }
+}
+
+/**
+ * Aider chat history parser
+ * Splits .aider.chat.history.md into one session per "# aider chat started at" marker.
+ * "####" lines are user input, "> " lines are Aider's own output and everything else
+ * is the model's reply, with SEARCH/REPLACE blocks turned into diffs.
+ */
+export class AiderSessionParser {
+  /**
+   * Parses all sessions of a chat history file
+   * @param inputHistory Content of .aider.input.history, used for the time of each prompt
+   */
+  parseHistory(content: string, historyPath: string, inputHistory?: string): SessionDetail[] {
+    const sessions: SessionDetail[] = [];
+    const inputs = inputHistory ? this.parseInputHistory(inputHistory) : [];
+    const seenIds = new Set<string>();
+
+    for (const { startedAt, lines } of this.splitSessions(content)) {
+      const created = this.toIsoString(startedAt);
+      if (!created) continue;
+
+      let sessionId = this.createSessionId(historyPath, startedAt);
+      for (let i = 2; seenIds.has(sessionId); i++) {
+        sessionId = this.createSessionId(historyPath, `${startedAt}#${i}`);
+      }
+      seenIds.add(sessionId);
+
+      const session = this.parseSession(sessionId, lines, created, inputs);
+      if (session) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Parses the lines of one session
+   * @returns null if the session has no user input (e.g. aider was started and quit)
+   */
+  private parseSession(sessionId: string, lines: string[], created: string, inputs: InputEntry[]): SessionDetail | null {
+    const messages: ParsedMessage[] = [];
+    const models = new Map<string, number>();
+    const usage = new UsageAccumulator();
+    let model: string | undefined;
+    let timestamp = created;
+    let inputIndex = inputs.findIndex(input => input.timestamp >= created);
+    if (inputIndex < 0) inputIndex = inputs.length;
+
+    for (const block of this.splitBlocks(lines)) {
+      if (block.kind === 'user') {
+        const text = block.lines.join('\n').trim();
+        if (!text) continue;
+
+        // Prompts are recorded in the input history with their time
+        const match = inputs.findIndex((input, i) => i >= inputIndex && input.text === text);
+        if (match >= 0) {
+          timestamp = inputs[match].timestamp;
+          inputIndex = match + 1;
+        }
+
+        messages.push({ type: 'user', timestamp, content: [{ type: 'text', text }] });
+      } else if (block.kind === 'output') {
+        const text = block.lines.join('\n').trim();
+        if (!text) continue;
+
+        model = this.extractModel(text) || model;
+        const tokens = this.extractTokens(text);
+        const reply = messages[messages.length - 1];
+        if (tokens && reply?.type === 'assistant_text' && !reply.usage) {
+          reply.usage = tokens;
+          usage.add(tokens, reply.model);
+        }
+
+        messages.push({ type: 'info', timestamp, title: 'aider', content: { type: 'text', text }, style: /^\S*Error\b/m.test(text) ? 'error' : 'default' });
+      } else {
+        const content = this.parseReply(block.lines);
+        if (content.length === 0) continue;
+
+        if (model) models.set(model, (models.get(model) || 0) + 1);
+        messages.push({ type: 'assistant_text', timestamp, content, model });
+      }
+    }
+
+    if (!messages.some(m => m.type === 'user')) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      title: this.extractTitle(messages) || `Aider Session ${created.slice(0, 16).replace('T', ' ')}`,
+      messages,
+      metadata: {
+        models: [...models.entries()].sort((a, b) => b[1] - a[1]),
+        created,
+        modified: timestamp,
+        messageCount: messages.length,
+        ...usage.toMetadata()
+      }
+    };
+  }
+
+  /**
+   * Turn a model reply into markdown and diffs
+   * A SEARCH/REPLACE block is preceded by its file name, either outside or inside the fence:
+   *
+   *     src/server.py
+   *     ```python
+   *     <<<<<<< SEARCH
+   *     old lines
+   *     =======
+   *     new lines
+   *     >>>>>>> REPLACE
+   *     ```
+   */
+  parseReply(lines: string[]): MessageContent[] {
+    const content: MessageContent[] = [];
+    let text: string[] = [];
+    let filePath: string | undefined;
+
+    const flush = () => {
+      const markdown = text.join('\n').trim();
+      if (markdown) content.push({ type: 'markdown', markdown });
+      text = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      if (!SEARCH_MARKER.test(lines[i])) {
+        text.push(lines[i++]);
+        continue;
+      }
+
+      // File name and opening fence, in either order
+      let fenced = false;
+      if (text.length > 0 && FENCE.test(text[text.length - 1])) {
+        text.pop();
+        fenced = true;
+      }
+      if (text.length > 0 && text[text.length - 1].trim() && !FENCE.test(text[text.length - 1])) {
+        filePath = this.cleanFileName(text.pop()!);
+        if (!fenced && text.length > 0 && FENCE.test(text[text.length - 1])) {
+          text.pop();
+          fenced = true;
+        }
+      }
+      flush();
+
+      // Several blocks may share one fence and file name
+      while (i < lines.length && SEARCH_MARKER.test(lines[i])) {
+        const oldLines: string[] = [];
+        const newLines: string[] = [];
+        i++;
+        while (i < lines.length && !DIVIDER_MARKER.test(lines[i])) oldLines.push(lines[i++]);
+        i++;
+        while (i < lines.length && !REPLACE_MARKER.test(lines[i])) newLines.push(lines[i++]);
+        i++;
+
+        content.push({ type: 'diff', oldText: oldLines.join('\n'), newText: newLines.join('\n'), filePath });
+
+        let next = i;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next < lines.length && SEARCH_MARKER.test(lines[next])) {
+          i = next;
+        } else if (fenced && next < lines.length && FENCE.test(lines[next])) {
+          i = next + 1;
+        }
+      }
+    }
+
+    flush();
+    return content;
+  }
+
+  /**
+   * Split the history at "# aider chat started at" markers
+   */
+  private splitSessions(content: string): Array<{ startedAt: string; lines: string[] }> {
+    const sessions: Array<{ startedAt: string; lines: string[] }> = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const start = line.match(SESSION_START);
+      if (start) {
+        sessions.push({ startedAt: start[1], lines: [] });
+      } else if (sessions.length > 0) {
+        sessions[sessions.length - 1].lines.push(line);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Group consecutive lines into user input, Aider output and model replies
+   * Aider ends user and output lines with two spaces (a markdown line break)
+   */
+  private splitBlocks(lines: string[]): Array<{ kind: 'user' | 'output' | 'reply'; lines: string[] }> {
+    const blocks: Array<{ kind: 'user' | 'output' | 'reply'; lines: string[] }> = [];
+    let inFence = false;
+
+    for (const line of lines) {
+      let kind: 'user' | 'output' | 'reply';
+      let text = line;
+
+      if (!inFence && /^####( |$)/.test(line)) {
+        kind = 'user';
+        text = line.slice(5).replace(/ {2}$/, '');
+      } else if (!inFence && /^>( |$)/.test(line)) {
+        kind = 'output';
+        text = line.slice(2).replace(/ {2}$/, '');
+      } else {
+        kind = 'reply';
+        if (FENCE.test(line)) inFence = !inFence;
+      }
+
+      const last = blocks[blocks.length - 1];
+      if (last && last.kind === kind) {
+        last.lines.push(text);
+      } else if (kind === 'reply' && last && !line.trim()) {
+        // Blank lines between two blocks of the same kind belong to neither
+        continue;
+      } else {
+        blocks.push({ kind, lines: [text] });
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Parse .aider.input.history, where each prompt follows a "# <time>" line with its lines prefixed by "+"
+   */
+  private parseInputHistory(content: string): InputEntry[] {
+    const entries: InputEntry[] = [];
+    let current: { timestamp: string; lines: string[] } | null = null;
+
+    const push = () => {
+      if (current && current.lines.length > 0) {
+        entries.push({ timestamp: current.timestamp, text: current.lines.join('\n').trim() });
+      }
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+      const header = line.match(/^# (\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?)\s*$/);
+      if (header) {
+        push();
+        const timestamp = this.toIsoString(header[1]);
+        current = timestamp ? { timestamp, lines: [] } : null;
+      } else if (current && line.startsWith('+')) {
+        current.lines.push(line.slice(1));
+      }
+    }
+    push();
+
+    return entries;
+  }
+
+  /**
+   * Model from the "Model: ..." or "Models: ..." line Aider prints on start
+   */
+  private extractModel(text: string): string | undefined {
+    const match = text.match(/^(?:Main model|Models?): (\S+)/m);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Usage from "Tokens: 2.1k sent, 1.5k cache write, 150 received. Cost: ..."
+   */
+  private extractTokens(text: string): TokenUsage | undefined {
+    const line = text.split('\n').find(l => l.startsWith('Tokens: '));
+    if (!line) return undefined;
+
+    const count = (label: string) => {
+      const match = line.match(new RegExp(`([\\d.]+)([kM]?) ${label}`));
+      if (!match) return 0;
+      return Math.round(parseFloat(match[1]) * (match[2] === 'k' ? 1_000 : match[2] === 'M' ? 1_000_000 : 1));
+    };
+
+    return { input: count('sent'), output: count('received'), cacheRead: count('cache hit'), cacheWrite: count('cache write') };
+  }
+
+  private cleanFileName(line: string): string {
+    return line.trim().replace(/^[*`#\s]+|[*`:\s]+$/g, '');
+  }
+
+  /**
+   * Title from the first prompt that is not a command, e.g. /add
+   */
+  private extractTitle(messages: ParsedMessage[]): string | null {
+    for (const msg of messages) {
+      if (msg.type !== 'user') continue;
+
+      const text = msg.content.map(c => c.type === 'text' ? c.text : '').join(' ').replace(/\s+/g, ' ').trim();
+      if (text && !text.startsWith('/')) {
+        return text.length > 100 ? text.slice(0, 100) + '...' : text;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Local time as written by Aider ("2025-01-15 10:00:00") to ISO
+   */
+  private toIsoString(value: string): string | null {
+    const date = new Date(value.trim().replace(' ', 'T').replace(/(\.\d{3})\d+$/, '$1'));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  /**
+   * Aider sessions have no id; derive a stable one from the file and start time
+   */
+  private createSessionId(historyPath: string, startedAt: string): string {
+    const hex = createHash('sha1').update(`${historyPath}\n${startedAt}`).digest('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+}
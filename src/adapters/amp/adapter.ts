@@ -1,5 +1,5 @@
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { AmpSessionFinder, AmpSessionParser } from './index';
 import { extractProjectName } from '../../utils/project';
 import { toDateTimeString } from '../../utils/time';
@@ -16,11 +16,17 @@ export class AmpAdapter implements SessionAdapter {
     this.parser = new AmpSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getBaseDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const sessionInfos = this.finder.listSessions();
 
     for (const info of sessionInfos) {
+      if (options.shouldParse && !options.shouldParse(info.filePath)) continue;
+
       try {
         const session = this.parser.parseFile(info.filePath);
         if (session) {
@@ -44,7 +50,8 @@ export class AmpAdapter implements SessionAdapter {
             projectPath: projectPath as string,
             projectName: extractedProjectName as string,
             created: toDateTimeString(info.created),
-            updated: toDateTimeString(info.updated)
+            updated: toDateTimeString(info.updated),
+            sourcePath: info.filePath
           });
         }
       } catch (e) {
@@ -24,6 +24,10 @@ export class AmpSessionFinder {
     this.baseDir = path.join(os.homedir(), '.local', 'share', 'amp', 'threads');
   }
 
+  getBaseDir(): string {
+    return this.baseDir;
+  }
+
   listSessions(): AmpSessionInfo[] {
     const sessions: AmpSessionInfo[] = [];
 
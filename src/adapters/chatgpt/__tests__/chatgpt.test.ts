@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatGptExportParser } from '../index';
+
+const conversations = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'conversations.json'), 'utf-8'));
+
+describe('ChatGptExportParser', () => {
+  const parser = new ChatGptExportParser();
+  const sessions = parser.parseConversations(conversations);
+  const session = sessions[0];
+
+  it('should skip conversations without messages', () => {
+    expect(sessions.map(s => s.sessionId)).toEqual(['67878a20-1c2b-8005-9a3e-4d5f6a7b8c9d']);
+  });
+
+  it('should import the active branch only', () => {
+    expect(session.title).toBe('Regex for semver');
+    expect(session.messages.map(m => m.type)).toEqual([
+      'user', 'assistant_text', 'user', 'assistant_thinking', 'tool_use', 'tool_result', 'assistant_text'
+    ]);
+    expect(JSON.stringify(session.messages)).not.toContain('And pre-releases?');
+  });
+
+  it('should follow the latest child without current_node', () => {
+    const { current_node, ...withoutCurrentNode } = conversations[0];
+    expect(parser.parseConversation(withoutCurrentNode)?.messages).toEqual(session.messages);
+  });
+
+  it('should parse user and assistant text', () => {
+    expect(session.messages[0]).toEqual({
+      type: 'user',
+      timestamp: '2025-01-15T10:00:10.000Z',
+      content: [{ type: 'text', text: 'Write a regex that matches semver versions' }]
+    });
+    expect(session.messages[1]).toEqual({
+      type: 'assistant_text',
+      timestamp: '2025-01-15T10:00:20.000Z',
+      content: [{ type: 'markdown', markdown: 'Use `^\\d+\\.\\d+\\.\\d+$`.' }],
+      model: 'gpt-4o'
+    });
+    expect(session.messages[2]).toMatchObject({ content: [{ type: 'text', text: '[image]\nTest it against the versions in this screenshot' }] });
+  });
+
+  it('should parse reasoning and code interpreter calls', () => {
+    expect(session.messages[3]).toMatchObject({ type: 'assistant_thinking', thinking: 'Checking versions\n\nThe screenshot lists 1.2.3 and 1.0.0-beta.1.', model: 'o3' });
+    expect(session.messages[4]).toMatchObject({ type: 'tool_use', toolName: 'python', input: { language: 'python' } });
+    expect((session.messages[4] as any).input.code).toContain('import re');
+    expect(session.messages[5]).toEqual({
+      type: 'tool_result',
+      timestamp: '2025-01-15T10:03:45.000Z',
+      toolName: 'python',
+      output: [{ type: 'code', code: 'True' }],
+      isError: false
+    });
+  });
+
+  it('should record models and timestamps', () => {
+    expect(session.metadata).toEqual({
+      models: [['o3', 3], ['gpt-4o', 1]],
+      created: '2025-01-15T10:00:00.000Z',
+      modified: '2025-01-15T10:05:00.000Z',
+      messageCount: 7
+    });
+  });
+
+  it('should fall back to the first user message as title', () => {
+    expect(parser.parseConversation({ ...conversations[0], title: '' })?.title).toBe('Write a regex that matches semver versions');
+  });
+});
@@ -0,0 +1,226 @@
+import { SessionDetail, ParsedMessage, MessageContent } from '../../types';
+
+// ChatGPT data export structures (conversations.json)
+
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  /** Message tree; edits and regenerations add branches */
+  mapping?: Record<string, ChatGptNode>;
+  /** Last message of the branch shown in the app */
+  current_node?: string;
+  default_model_slug?: string;
+}
+
+interface ChatGptNode {
+  id: string;
+  message?: ChatGptMessage | null;
+  parent?: string | null;
+  children?: string[];
+}
+
+interface ChatGptMessage {
+  id: string;
+  author?: { role?: string; name?: string | null };
+  create_time?: number | null;
+  content?: {
+    content_type?: string;
+    parts?: any[];
+    text?: string;
+    language?: string;
+    thoughts?: Array<{ summary?: string; content?: string }>;
+    result?: string;
+  };
+  /** "all" for messages shown to the user, a tool name for tool calls */
+  recipient?: string;
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+}
+
+/**
+ * Parser for conversations.json of a ChatGPT data export
+ * Only the active branch of each conversation's message tree is imported
+ */
+export class ChatGptExportParser {
+  /**
+   * Parse all conversations of an export; conversations without messages are skipped
+   */
+  parseConversations(conversations: unknown[]): SessionDetail[] {
+    const sessions: SessionDetail[] = [];
+
+    for (const conversation of conversations) {
+      const session = this.parseConversation(conversation as ChatGptConversation);
+      if (session) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  parseConversation(conversation: ChatGptConversation): SessionDetail | null {
+    const sessionId = conversation.conversation_id || conversation.id;
+    if (!sessionId || !conversation.mapping) return null;
+
+    const created = this.toIsoString(conversation.create_time) || new Date(0).toISOString();
+    const messages: ParsedMessage[] = [];
+    const models = new Map<string, number>();
+    let timestamp = created;
+
+    for (const message of this.getActiveBranch(conversation)) {
+      timestamp = this.toIsoString(message.create_time) || timestamp;
+      const model = message.metadata?.model_slug;
+
+      const parsed = this.parseMessage(message, timestamp, model);
+      if (parsed.length === 0) continue;
+
+      if (model && message.author?.role === 'assistant') models.set(model, (models.get(model) || 0) + 1);
+      messages.push(...parsed);
+    }
+
+    if (messages.length === 0) return null;
+
+    return {
+      sessionId,
+      title: conversation.title?.trim() || this.extractTitle(messages) || `ChatGPT ${created.slice(0, 10)}`,
+      messages,
+      metadata: {
+        models: [...models.entries()].sort((a, b) => b[1] - a[1]),
+        created,
+        modified: this.toIsoString(conversation.update_time) || timestamp,
+        messageCount: messages.length
+      }
+    };
+  }
+
+  /**
+   * Messages from the root to current_node
+   * Without current_node, the most recent child is followed from the root
+   */
+  getActiveBranch(conversation: ChatGptConversation): ChatGptMessage[] {
+    const mapping = conversation.mapping || {};
+    const branch: ChatGptNode[] = [];
+
+    if (conversation.current_node && mapping[conversation.current_node]) {
+      const seen = new Set<string>();
+      let node: ChatGptNode | undefined = mapping[conversation.current_node];
+      while (node && !seen.has(node.id)) {
+        seen.add(node.id);
+        branch.unshift(node);
+        node = node.parent ? mapping[node.parent] : undefined;
+      }
+    } else {
+      let node: ChatGptNode | undefined = Object.values(mapping).find(n => !n.parent || !mapping[n.parent]);
+      while (node && branch.length <= Object.keys(mapping).length) {
+        branch.push(node);
+        const children: string[] = node.children || [];
+        node = children.length > 0 ? mapping[children[children.length - 1]] : undefined;
+      }
+    }
+
+    return branch
+      .map(node => node.message)
+      .filter((message): message is ChatGptMessage => !!message);
+  }
+
+  private parseMessage(message: ChatGptMessage, timestamp: string, model?: string): ParsedMessage[] {
+    const role = message.author?.role;
+    const content = message.content || {};
+    if (role === 'system' || message.metadata?.is_visually_hidden_from_conversation) return [];
+
+    if (role === 'user') {
+      const blocks = this.toContent(content.parts);
+      return blocks.length > 0 ? [{ type: 'user', timestamp, content: blocks }] : [];
+    }
+
+    if (role === 'tool') {
+      const output = this.toolOutput(message);
+      return output.length > 0
+        ? [{ type: 'tool_result', timestamp, toolName: message.author?.name || undefined, output, isError: false }]
+        : [];
+    }
+
+    // Assistant: reasoning, a call to a tool (code interpreter, browsing, ...) or the reply
+    switch (content.content_type) {
+      case 'thoughts': {
+        const thinking = (content.thoughts || [])
+          .map(t => [t.summary, t.content].filter(Boolean).join('\n\n'))
+          .filter(Boolean)
+          .join('\n\n');
+        return thinking ? [{ type: 'assistant_thinking', timestamp, thinking, model }] : [];
+      }
+
+      case 'reasoning_recap':
+        // "Thought for 12 seconds"
+        return [];
+    }
+
+    if (message.recipient && message.recipient !== 'all') {
+      const code = content.text ?? this.toText(content.parts);
+      return [{
+        type: 'tool_use',
+        timestamp,
+        toolName: message.recipient,
+        input: content.language ? { code, language: content.language } : { code },
+        results: [],
+        model
+      }];
+    }
+
+    const blocks = content.content_type === 'code' && content.text
+      ? [{ type: 'code' as const, code: content.text, language: content.language }]
+      : this.toContent(content.parts, 'markdown');
+    return blocks.length > 0 ? [{ type: 'assistant_text', timestamp, content: blocks, model }] : [];
+  }
+
+  private toolOutput(message: ChatGptMessage): MessageContent[] {
+    const content = message.content || {};
+
+    switch (content.content_type) {
+      case 'execution_output':
+        return content.text ? [{ type: 'code', code: content.text }] : [];
+      case 'tether_browsing_display':
+        return content.result ? [{ type: 'markdown', markdown: content.result }] : [];
+      default:
+        return this.toContent(content.parts, 'markdown');
+    }
+  }
+
+  /**
+   * Text parts as text or markdown; uploaded images and files become a placeholder
+   */
+  private toContent(parts: any[] | undefined, type: 'text' | 'markdown' = 'text'): MessageContent[] {
+    const text = this.toText(parts);
+    if (!text) return [];
+    return type === 'markdown' ? [{ type: 'markdown', markdown: text }] : [{ type: 'text', text }];
+  }
+
+  private toText(parts: any[] | undefined): string {
+    return (parts || [])
+      .map(part => {
+        if (typeof part === 'string') return part;
+        if (part?.content_type === 'image_asset_pointer') return '[image]';
+        if (part?.content_type === 'audio_transcription') return part.text || '';
+        return '';
+      })
+      .filter(Boolean)
+      .join('\n')
+      .trim();
+  }
+
+  private toIsoString(epochSeconds: number | null | undefined): string | undefined {
+    return epochSeconds ? new Date(epochSeconds * 1000).toISOString() : undefined;
+  }
+
+  private extractTitle(messages: ParsedMessage[]): string | null {
+    for (const msg of messages) {
+      if (msg.type !== 'user') continue;
+
+      const text = msg.content.map(c => c.type === 'text' ? c.text : '').join(' ').trim();
+      if (text) {
+        return text.length > 100 ? text.slice(0, 100) + '...' : text;
+      }
+    }
+    return null;
+  }
+}
@@ -169,6 +169,30 @@ describe('ClaudeSessionParser', () => {
   });
 
   describe('fixture files', () => {
+    it('should count token usage once per API message in assistant_usage.jsonl', () => {
+      const filePath = path.join(fixturesDir, 'assistant_usage.jsonl');
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const { messages, metadata } = parser.parseContent(content);
+
+      expect(metadata.usage).toEqual({ input: 15, output: 320, cacheRead: 32000, cacheWrite: 2100 });
+      expect(metadata.usageByModel?.['claude-sonnet-4-5-20250929']).toEqual(metadata.usage);
+
+      const withUsage = messages.filter(m => 'usage' in m && m.usage);
+      expect(withUsage).toHaveLength(2);
+      expect(withUsage[0].type).toBe('assistant_thinking');
+      if (withUsage[0].type === 'assistant_thinking') {
+        expect(withUsage[0].usage).toEqual({ input: 10, output: 300, cacheRead: 15000, cacheWrite: 2000 });
+        expect(withUsage[0].model).toBe('claude-sonnet-4-5-20250929');
+      }
+    });
+
+    it('should leave usage empty when the session has none', () => {
+      const filePath = path.join(fixturesDir, 'assistant_text.jsonl');
+      const { metadata } = parser.parseContent(fs.readFileSync(filePath, 'utf-8'));
+
+      expect(metadata.usage).toBeUndefined();
+    });
+
     it('should parse user_message.jsonl', () => {
       const filePath = path.join(fixturesDir, 'user_message.jsonl');
       const content = fs.readFileSync(filePath, 'utf-8');
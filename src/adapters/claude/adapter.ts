@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { extractProjectName } from '../../utils/project';
 import { toDateTimeString } from '../../utils/time';
 import { ClaudeSessionFinder, ClaudeSessionParser } from './index';
@@ -17,11 +17,17 @@ export class ClaudeSessionAdapter implements SessionAdapter {
     this.parser = new ClaudeSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getClaudeProjectsDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const files = this.finder.listSessionFiles();
 
     for (const { filePath, projectName } of files) {
+      if (options.shouldParse && !options.shouldParse(filePath)) continue;
+
       try {
         const session = this.parser.parseFile(filePath);
         if (session) {
@@ -41,7 +47,8 @@ export class ClaudeSessionAdapter implements SessionAdapter {
             projectPath,
             projectName: extractedProjectName,
             created: toDateTimeString(stats.birthtimeMs),
-            updated: toDateTimeString(stats.mtimeMs)
+            updated: toDateTimeString(stats.mtimeMs),
+            sourcePath: filePath
           });
         }
       } catch (e) {
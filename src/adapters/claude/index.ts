@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent } from '../../types';
+import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator, attachUsage } from '../../utils/tokenUsage';
 
 /**
  * Claude Code session finder
@@ -101,6 +102,9 @@ export class ClaudeSessionParser {
     let modified: string | null = null;
     let messageCount = 0;
     const modelCounts = new Map<string, number>();
+    const usage = new UsageAccumulator();
+    // One API response is written as several lines sharing message.id and usage
+    const seenUsageIds = new Set<string>();
 
     const lines = content.split('\n');
 
@@ -144,6 +148,16 @@ export class ClaudeSessionParser {
           rawMessages.push(parsed);
           messageCount++;
         }
+
+        if (type === 'assistant' && messageObj?.usage) {
+          const usageId = messageObj.id || json.requestId || json.uuid;
+          if (!usageId || !seenUsageIds.has(usageId)) {
+            if (usageId) seenUsageIds.add(usageId);
+            const messageUsage = this.parseUsage(messageObj.usage);
+            usage.add(messageUsage, model);
+            if (parsed) attachUsage([parsed], messageUsage, model);
+          }
+        }
       } catch (e) {
         // Skip lines that fail to parse
       }
@@ -159,12 +173,22 @@ export class ClaudeSessionParser {
       created: created || undefined,
       modified: modified || undefined,
       messageCount,
-      models: sortedModels
+      models: sortedModels,
+      ...usage.toMetadata()
     };
 
     return { messages: finalMessages, metadata };
   }
 
+  private parseUsage(usage: any): TokenUsage {
+    return {
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0,
+      cacheRead: usage.cache_read_input_tokens || 0,
+      cacheWrite: usage.cache_creation_input_tokens || 0
+    };
+  }
+
   private parseMessageContent(
     type: string | undefined,
     messageObj: any,
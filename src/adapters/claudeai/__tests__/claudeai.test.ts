@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeAiExportParser } from '../index';
+
+const conversations = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'conversations.json'), 'utf-8'));
+
+describe('ClaudeAiExportParser', () => {
+  const parser = new ClaudeAiExportParser();
+  const sessions = parser.parseConversations(conversations);
+  const session = sessions[0];
+
+  it('should skip conversations without messages', () => {
+    expect(sessions.map(s => s.sessionId)).toEqual(['1c9e5a2b-7d4f-4e8a-b3c1-6f2d8e9a0b17']);
+  });
+
+  it('should parse chat messages in order', () => {
+    expect(session.title).toBe('Flaky CI job');
+    expect(session.messages.map(m => m.type)).toEqual([
+      'user', 'info', 'assistant_thinking', 'tool_use', 'tool_result', 'assistant_text', 'user', 'assistant_text'
+    ]);
+    expect(session.messages[0]).toEqual({
+      type: 'user',
+      timestamp: '2025-01-15T10:00:05.000Z',
+      content: [{ type: 'text', text: 'Why does this job fail every other run?' }]
+    });
+  });
+
+  it('should list attachments and files', () => {
+    expect(session.messages[1]).toMatchObject({
+      type: 'info',
+      title: 'attachments',
+      subtitle: '2 files',
+      content: { type: 'text', text: 'ci.log\nworkflow.png' }
+    });
+  });
+
+  it('should parse thinking, tool calls and replies', () => {
+    expect(session.messages[2]).toMatchObject({ type: 'assistant_thinking', thinking: 'The log shows the database port is still bound.' });
+    expect(session.messages[3]).toMatchObject({ type: 'tool_use', toolName: 'web_search', input: { query: 'github actions postgres service port in use' } });
+    expect(session.messages[4]).toMatchObject({ type: 'tool_result', toolName: 'web_search', output: [{ type: 'text', text: 'Use a random host port for service containers.' }], isError: false });
+    expect(session.messages[5]).toMatchObject({ content: [{ type: 'markdown', markdown: "The previous run's **Postgres container** still holds port 5432." }] });
+  });
+
+  it('should fall back to the plain text of older exports', () => {
+    expect(session.messages[6]).toMatchObject({ type: 'user', content: [{ type: 'text', text: 'Thanks!' }] });
+    expect(session.messages[7]).toMatchObject({ type: 'assistant_text', content: [{ type: 'markdown', markdown: "You're welcome." }] });
+  });
+
+  it('should record timestamps without models', () => {
+    expect(session.metadata).toEqual({
+      models: [],
+      created: '2025-01-15T10:00:00.000Z',
+      modified: '2025-01-15T10:06:00.000Z',
+      messageCount: 8
+    });
+  });
+
+  it('should fall back to the first user message as title', () => {
+    expect(parser.parseConversation({ ...conversations[0], name: '' })?.title).toBe('Why does this job fail every other run?');
+  });
+});
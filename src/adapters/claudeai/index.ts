@@ -0,0 +1,211 @@
+import { SessionDetail, ParsedMessage, MessageContent } from '../../types';
+
+// Claude.ai data export structures (conversations.json)
+
+interface ClaudeAiConversation {
+  uuid?: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages?: ClaudeAiMessage[];
+}
+
+interface ClaudeAiMessage {
+  uuid?: string;
+  sender?: 'human' | 'assistant';
+  /** Plain text of the message; older exports have no content blocks */
+  text?: string;
+  content?: ClaudeAiContentBlock[];
+  created_at?: string;
+  /** Pasted or uploaded documents with their extracted text */
+  attachments?: Array<{ file_name?: string; file_size?: number }>;
+  /** Uploaded images and other files */
+  files?: Array<{ file_name?: string }>;
+}
+
+interface ClaudeAiContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  content?: Array<{ type?: string; text?: string }> | string;
+  is_error?: boolean;
+}
+
+/**
+ * Parser for conversations.json of a Claude.ai data export
+ * The export does not record which model answered, so sessions have no model metadata
+ */
+export class ClaudeAiExportParser {
+  /**
+   * Parse all conversations of an export; conversations without messages are skipped
+   */
+  parseConversations(conversations: unknown[]): SessionDetail[] {
+    const sessions: SessionDetail[] = [];
+
+    for (const conversation of conversations) {
+      const session = this.parseConversation(conversation as ClaudeAiConversation);
+      if (session) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  parseConversation(conversation: ClaudeAiConversation): SessionDetail | null {
+    if (!conversation.uuid) return null;
+
+    const created = this.toIsoString(conversation.created_at) || new Date(0).toISOString();
+    const messages: ParsedMessage[] = [];
+    let timestamp = created;
+
+    for (const message of conversation.chat_messages || []) {
+      timestamp = this.toIsoString(message.created_at) || timestamp;
+
+      if (message.sender === 'human') {
+        messages.push(...this.parseHumanMessage(message, timestamp));
+      } else if (message.sender === 'assistant') {
+        messages.push(...this.parseAssistantMessage(message, timestamp));
+      }
+    }
+
+    if (messages.length === 0) return null;
+
+    return {
+      sessionId: conversation.uuid,
+      title: conversation.name?.trim() || this.extractTitle(messages) || `Claude.ai ${created.slice(0, 10)}`,
+      messages,
+      metadata: {
+        models: [],
+        created,
+        modified: this.toIsoString(conversation.updated_at) || timestamp,
+        messageCount: messages.length
+      }
+    };
+  }
+
+  private parseHumanMessage(message: ClaudeAiMessage, timestamp: string): ParsedMessage[] {
+    const messages: ParsedMessage[] = [];
+
+    const text = this.messageText(message);
+    if (text) {
+      messages.push({ type: 'user', timestamp, content: [{ type: 'text', text }] });
+    }
+
+    const fileNames = [...(message.attachments || []), ...(message.files || [])]
+      .map(file => file.file_name)
+      .filter((name): name is string => !!name);
+    if (fileNames.length > 0) {
+      messages.push({
+        type: 'info',
+        timestamp,
+        title: 'attachments',
+        subtitle: fileNames.length === 1 ? '1 file' : `${fileNames.length} files`,
+        content: { type: 'text', text: fileNames.join('\n') },
+        style: 'default'
+      });
+    }
+
+    return messages;
+  }
+
+  private parseAssistantMessage(message: ClaudeAiMessage, timestamp: string): ParsedMessage[] {
+    if (!message.content || message.content.length === 0) {
+      return message.text ? [{ type: 'assistant_text', timestamp, content: [{ type: 'markdown', markdown: message.text }] }] : [];
+    }
+
+    const messages: ParsedMessage[] = [];
+
+    for (const block of message.content) {
+      switch (block.type) {
+        case 'text':
+          if (block.text?.trim()) {
+            messages.push({ type: 'assistant_text', timestamp, content: [{ type: 'markdown', markdown: block.text }] });
+          }
+          break;
+
+        case 'thinking':
+          if (block.thinking?.trim()) {
+            messages.push({ type: 'assistant_thinking', timestamp, thinking: block.thinking });
+          }
+          break;
+
+        case 'tool_use':
+          messages.push({
+            type: 'tool_use',
+            timestamp,
+            toolName: block.name || 'tool',
+            toolCallId: block.id,
+            input: this.toInput(block.input),
+            results: []
+          });
+          break;
+
+        case 'tool_result': {
+          const output = this.toolOutput(block.content);
+          messages.push({
+            type: 'tool_result',
+            timestamp,
+            toolName: block.name,
+            toolCallId: block.id,
+            output,
+            isError: !!block.is_error
+          });
+          break;
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  private messageText(message: ClaudeAiMessage): string {
+    const blocks = (message.content || []).filter(block => block.type === 'text' && block.text);
+    const text = blocks.length > 0 ? blocks.map(block => block.text).join('\n') : message.text;
+    return (text || '').trim();
+  }
+
+  /**
+   * Tool inputs are shown as key/value pairs; nested values are kept as JSON
+   */
+  private toInput(input: Record<string, unknown> | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(input || {})) {
+      result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return result;
+  }
+
+  private toolOutput(content: ClaudeAiContentBlock['content']): MessageContent[] {
+    if (typeof content === 'string') {
+      return content ? [{ type: 'text', text: content }] : [];
+    }
+
+    const text = (content || [])
+      .map(part => part.type === 'text' ? part.text || '' : '')
+      .filter(Boolean)
+      .join('\n');
+    return text ? [{ type: 'text', text }] : [];
+  }
+
+  /**
+   * Export timestamps have microseconds; stored sessions use millisecond ISO strings
+   */
+  private toIsoString(value: string | undefined): string | undefined {
+    const time = value ? Date.parse(value) : NaN;
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+
+  private extractTitle(messages: ParsedMessage[]): string | null {
+    for (const msg of messages) {
+      if (msg.type !== 'user') continue;
+
+      const text = msg.content.map(c => c.type === 'text' ? c.text : '').join(' ').trim();
+      if (text) {
+        return text.length > 100 ? text.slice(0, 100) + '...' : text;
+      }
+    }
+    return null;
+  }
+}
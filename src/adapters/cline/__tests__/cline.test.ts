@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClineSessionParser, ClineTaskFinder } from '../index';
+import { ClineAdapter, RooCodeAdapter } from '../adapter';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+function readFixture(name: string): any {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf-8'));
+}
+
+/**
+ * Write a task folder the way the extension stores it
+ */
+function writeTask(storageDir: string, taskId: string, uiMessages: any[], apiHistory: any[] = []): string {
+  const taskPath = path.join(storageDir, 'tasks', taskId);
+  fs.mkdirSync(taskPath, { recursive: true });
+  fs.writeFileSync(path.join(taskPath, 'ui_messages.json'), JSON.stringify(uiMessages));
+  fs.writeFileSync(path.join(taskPath, 'api_conversation_history.json'), JSON.stringify(apiHistory));
+  return taskPath;
+}
+
+describe('Cline', () => {
+  let tempDir: string;
+  let codeStorageDir: string;
+  let cursorStorageDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cline-test-'));
+    codeStorageDir = path.join(tempDir, 'Code', 'User', 'globalStorage', 'saoudrizwan.claude-dev');
+    cursorStorageDir = path.join(tempDir, 'Cursor', 'User', 'globalStorage', 'saoudrizwan.claude-dev');
+
+    // VS Code: project path from the task history
+    writeTask(codeStorageDir, '1736935200000', readFixture('ui_messages.json'), readFixture('api_conversation_history.json'));
+    fs.mkdirSync(path.join(codeStorageDir, 'state'), { recursive: true });
+    fs.copyFileSync(path.join(fixturesDir, 'taskHistory.json'), path.join(codeStorageDir, 'state', 'taskHistory.json'));
+    // Deleted from the history but still on disk, without a working directory
+    writeTask(codeStorageDir, '1736935100000', [{ ts: 1736935100000, type: 'say', say: 'text', text: 'Hello' }]);
+
+    // Cursor: no task history, project path from the environment details
+    writeTask(cursorStorageDir, '1736935400000', [
+      { ts: 1736935400000, type: 'say', say: 'text', text: 'Write a README' },
+      { ts: 1736935401000, type: 'say', say: 'api_req_started', text: '{}' },
+      { ts: 1736935402000, type: 'say', say: 'text', text: 'Done.' }
+    ], [
+      { role: 'user', content: [{ type: 'text', text: '<environment_details>\n# Current Workspace Directory (/home/dev/docs site) Files\nREADME.md\n</environment_details>' }] }
+    ]);
+    // Task folders without ui_messages.json are ignored
+    fs.mkdirSync(path.join(cursorStorageDir, 'tasks', 'incomplete'), { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createFinder(): ClineTaskFinder {
+    const finder = new ClineTaskFinder('saoudrizwan.claude-dev');
+    (finder as any).storageDirs = [codeStorageDir, path.join(tempDir, 'VSCodium', 'User', 'globalStorage', 'saoudrizwan.claude-dev'), cursorStorageDir];
+    return finder;
+  }
+
+  describe('ClineTaskFinder', () => {
+    it('should look for the extension in every editor user directory', () => {
+      const storageDirs: string[] = (new ClineTaskFinder('rooveterinaryinc.roo-cline') as any).storageDirs;
+
+      expect(storageDirs).toHaveLength(4);
+      expect(storageDirs.every(dir => dir.endsWith(path.join('User', 'globalStorage', 'rooveterinaryinc.roo-cline')))).toBe(true);
+      expect(storageDirs.map(dir => path.basename(path.dirname(path.dirname(path.dirname(dir)))))).toEqual(['Code', 'Code - Insiders', 'VSCodium', 'Cursor']);
+    });
+
+    it('should list tasks of all installed editors', () => {
+      const finder = createFinder();
+
+      expect(finder.getStorageDirs()).toEqual([codeStorageDir, cursorStorageDir]);
+      expect(finder.listTasks().sort((a, b) => a.taskId.localeCompare(b.taskId))).toEqual([
+        { taskId: '1736935100000', taskPath: path.join(codeStorageDir, 'tasks', '1736935100000'), projectPath: undefined },
+        { taskId: '1736935200000', taskPath: path.join(codeStorageDir, 'tasks', '1736935200000'), projectPath: '/home/dev/api' },
+        { taskId: '1736935400000', taskPath: path.join(cursorStorageDir, 'tasks', '1736935400000'), projectPath: undefined }
+      ]);
+    });
+
+    it('should return empty array if no editor has the extension', () => {
+      const finder = new ClineTaskFinder('saoudrizwan.claude-dev');
+      (finder as any).storageDirs = [path.join(tempDir, 'missing')];
+
+      expect(finder.listTasks()).toEqual([]);
+    });
+  });
+
+  describe('ClineSessionParser', () => {
+    const parser = new ClineSessionParser();
+
+    it('should treat text before the first API request as user input and after it as assistant text', () => {
+      const { messages } = parser.parseContent(readFixture('ui_messages.json'), [], {}, '/test/task');
+
+      expect(messages.filter(m => m.type === 'user' || m.type === 'assistant_text')).toEqual([
+        { type: 'user', timestamp: '2025-01-15T10:00:00.000Z', content: [{ type: 'text', text: 'Add a health check endpoint to the API' }] },
+        { type: 'assistant_text', timestamp: '2025-01-15T10:00:03.000Z', content: [{ type: 'markdown', markdown: "I'll add the route next to the existing ones." }] },
+        { type: 'user', timestamp: '2025-01-15T10:00:20.000Z', content: [{ type: 'text', text: 'Also return the version' }] },
+        { type: 'assistant_text', timestamp: '2025-01-15T10:00:40.000Z', content: [{ type: 'markdown', markdown: '`GET /health` now returns `{ ok: true, version }`.' }] }
+      ]);
+    });
+
+    it('should parse auto-approved and approved tool calls', () => {
+      const { messages } = parser.parseContent(readFixture('ui_messages.json'), [], {}, '/test/task');
+
+      expect(messages.filter(m => m.type === 'tool_use').map(m => m.type === 'tool_use' && m.toolName)).toEqual(['readFile', 'editedExistingFile']);
+    });
+
+    it('should take the title from the task message', () => {
+      const session = parser.parseSession(path.join(codeStorageDir, 'tasks', '1736935200000'), null);
+
+      expect(session?.sessionId).toBe('1736935200000');
+      expect(session?.title).toBe('Add a health check endpoint to the API');
+    });
+
+    it('should extract the working directory from the environment details', () => {
+      const { metadata } = parser.parseContent([], readFixture('api_conversation_history.json'), {}, '/test/task');
+
+      expect(metadata.cwd).toBe('/home/dev/api');
+    });
+
+    it('should use its label in fallback titles', () => {
+      const taskPath = writeTask(path.join(tempDir, 'roo'), 'task-without-text', [{ ts: 1736935500000, type: 'say', say: 'api_req_started', text: '{}' }]);
+      const session = new ClineSessionParser('Roo Code').parseSession(taskPath, null);
+
+      expect(session?.title).toBe('Roo Code Session task-wit');
+    });
+  });
+
+  describe('ClineAdapter', () => {
+    function createAdapter(): ClineAdapter {
+      const adapter = new ClineAdapter();
+      (adapter as any).finder = createFinder();
+      return adapter;
+    }
+
+    it('should import tasks under their working directory', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      const sessions = await createAdapter().getSessions();
+      log.mockRestore();
+
+      expect(sessions.map(s => s.session.sessionId).sort()).toEqual(['1736935200000', '1736935400000']);
+      expect(sessions.find(s => s.session.sessionId === '1736935200000')).toMatchObject({
+        provider: 'cline',
+        projectPath: '/home/dev/api',
+        projectName: 'api',
+        title: 'Add a health check endpoint to the API',
+        created: '2025-01-15T10:00:00.000Z',
+        updated: '2025-01-15T10:00:40.000Z',
+        sourcePath: path.join(codeStorageDir, 'tasks', '1736935200000')
+      });
+      expect(sessions.find(s => s.session.sessionId === '1736935400000')).toMatchObject({
+        projectPath: '/home/dev/docs site',
+        projectName: 'docs-site'
+      });
+    });
+
+    it('should skip unchanged tasks', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      const sessions = await createAdapter().getSessions({ shouldParse: sourcePath => sourcePath.startsWith(cursorStorageDir) });
+      log.mockRestore();
+
+      expect(sessions.map(s => s.session.sessionId)).toEqual(['1736935400000']);
+    });
+
+    it('should register Roo Code as its own provider', () => {
+      const adapter = new RooCodeAdapter();
+
+      expect(adapter.provider).toBe('roo_code');
+      expect(adapter.label).toBe('Roo Code');
+    });
+  });
+});
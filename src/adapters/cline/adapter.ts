@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionProvider } from '../../types';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { extractProjectName } from '../../utils/project';
+import { toDateTimeString } from '../../utils/time';
+import { ClineSessionParser, ClineTaskFinder } from './index';
+
+/**
+ * Adapter for a VS Code extension of the Cline family, which all store tasks in the same format
+ */
+class ClineExtensionAdapter implements SessionAdapter {
+  private finder: ClineTaskFinder;
+  private parser: ClineSessionParser;
+
+  constructor(
+    readonly provider: SessionProvider,
+    readonly label: string,
+    extensionId: string
+  ) {
+    this.finder = new ClineTaskFinder(extensionId);
+    this.parser = new ClineSessionParser(label);
+  }
+
+  getWatchPaths(): string[] {
+    return this.finder.getStorageDirs().map(dir => path.join(dir, 'tasks'));
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
+    const sessions: SessionWithProject[] = [];
+
+    for (const { taskPath, taskId, projectPath: historyPath } of this.finder.listTasks()) {
+      if (options.shouldParse && !options.shouldParse(taskPath)) continue;
+
+      try {
+        const session = this.parser.parseSession(taskPath, taskId);
+        if (!session) continue;
+
+        const projectPath = historyPath || session.metadata?.cwd;
+        const projectName = projectPath && path.isAbsolute(projectPath) ? extractProjectName(projectPath) : null;
+        if (!projectPath || !projectName) {
+          console.log(`Skipping ${this.label} session ${taskId}: could not determine project path`);
+          continue;
+        }
+        if (session.metadata) session.metadata.cwd = projectPath;
+
+        // Prefer message timestamps, the task folder is rewritten on every change
+        let created = session.metadata?.created;
+        let updated = session.metadata?.modified;
+        if (!created || !updated) {
+          try {
+            const stats = fs.statSync(taskPath);
+            created = created || toDateTimeString(stats.birthtimeMs);
+            updated = updated || toDateTimeString(stats.mtimeMs);
+          } catch (e) {
+            created = created || toDateTimeString(Date.now());
+            updated = updated || toDateTimeString(Date.now());
+          }
+        }
+
+        sessions.push({
+          session,
+          provider: this.provider,
+          projectPath,
+          projectName,
+          title: session.title,
+          created,
+          updated,
+          sourcePath: taskPath
+        });
+      } catch (e) {
+        console.error(`Error parsing ${this.label} session ${taskId}:`, e);
+      }
+    }
+
+    return sessions;
+  }
+}
+
+export class ClineAdapter extends ClineExtensionAdapter {
+  constructor() {
+    super(SessionProvider.CLINE, 'Cline', 'saoudrizwan.claude-dev');
+  }
+}
+
+export class RooCodeAdapter extends ClineExtensionAdapter {
+  constructor() {
+    super(SessionProvider.ROO_CODE, 'Roo Code', 'rooveterinaryinc.roo-cline');
+  }
+}
@@ -0,0 +1,578 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionDetail, SessionMetadata, ParsedMessage } from '../../types';
+import { getEditorUserDir } from '../../utils/paths';
+
+/** VS Code based editors whose globalStorage may hold Cline-family extension data */
+const EDITOR_APP_NAMES = ['Code', 'Code - Insiders', 'VSCodium', 'Cursor'];
+
+export interface ClineTaskInfo {
+  taskId: string;
+  taskPath: string;
+  /** Working directory recorded in the extension's task history, if any */
+  projectPath?: string;
+}
+
+/**
+ * Finder for the tasks of a Cline-family VS Code extension
+ * Locates task folders in <editor user dir>/globalStorage/{extensionId}/tasks/{taskId}/
+ * across VS Code, VS Code Insiders, VSCodium and Cursor.
+ */
+export class ClineTaskFinder {
+  private readonly storageDirs: string[];
+
+  constructor(extensionId: string) {
+    this.storageDirs = EDITOR_APP_NAMES.map(appName => path.join(getEditorUserDir(appName), 'globalStorage', extensionId));
+  }
+
+  /**
+   * Extension storage directories that exist
+   */
+  getStorageDirs(): string[] {
+    return this.storageDirs.filter(dir => fs.existsSync(dir));
+  }
+
+  /**
+   * List the task folders of all editors
+   */
+  listTasks(): ClineTaskInfo[] {
+    const tasks: ClineTaskInfo[] = [];
+
+    for (const storageDir of this.getStorageDirs()) {
+      const tasksDir = path.join(storageDir, 'tasks');
+      if (!fs.existsSync(tasksDir)) continue;
+
+      const workspaces = this.loadTaskWorkspaces(storageDir);
+      for (const entry of fs.readdirSync(tasksDir, { withFileTypes: true })) {
+        const taskPath = path.join(tasksDir, entry.name);
+        if (!entry.isDirectory() || !fs.existsSync(path.join(taskPath, 'ui_messages.json'))) continue;
+
+        tasks.push({ taskId: entry.name, taskPath, projectPath: workspaces.get(entry.name) });
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Map task ids to their working directory from state/taskHistory.json
+   * Cline records cwdOnTaskInitialization, Roo Code the workspace
+   */
+  private loadTaskWorkspaces(storageDir: string): Map<string, string> {
+    const workspaces = new Map<string, string>();
+    const historyPath = path.join(storageDir, 'state', 'taskHistory.json');
+    if (!fs.existsSync(historyPath)) return workspaces;
+
+    try {
+      const history = JSON.parse(fs.readFileSync(historyPath, 'utf-8'));
+      for (const item of Array.isArray(history) ? history : []) {
+        const cwd = item?.cwdOnTaskInitialization || item?.workspace;
+        if (item?.id && typeof cwd === 'string') {
+          workspaces.set(String(item.id), cwd);
+        }
+      }
+    } catch (e) {
+      console.error(`Error reading ${historyPath}:`, e);
+    }
+
+    return workspaces;
+  }
+}
+
+/**
+ * Parser for the task folders of Cline and its forks (Roo Code, Kilo Code)
+ * Parses ui_messages.json and api_conversation_history.json
+ */
+export class ClineSessionParser {
+  /**
+   * @param label Provider name used in fallback titles and error messages
+   */
+  constructor(private readonly label = 'Cline') {}
+
+  /**
+   * Parses a session from a task directory
+   */
+  parseSession(taskPath: string, sessionId: string | null): SessionDetail | null {
+    const uiMessagesPath = path.join(taskPath, 'ui_messages.json');
+    const apiHistoryPath = path.join(taskPath, 'api_conversation_history.json');
+    const metadataPath = path.join(taskPath, 'task_metadata.json');
+
+    if (!fs.existsSync(uiMessagesPath)) {
+      return null;
+    }
+
+    try {
+      const uiMessages = JSON.parse(fs.readFileSync(uiMessagesPath, 'utf-8'));
+      const apiHistory = fs.existsSync(apiHistoryPath) 
+        ? JSON.parse(fs.readFileSync(apiHistoryPath, 'utf-8')) 
+        : [];
+      const metadata = fs.existsSync(metadataPath)
+        ? JSON.parse(fs.readFileSync(metadataPath, 'utf-8'))
+        : {};
+
+      const taskId = path.basename(taskPath);
+      const finalSessionId = sessionId || taskId;
+      
+      const { messages, metadata: sessionMetadata } = this.parseContent(
+        uiMessages, 
+        apiHistory,
+        metadata,
+        taskPath
+      );
+
+      const title = this.extractTitle(uiMessages, apiHistory) || `${this.label} Session ${finalSessionId.slice(0, 8)}`;
+
+      return {
+        sessionId: finalSessionId,
+        title,
+        messages,
+        metadata: sessionMetadata
+      };
+    } catch (e) {
+      console.error(`Error parsing ${this.label} session from ${taskPath}:`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Parse content from UI messages and API history
+   */
+  parseContent(
+    uiMessages: any[], 
+    apiHistory: any[],
+    metadata: any,
+    taskPath: string
+  ): { messages: ParsedMessage[]; metadata: SessionMetadata } {
+    const messages: ParsedMessage[] = [];
+    let messageCount = 0;
+    
+    let firstTimestamp: number | null = null;
+    let lastTimestamp: number | null = null;
+
+    // Track tool uses from API history to avoid duplicates
+    const apiToolCallIds = new Set<string>();
+
+    // Process API history first for tool uses and assistant messages
+    for (const apiMsg of apiHistory) {
+      const timestamp = apiMsg.ts ? new Date(apiMsg.ts).toISOString() : new Date().toISOString();
+      
+      if (apiMsg.role === 'assistant' && apiMsg.content) {
+        const content = Array.isArray(apiMsg.content) ? apiMsg.content : [apiMsg.content];
+        
+        for (const item of content) {
+          if (typeof item === 'object' && item.type === 'tool_use') {
+            // Parse tool use from API history
+            const toolUse: ParsedMessage = {
+              type: 'tool_use',
+              timestamp,
+              toolName: item.name || 'unknown',
+              toolCallId: item.id,
+              input: typeof item.input === 'object' ? 
+                Object.entries(item.input).reduce((acc, [k, v]) => {
+                  acc[k] = typeof v === 'string' ? v : JSON.stringify(v);
+                  return acc;
+                }, {} as Record<string, string>) : 
+                { input: JSON.stringify(item.input) },
+              results: []
+            };
+            messages.push(toolUse);
+            messageCount++;
+            apiToolCallIds.add(item.id);
+          }
+        }
+      }
+    }
+
+    // Process UI messages
+    // "text" is the user's task before the first API request and assistant text after it
+    let apiRequestStarted = false;
+    for (const uiMsg of uiMessages) {
+      const timestamp = uiMsg.ts;
+      if (timestamp) {
+        if (firstTimestamp === null) firstTimestamp = timestamp;
+        lastTimestamp = timestamp;
+      }
+
+      // Streaming updates of a message that is stored again once complete
+      if (uiMsg.partial === true) continue;
+
+      const parsed = this.parseUiMessage(uiMsg, apiRequestStarted);
+      if (uiMsg.type === 'say' && uiMsg.say === 'api_req_started') {
+        apiRequestStarted = true;
+      }
+      if (parsed) {
+        // Skip UI tool uses that we already have from API history
+        if (parsed.type === 'tool_use' && parsed.toolCallId && apiToolCallIds.has(parsed.toolCallId)) {
+          continue;
+        }
+        messages.push(parsed);
+        messageCount++;
+      }
+    }
+
+    // Connect tool results to tool uses
+    const finalMessages = this.connectToolResultsToToolUse(messages);
+
+    // Extract model from API conversation history
+    const model = this.extractModelFromApiHistory(apiHistory);
+
+    const sessionMetadata: SessionMetadata = {
+      version: undefined,
+      gitBranch: undefined,
+      cwd: this.extractWorkspace(metadata, apiHistory, taskPath),
+      models: model ? [[model, 1]] : [],
+      messageCount,
+      created: firstTimestamp ? new Date(firstTimestamp).toISOString() : undefined,
+      modified: lastTimestamp ? new Date(lastTimestamp).toISOString() : undefined
+    };
+
+    return { messages: finalMessages, metadata: sessionMetadata };
+  }
+
+  /**
+   * Extract model from API conversation history
+   * Model is stored in <environment_details> section of the first user message
+   */
+  private extractModelFromApiHistory(apiHistory: any[]): string | null {
+    for (const msg of apiHistory) {
+      if (msg.role === 'user' && msg.content) {
+        // Check all text content items (not just the first one)
+        if (Array.isArray(msg.content)) {
+          for (const item of msg.content) {
+            if (item.type === 'text' && item.text) {
+              // Only look for model in environment_details section
+              if (item.text.includes('<environment_details>')) {
+                const modelMatch = item.text.match(/<model>([^<]+)<\/model>/);
+                if (modelMatch) {
+                  return modelMatch[1];
+                }
+              }
+            }
+          }
+        } else if (typeof msg.content === 'string') {
+          // Only look for model in environment_details section
+          if (msg.content.includes('<environment_details>')) {
+            const modelMatch = msg.content.match(/<model>([^<]+)<\/model>/);
+            if (modelMatch) {
+              return modelMatch[1];
+            }
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse a single UI message
+   */
+  private parseUiMessage(uiMsg: any, apiRequestStarted: boolean): ParsedMessage | null {
+    const timestamp = uiMsg.ts ? new Date(uiMsg.ts).toISOString() : new Date().toISOString();
+
+    switch (uiMsg.type) {
+      case 'say':
+        return this.parseSayMessage(uiMsg, timestamp, apiRequestStarted);
+      case 'ask':
+        return this.parseAskMessage(uiMsg, timestamp);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse 'say' type messages
+   */
+  private parseSayMessage(uiMsg: any, timestamp: string, apiRequestStarted: boolean): ParsedMessage | null {
+    switch (uiMsg.say) {
+      case 'text':
+        if (apiRequestStarted) {
+          return this.parseAssistantText(uiMsg, timestamp);
+        }
+        // The task the user started with
+        return {
+          type: 'user',
+          timestamp,
+          content: [{ type: 'text', text: uiMsg.text || '' }]
+        };
+
+      case 'task':
+      case 'user_feedback':
+        // User text message
+        return {
+          type: 'user',
+          timestamp,
+          content: [{ type: 'text', text: uiMsg.text || '' }]
+        };
+
+      case 'completion_result':
+        return this.parseAssistantText(uiMsg, timestamp);
+
+      case 'tool':
+        // Auto-approved tool use
+        return this.parseToolMessage(uiMsg, timestamp);
+
+      case 'reasoning':
+        // Assistant thinking/reasoning
+        return {
+          type: 'assistant_thinking',
+          timestamp,
+          thinking: uiMsg.text || ''
+        };
+
+      case 'checkpoint_saved':
+        // Skip checkpoint info - not conversation data
+        return null;
+
+      case 'api_req_started':
+        // Skip API request started - not conversation data
+        return null;
+
+      case 'api_req_finished':
+        // Skip API request finished - not conversation data
+        return null;
+
+      case 'error':
+        // Error message
+        return {
+          type: 'info',
+          timestamp,
+          title: 'error',
+          content: { type: 'text', text: uiMsg.text || 'Unknown error' },
+          style: 'error'
+        };
+
+      default:
+        // Unknown say type - skip
+        return null;
+    }
+  }
+
+  /**
+   * Parse 'ask' type messages
+   */
+  private parseAskMessage(uiMsg: any, timestamp: string): ParsedMessage | null {
+    switch (uiMsg.ask) {
+      case 'tool':
+        // Tool use
+        return this.parseToolMessage(uiMsg, timestamp);
+
+      case 'followup':
+        // Follow-up question
+        return {
+          type: 'info',
+          timestamp,
+          title: 'followup',
+          subtitle: 'question',
+          content: { type: 'text', text: uiMsg.text || '' },
+          style: 'default'
+        };
+
+      case 'command':
+        // Slash command
+        return {
+          type: 'info',
+          timestamp,
+          title: 'command',
+          content: { type: 'text', text: uiMsg.text || '' },
+          style: 'default'
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  private parseAssistantText(uiMsg: any, timestamp: string): ParsedMessage | null {
+    const text = (uiMsg.text || '').trim();
+    if (!text) return null;
+
+    return {
+      type: 'assistant_text',
+      timestamp,
+      content: [{ type: 'markdown', markdown: text }]
+    };
+  }
+
+  /**
+   * Parse a tool message, whose text is the JSON encoded tool call
+   */
+  private parseToolMessage(uiMsg: any, timestamp: string): ParsedMessage {
+    try {
+      const toolData = JSON.parse(uiMsg.text || '{}');
+      const toolName = toolData.tool || 'unknown';
+      const input = this.parseToolInput(toolData);
+
+      return {
+        type: 'tool_use',
+        timestamp,
+        toolName,
+        input,
+        results: []
+      };
+    } catch (e) {
+      return {
+        type: 'info',
+        timestamp,
+        title: 'tool_error',
+        content: { type: 'text', text: `Failed to parse tool: ${uiMsg.text}` },
+        style: 'error'
+      };
+    }
+  }
+
+  /**
+   * Parse tool input from tool data
+   * Converts all properties except 'tool' to string values
+   */
+  private parseToolInput(toolData: any): Record<string, string> {
+    const input: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(toolData)) {
+      if (key !== 'tool') {
+        input[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+    }
+
+    return input;
+  }
+
+  /**
+   * Extract workspace/project path from metadata or the environment details sent to the model
+   * Note: For Kilo CLI, project path comes from workspace mappings, not metadata
+   */
+  private extractWorkspace(metadata: any, apiHistory: any[], taskPath: string): string | undefined {
+    if (metadata.cwd) {
+      return metadata.cwd;
+    }
+
+    const environmentCwd = this.extractEnvironmentCwd(apiHistory);
+    if (environmentCwd) {
+      return environmentCwd;
+    }
+
+    if (metadata.files_in_context && metadata.files_in_context.length > 0) {
+      const firstFile = metadata.files_in_context[0];
+      if (firstFile.path) {
+        return path.dirname(firstFile.path);
+      }
+    }
+
+    // Return undefined - the actual project path comes from workspace mappings
+    return undefined;
+  }
+
+  /**
+   * Working directory from the first "# Current Working Directory (/path) Files" (Cline)
+   * or "# Current Workspace Directory (/path) Files" (Roo Code) section
+   */
+  private extractEnvironmentCwd(apiHistory: any[]): string | undefined {
+    for (const msg of apiHistory) {
+      if (msg.role !== 'user' || !msg.content) continue;
+
+      const texts = Array.isArray(msg.content)
+        ? msg.content.filter((item: any) => item.type === 'text' && item.text).map((item: any) => item.text)
+        : [String(msg.content)];
+      for (const text of texts) {
+        const match = text.match(/# Current (?:Working|Workspace) Directory \((.+?)\) Files/);
+        if (match) {
+          return match[1];
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract title from first user message
+   */
+  private extractTitle(uiMessages: any[], apiHistory: any[]): string | null {
+    // Try UI messages first
+    for (const msg of uiMessages) {
+      if (msg.type === 'say' && (msg.say === 'text' || msg.say === 'task') && msg.text) {
+        const text = msg.text.trim();
+        if (text) {
+          return text.length > 100 ? text.slice(0, 100) + '...' : text;
+        }
+      }
+    }
+
+    // Fallback to API history
+    for (const msg of apiHistory) {
+      if (msg.role === 'user' && msg.content) {
+        let text = '';
+        if (Array.isArray(msg.content)) {
+          const textItem = msg.content.find((c: any) => c.type === 'text');
+          if (textItem) {
+            text = textItem.text || '';
+          }
+        } else if (typeof msg.content === 'string') {
+          text = msg.content;
+        }
+        
+        text = text.trim();
+        if (text) {
+          return text.length > 100 ? text.slice(0, 100) + '...' : text;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Connect tool results to their corresponding tool uses
+   */
+  private connectToolResultsToToolUse(rawMessages: ParsedMessage[]): ParsedMessage[] {
+    const toolResultsByCallId = new Map<string, ParsedMessage[]>();
+    
+    rawMessages.forEach(msg => {
+      if (msg.type === 'tool_result' && msg.toolCallId) {
+        const list = toolResultsByCallId.get(msg.toolCallId) || [];
+        list.push(msg);
+        toolResultsByCallId.set(msg.toolCallId, list);
+      }
+    });
+
+    const connectedCallIds = new Set<string>();
+    const result: ParsedMessage[] = [];
+
+    for (const msg of rawMessages) {
+      if (msg.type === 'tool_use') {
+        const callId = msg.toolCallId;
+        if (callId && toolResultsByCallId.has(callId)) {
+          const results = toolResultsByCallId.get(callId) || [];
+          result.push({
+            ...msg,
+            results: results.map(r => {
+              const toolResult = r as ParsedMessage & { type: 'tool_result' };
+              return {
+                output: toolResult.output?.[0]?.type === 'code' 
+                  ? toolResult.output[0].code 
+                  : JSON.stringify(toolResult.output),
+                isError: toolResult.isError || false,
+                toolCallId: toolResult.toolCallId
+              };
+            })
+          });
+          connectedCallIds.add(callId);
+        } else {
+          result.push(msg);
+        }
+      } else if (msg.type === 'tool_result') {
+        const callId = msg.toolCallId;
+        if (!callId || !connectedCallIds.has(callId)) {
+          const hasMatchingToolUse = rawMessages.some(m => 
+            m.type === 'tool_use' && m.toolCallId === callId
+          );
+          if (!hasMatchingToolUse) {
+            result.push(msg);
+          }
+        }
+      } else {
+        result.push(msg);
+      }
+    }
+
+    return result;
+  }
+}
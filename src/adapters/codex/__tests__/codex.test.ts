@@ -170,6 +170,24 @@ describe('CodexSessionParser', () => {
       expect(toolUse.results[0].output).toContain('hello');
     });
 
+    // ============ Token Usage Tests ============
+
+    it('should attach token_count usage to the turn and skip repeated totals', () => {
+      const content = loadFixture('token_count');
+      const { messages, metadata } = parser.parseContent(content);
+
+      expect(metadata.usage).toEqual({ input: 1400, output: 230, cacheRead: 9000, cacheWrite: 0 });
+      expect(Object.keys(metadata.usageByModel || {})).toEqual(['gpt-5-codex']);
+
+      const assistant = messages.filter(m => m.type === 'assistant_text');
+      expect(assistant).toHaveLength(2);
+      if (assistant[0].type === 'assistant_text' && assistant[1].type === 'assistant_text') {
+        expect(assistant[0].usage).toEqual({ input: 1000, output: 200, cacheRead: 4000, cacheWrite: 0 });
+        expect(assistant[1].usage).toEqual({ input: 400, output: 30, cacheRead: 5000, cacheWrite: 0 });
+        expect(assistant[1].model).toBe('gpt-5-codex');
+      }
+    });
+
     // ============ Mixed Conversation Tests ============
 
     it('should parse mixed conversation', () => {
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent } from '../../types';
+import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator, attachUsage } from '../../utils/tokenUsage';
 
 interface CodexSessionInfo {
   sessionId: string;
@@ -251,6 +252,11 @@ export class CodexSessionParser {
     let modified: string | null = null;
     let messageCount = 0;
     const modelCounts = new Map<string, number>();
+    const usage = new UsageAccumulator();
+    let currentModel: string | undefined;
+    let lastTotalTokens: number | null = null;
+    // Messages since the previous token_count event, i.e. the current turn
+    let turnStart = 0;
 
     const lines = content.split('\n');
 
@@ -293,6 +299,19 @@ export class CodexSessionParser {
             const model = json.payload?.model;
             if (model) {
               modelCounts.set(model, (modelCounts.get(model) || 0) + 1);
+              currentModel = model;
+            }
+            break;
+
+          case 'event_msg':
+            const info = json.payload?.type === 'token_count' ? json.payload.info : null;
+            // The same totals are repeated when nothing was generated in between
+            if (info?.last_token_usage && info.total_token_usage?.total_tokens !== lastTotalTokens) {
+              lastTotalTokens = info.total_token_usage?.total_tokens ?? null;
+              const turnUsage = this.parseUsage(info.last_token_usage);
+              usage.add(turnUsage, currentModel);
+              attachUsage(rawMessages.slice(turnStart).reverse(), turnUsage, currentModel);
+              turnStart = rawMessages.length;
             }
             break;
         }
@@ -311,12 +330,26 @@ export class CodexSessionParser {
       created: created || undefined,
       modified: modified || undefined,
       messageCount,
-      models: sortedModels
+      models: sortedModels,
+      ...usage.toMetadata()
     };
 
     return { messages: finalMessages, metadata };
   }
 
+  /**
+   * Codex reports cached tokens as part of input_tokens
+   */
+  private parseUsage(usage: any): TokenUsage {
+    const cached = usage.cached_input_tokens || 0;
+    return {
+      input: Math.max((usage.input_tokens || 0) - cached, 0),
+      output: usage.output_tokens || 0,
+      cacheRead: cached,
+      cacheWrite: 0
+    };
+  }
+
   private parseResponseItem(payload: any, timestamp: string): ParsedMessage | null {
     if (!payload) return null;
 
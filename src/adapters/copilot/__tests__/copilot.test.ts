@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CopilotPaths, CopilotSessionFinder, CopilotSessionParser, getJetBrainsConfigDir } from '../index';
+import { CopilotAdapter } from '../adapter';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const sessionJson = fs.readFileSync(path.join(fixturesDir, 'session.json'), 'utf-8');
+
+describe('Copilot', () => {
+  let storageDir: string;
+
+  beforeAll(() => {
+    storageDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-test-')), 'Code', 'User', 'workspaceStorage');
+
+    const workspaceDir = path.join(storageDir, 'a1b2c3');
+    fs.mkdirSync(path.join(workspaceDir, 'chatSessions'), { recursive: true });
+    fs.writeFileSync(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder: 'file:///home/dev/shop' }));
+    fs.writeFileSync(path.join(workspaceDir, 'chatSessions', '5f0c1a9e-2b7d-4c1e-9a53-0d2f6e8b1c44.json'), sessionJson);
+    // A new chat that was never used
+    fs.writeFileSync(path.join(workspaceDir, 'chatSessions', 'empty.json'), JSON.stringify({ version: 3, sessionId: 'empty', creationDate: 1736935600000, requests: [] }));
+
+    // Empty window: no workspace.json
+    fs.mkdirSync(path.join(storageDir, 'empty-window', 'chatSessions'), { recursive: true });
+    fs.writeFileSync(path.join(storageDir, 'empty-window', 'chatSessions', 'other.json'), sessionJson);
+
+    // JetBrains plugin: binary chat databases next to its settings
+    const jetbrainsDir = path.join(jetbrainsConfigDir(), 'intellij');
+    fs.mkdirSync(path.join(jetbrainsDir, 'chat-agent-sessions'), { recursive: true });
+    fs.writeFileSync(path.join(jetbrainsDir, 'chat-agent-sessions', '00000000000.xd'), Buffer.from([0x00, 0x01]));
+    fs.writeFileSync(path.join(jetbrainsDir, 'versions.json'), '{}');
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(path.dirname(path.dirname(storageDir))), { recursive: true, force: true });
+  });
+
+  function jetbrainsConfigDir(): string {
+    return path.join(path.dirname(path.dirname(path.dirname(storageDir))), 'github-copilot');
+  }
+
+  function testPaths(): CopilotPaths {
+    return { workspaceStorageDirs: [storageDir, path.join(storageDir, 'missing')], jetbrainsConfigDir: jetbrainsConfigDir() };
+  }
+
+  function createFinder(): CopilotSessionFinder {
+    return new CopilotSessionFinder(testPaths());
+  }
+
+  describe('CopilotSessionFinder', () => {
+    it('should list chat sessions of workspaces with a folder', () => {
+      const sessions = createFinder().listSessionFiles().sort((a, b) => a.sessionId.localeCompare(b.sessionId));
+
+      expect(sessions).toEqual([
+        { sessionId: '5f0c1a9e-2b7d-4c1e-9a53-0d2f6e8b1c44', sessionPath: path.join(storageDir, 'a1b2c3', 'chatSessions', '5f0c1a9e-2b7d-4c1e-9a53-0d2f6e8b1c44.json'), projectPath: '/home/dev/shop' },
+        { sessionId: 'empty', sessionPath: path.join(storageDir, 'a1b2c3', 'chatSessions', 'empty.json'), projectPath: '/home/dev/shop' }
+      ]);
+    });
+
+    it('should list chat databases of the JetBrains plugin', () => {
+      expect(createFinder().listJetBrainsChatDirs()).toEqual([path.join(jetbrainsConfigDir(), 'intellij', 'chat-agent-sessions')]);
+    });
+
+    it('should look for the JetBrains plugin in the config directory', () => {
+      expect(getJetBrainsConfigDir({ XDG_CONFIG_HOME: '/xdg', LOCALAPPDATA: 'C:\\Users\\dev\\AppData\\Local' })).toBe(process.platform === 'win32'
+        ? path.join('C:\\Users\\dev\\AppData\\Local', 'github-copilot')
+        : path.join('/xdg', 'github-copilot'));
+    });
+  });
+
+  describe('CopilotSessionParser', () => {
+    const parser = new CopilotSessionParser();
+    const session = parser.parseContent(JSON.parse(sessionJson), '/home/dev/shop')!;
+
+    it('should parse requests and responses in order', () => {
+      expect(session.sessionId).toBe('5f0c1a9e-2b7d-4c1e-9a53-0d2f6e8b1c44');
+      expect(session.title).toBe('Why does the login test fail?');
+      expect(session.messages.map(m => m.type)).toEqual([
+        'user', 'info', 'assistant_text',
+        'user', 'assistant_thinking', 'tool_use', 'tool_result', 'assistant_text', 'tool_use', 'tool_result', 'tool_use', 'tool_result', 'assistant_text',
+        'user', 'info'
+      ]);
+      expect(session.messages[0]).toEqual({ type: 'user', timestamp: '2025-01-15T10:00:10.000Z', content: [{ type: 'text', text: 'Why does the login test fail?' }] });
+    });
+
+    it('should list referenced files relative to the workspace', () => {
+      expect(session.messages[1]).toMatchObject({
+        type: 'info',
+        title: 'references',
+        subtitle: '2 files',
+        content: { type: 'text', text: 'src/auth.ts:10-24\npackage.json' }
+      });
+    });
+
+    it('should join markdown and inline references', () => {
+      expect(session.messages[2]).toEqual({
+        type: 'assistant_text',
+        timestamp: '2025-01-15T10:00:10.000Z',
+        content: [{ type: 'markdown', markdown: 'The test expects `auth.ts` to reject protocol-relative URLs, but `safeRedirect` only checks the first slash.' }],
+        model: 'gpt-4.1'
+      });
+    });
+
+    it('should parse tool invocations with their results', () => {
+      expect(session.messages[5]).toMatchObject({ type: 'tool_use', toolName: 'copilot_readFile', toolCallId: 'call_read', input: { description: 'Read auth.ts, lines 1 to 40' } });
+      expect(session.messages[6]).toMatchObject({ type: 'tool_result', output: [{ type: 'text', text: 'src/auth.ts' }] });
+      expect(session.messages[10]).toMatchObject({ type: 'tool_use', toolName: 'run_in_terminal', input: { description: 'Running `npm test`', command: 'npm test' } });
+      expect(session.messages[11]).toMatchObject({ type: 'tool_result', output: [{ type: 'code', code: '12 passing' }], isError: false });
+    });
+
+    it('should convert edits to diffs', () => {
+      expect(session.messages[8]).toMatchObject({ type: 'tool_use', toolName: 'edit_file', input: { file_path: 'src/auth.ts', lines: '12' } });
+      expect(session.messages[9]).toMatchObject({
+        type: 'tool_result',
+        output: [{ type: 'diff', oldText: '', newText: "  if (!value.startsWith('/') || value.startsWith('//')) return '/';", filePath: 'src/auth.ts' }]
+      });
+    });
+
+    it('should record errors, models and timestamps', () => {
+      expect(session.messages[14]).toMatchObject({ type: 'info', title: 'error', style: 'error' });
+      expect(session.metadata).toMatchObject({
+        cwd: '/home/dev/shop',
+        models: [['claude-sonnet-4', 2], ['gpt-4.1', 1]],
+        created: '2025-01-15T10:00:00.000Z',
+        modified: '2025-01-15T10:05:00.000Z'
+      });
+    });
+
+    it('should prefer a custom title', () => {
+      expect(parser.parseContent({ ...JSON.parse(sessionJson), customTitle: 'Login redirect' })?.title).toBe('Login redirect');
+    });
+  });
+
+  describe('CopilotAdapter', () => {
+    function createAdapter(): CopilotAdapter {
+      return new CopilotAdapter(testPaths());
+    }
+
+    it('should import sessions under their workspace folder and skip unused chats', async () => {
+      const sessions = await createAdapter().getSessions();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        provider: 'copilot',
+        projectPath: '/home/dev/shop',
+        projectName: 'shop',
+        title: 'Why does the login test fail?',
+        created: '2025-01-15T10:00:00.000Z',
+        updated: '2025-01-15T10:05:00.000Z'
+      });
+    });
+
+    it('should skip unchanged session files', async () => {
+      expect(await createAdapter().getSessions({ shouldParse: () => false })).toEqual([]);
+    });
+
+    it('should report JetBrains chats it cannot import once', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      const adapter = createAdapter();
+
+      await adapter.getSessions();
+      await adapter.getSessions();
+
+      const reports = log.mock.calls.filter(([message]) => String(message).includes('JetBrains'));
+      log.mockRestore();
+      expect(reports).toEqual([[expect.stringContaining(path.join(jetbrainsConfigDir(), 'intellij', 'chat-agent-sessions'))]]);
+    });
+  });
+});
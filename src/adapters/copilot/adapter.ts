@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import { SessionProvider } from '../../types';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { extractProjectName } from '../../utils/project';
+import { toDateTimeString } from '../../utils/time';
+import { CopilotPaths, CopilotSessionFinder, CopilotSessionParser } from './index';
+
+export class CopilotAdapter implements SessionAdapter {
+  readonly provider = SessionProvider.COPILOT;
+  readonly label = 'Copilot Chat';
+
+  private finder: CopilotSessionFinder;
+  private parser: CopilotSessionParser;
+  private jetbrainsReported = false;
+
+  /**
+   * @param paths Storage locations; defaults to those of the installed editors
+   */
+  constructor(paths?: CopilotPaths) {
+    this.finder = new CopilotSessionFinder(paths);
+    this.parser = new CopilotSessionParser();
+  }
+
+  getWatchPaths(): string[] {
+    return this.finder.getWorkspaceStorageDirs();
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
+    const sessions: SessionWithProject[] = [];
+    this.reportJetBrainsChats();
+
+    for (const { sessionId, sessionPath, projectPath } of this.finder.listSessionFiles()) {
+      if (options.shouldParse && !options.shouldParse(sessionPath)) continue;
+
+      const projectName = extractProjectName(projectPath);
+      if (!projectName) {
+        console.log(`Skipping Copilot session ${sessionId}: could not extract project name from ${projectPath}`);
+        continue;
+      }
+
+      const session = this.parser.parseSession(sessionPath, projectPath);
+      // VS Code creates a session file for every new chat, even if nothing was asked
+      if (!session || session.messages.length === 0) continue;
+
+      let created = session.metadata?.created;
+      let updated = session.metadata?.modified;
+      if (!created || !updated) {
+        const modified = toDateTimeString(fs.statSync(sessionPath).mtimeMs);
+        created = created || modified;
+        updated = updated || modified;
+      }
+
+      sessions.push({
+        session,
+        provider: this.provider,
+        projectPath,
+        projectName,
+        title: session.title,
+        created,
+        updated,
+        sourcePath: sessionPath
+      });
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Say once that JetBrains chats were found but left out, instead of skipping them silently
+   */
+  private reportJetBrainsChats(): void {
+    if (this.jetbrainsReported) return;
+    this.jetbrainsReported = true;
+
+    const dirs = this.finder.listJetBrainsChatDirs();
+    if (dirs.length > 0) {
+      console.log(`Skipping Copilot Chat of JetBrains IDEs in ${dirs.join(', ')}: the plugin stores chats in a binary database that cannot be imported yet`);
+    }
+  }
+}
@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionDetail, ParsedMessage, MessageContent } from '../../types';
+import { getEditorUserDir } from '../../utils/paths';
+import { readWorkspaceFolder, uriToPath } from '../vscodeWorkspace';
+
+/** VS Code builds that ship Copilot Chat */
+const EDITOR_APP_NAMES = ['Code', 'Code - Insiders'];
+
+/** Chat databases of the JetBrains plugin, in github-copilot/{ide}/ of the config directory */
+const JETBRAINS_CHAT_DIRS = ['chat-sessions', 'chat-agent-sessions', 'chat-edit-sessions'];
+
+// Copilot Chat data structures, as serialized to workspaceStorage/{hash}/chatSessions/{sessionId}.json
+
+interface CopilotUri {
+  fsPath?: string;
+  path?: string;
+  scheme?: string;
+  external?: string;
+}
+
+interface CopilotChatSession {
+  version?: number;
+  sessionId: string;
+  creationDate?: number;
+  lastMessageDate?: number;
+  customTitle?: string;
+  requests?: CopilotRequest[];
+}
+
+interface CopilotRequest {
+  requestId?: string;
+  timestamp?: number;
+  modelId?: string;
+  message?: { text?: string };
+  /** Files, selections and symbols attached to the prompt */
+  variableData?: { variables?: Array<{ name?: string; kind?: string; value?: any }> };
+  response?: CopilotResponsePart[];
+  result?: { errorDetails?: { message?: string } };
+}
+
+/**
+ * A part of a response; markdown parts have no kind (older versions) or kind "markdownContent"
+ */
+interface CopilotResponsePart {
+  kind?: string;
+  value?: any;
+  content?: { value?: string };
+  inlineReference?: any;
+  name?: string;
+  // textEditGroup
+  uri?: CopilotUri;
+  edits?: Array<Array<{ text?: string; range?: { startLineNumber?: number; endLineNumber?: number } }>>;
+  // toolInvocationSerialized
+  toolId?: string;
+  toolCallId?: string;
+  invocationMessage?: string | { value?: string };
+  pastTenseMessage?: string | { value?: string };
+  resultDetails?: any;
+  toolSpecificData?: any;
+  isConfirmed?: boolean;
+}
+
+/**
+ * Storage locations of Copilot Chat; the defaults are those of the installed editors
+ */
+export interface CopilotPaths {
+  /** workspaceStorage directories of VS Code builds */
+  workspaceStorageDirs?: string[];
+  /** github-copilot config directory of the JetBrains plugin */
+  jetbrainsConfigDir?: string;
+}
+
+/**
+ * Config directory of the JetBrains plugin: %LOCALAPPDATA%\github-copilot on Windows, else ~/.config/github-copilot
+ */
+export function getJetBrainsConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (process.platform === 'win32' && env.LOCALAPPDATA) {
+    return path.join(env.LOCALAPPDATA, 'github-copilot');
+  }
+  return path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'github-copilot');
+}
+
+export interface CopilotSessionInfo {
+  sessionId: string;
+  sessionPath: string;
+  projectPath: string;
+}
+
+/**
+ * Copilot Chat session finder
+ * Locates sessions in <VS Code user dir>/workspaceStorage/{hash}/chatSessions/*.json,
+ * where workspace.json of the same folder names the opened project.
+ */
+export class CopilotSessionFinder {
+  private readonly workspaceStorageDirs: string[];
+  private readonly jetbrainsConfigDir: string;
+
+  constructor(paths: CopilotPaths = {}) {
+    this.workspaceStorageDirs = paths.workspaceStorageDirs
+      || EDITOR_APP_NAMES.map(appName => path.join(getEditorUserDir(appName), 'workspaceStorage'));
+    this.jetbrainsConfigDir = paths.jetbrainsConfigDir || getJetBrainsConfigDir();
+  }
+
+  /**
+   * workspaceStorage directories of the installed editors
+   */
+  getWorkspaceStorageDirs(): string[] {
+    return this.workspaceStorageDirs.filter(dir => fs.existsSync(dir));
+  }
+
+  /**
+   * Chat directories of the JetBrains plugin
+   * Their sessions live in a binary database (not JSON) and are not imported.
+   */
+  listJetBrainsChatDirs(): string[] {
+    if (!fs.existsSync(this.jetbrainsConfigDir)) return [];
+
+    return fs.readdirSync(this.jetbrainsConfigDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .flatMap(entry => JETBRAINS_CHAT_DIRS.map(dir => path.join(this.jetbrainsConfigDir, entry.name, dir)))
+      .filter(dir => fs.existsSync(dir));
+  }
+
+  /**
+   * List the chat sessions of all workspaces with a known folder
+   * Sessions of empty windows have no project and are left out
+   */
+  listSessionFiles(): CopilotSessionInfo[] {
+    const sessions: CopilotSessionInfo[] = [];
+
+    for (const storageDir of this.getWorkspaceStorageDirs()) {
+      for (const entry of fs.readdirSync(storageDir, { withFileTypes: true })) {
+        const chatSessionsDir = path.join(storageDir, entry.name, 'chatSessions');
+        if (!entry.isDirectory() || !fs.existsSync(chatSessionsDir)) continue;
+
+        const projectPath = readWorkspaceFolder(path.join(storageDir, entry.name));
+        if (!projectPath) continue;
+
+        for (const file of fs.readdirSync(chatSessionsDir)) {
+          if (!file.endsWith('.json')) continue;
+
+          sessions.push({
+            sessionId: path.basename(file, '.json'),
+            sessionPath: path.join(chatSessionsDir, file),
+            projectPath
+          });
+        }
+      }
+    }
+
+    return sessions;
+  }
+}
+
+/**
+ * Copilot Chat session parser
+ * Each request becomes the user prompt, the files attached to it, and the response parts:
+ * thinking, markdown, tool calls and file edits
+ */
+export class CopilotSessionParser {
+  /**
+   * Parses a session file
+   * @param projectPath Workspace folder; referenced files inside it are shown relative to it
+   */
+  parseSession(sessionPath: string, projectPath?: string): SessionDetail | null {
+    try {
+      const data = JSON.parse(fs.readFileSync(sessionPath, 'utf-8')) as CopilotChatSession;
+      return this.parseContent(data, projectPath);
+    } catch (e) {
+      console.error(`Error parsing Copilot session from ${sessionPath}:`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Parse a deserialized session
+   */
+  parseContent(data: CopilotChatSession, projectPath?: string): SessionDetail | null {
+    if (!data.sessionId || !Array.isArray(data.requests)) return null;
+
+    const messages: ParsedMessage[] = [];
+    const models = new Map<string, number>();
+    const created = data.creationDate ? new Date(data.creationDate).toISOString() : undefined;
+    let timestamp = created || new Date(0).toISOString();
+
+    for (const request of data.requests) {
+      if (request.timestamp) timestamp = new Date(request.timestamp).toISOString();
+      const model = request.modelId?.replace(/^copilot\//, '');
+      if (model) models.set(model, (models.get(model) || 0) + 1);
+
+      const text = request.message?.text?.trim();
+      if (text) {
+        messages.push({ type: 'user', timestamp, content: [{ type: 'text', text }] });
+      }
+
+      const references = this.parseReferences(request, projectPath);
+      if (references.length > 0) {
+        messages.push({
+          type: 'info',
+          timestamp,
+          title: 'references',
+          subtitle: `${references.length} file${references.length === 1 ? '' : 's'}`,
+          content: { type: 'text', text: references.join('\n') },
+          style: 'default'
+        });
+      }
+
+      messages.push(...this.parseResponse(request.response || [], timestamp, model, projectPath));
+
+      if (request.result?.errorDetails?.message) {
+        messages.push({
+          type: 'info',
+          timestamp,
+          title: 'error',
+          content: { type: 'text', text: request.result.errorDetails.message },
+          style: 'error'
+        });
+      }
+    }
+
+    const modified = data.lastMessageDate ? new Date(data.lastMessageDate).toISOString() : timestamp;
+
+    return {
+      sessionId: data.sessionId,
+      title: data.customTitle || this.extractTitle(messages) || `Copilot Session ${data.sessionId.slice(0, 8)}`,
+      messages,
+      metadata: {
+        cwd: projectPath,
+        models: [...models.entries()].sort((a, b) => b[1] - a[1]),
+        created: created || modified,
+        modified,
+        messageCount: messages.length
+      }
+    };
+  }
+
+  /**
+   * Parse response parts; consecutive markdown and inline references are joined into one text
+   */
+  private parseResponse(parts: CopilotResponsePart[], timestamp: string, model: string | undefined, projectPath?: string): ParsedMessage[] {
+    const messages: ParsedMessage[] = [];
+    let markdown = '';
+
+    const flush = () => {
+      if (markdown.trim()) {
+        messages.push({ type: 'assistant_text', timestamp, content: [{ type: 'markdown', markdown: markdown.trim() }], model });
+      }
+      markdown = '';
+    };
+
+    for (const part of parts) {
+      switch (part.kind) {
+        case undefined:
+        case 'markdownContent':
+          markdown += typeof part.value === 'string' ? part.value : part.content?.value || '';
+          break;
+
+        case 'inlineReference': {
+          // A URI, a location ({ uri, range }) or a symbol ({ name, location })
+          const reference = part.inlineReference;
+          const file = this.toFilePath(reference?.location?.uri || reference?.uri || reference);
+          const name = part.name || reference?.name || (file ? path.basename(file) : '');
+          if (name) markdown += `\`${name}\``;
+          break;
+        }
+
+        case 'thinking': {
+          flush();
+          const thinking = (Array.isArray(part.value) ? part.value.join('') : String(part.value || '')).trim();
+          if (thinking) messages.push({ type: 'assistant_thinking', timestamp, thinking, model });
+          break;
+        }
+
+        case 'toolInvocationSerialized':
+          flush();
+          messages.push(...this.parseToolInvocation(part, timestamp, model, projectPath));
+          break;
+
+        case 'textEditGroup':
+          flush();
+          messages.push(...this.parseTextEdits(part, timestamp, projectPath));
+          break;
+
+        case 'warning':
+          flush();
+          messages.push({ type: 'info', timestamp, title: 'warning', content: { type: 'text', text: this.toText(part.content) }, style: 'default' });
+          break;
+
+        default:
+          // Progress messages, undo stops, code block URIs and confirmations carry no content
+          break;
+      }
+    }
+
+    flush();
+    return messages;
+  }
+
+  /**
+   * A tool call as shown in the chat, with the result when Copilot kept it
+   */
+  private parseToolInvocation(part: CopilotResponsePart, timestamp: string, model: string | undefined, projectPath?: string): ParsedMessage[] {
+    const toolName = part.toolId || 'tool';
+    const toolCallId = part.toolCallId;
+    const input: Record<string, string> = {};
+
+    const description = this.toText(part.pastTenseMessage) || this.toText(part.invocationMessage);
+    if (description) input.description = description;
+
+    const terminal = part.toolSpecificData;
+    if (terminal?.kind === 'terminal') {
+      const command = terminal.commandLine?.userEdited || terminal.commandLine?.toolEdited || terminal.commandLine?.original || terminal.command;
+      if (command) input.command = command;
+    }
+
+    const messages: ParsedMessage[] = [{ type: 'tool_use', timestamp, toolName, toolCallId, input, results: [], model }];
+
+    const details = part.resultDetails;
+    if (details && !Array.isArray(details) && (details.input !== undefined || details.output !== undefined)) {
+      const output: MessageContent[] = [];
+      for (const item of Array.isArray(details.output) ? details.output : []) {
+        if (typeof item?.value === 'string' && item.value) output.push({ type: 'code', code: item.value });
+      }
+      if (output.length > 0) {
+        messages.push({ type: 'tool_result', timestamp, toolName, toolCallId, output, isError: !!details.isError });
+      }
+    } else if (Array.isArray(details) && details.length > 0) {
+      // Files found or read by the tool
+      const files = details.map((uri: any) => this.toFilePath(uri?.uri || uri, projectPath)).filter(Boolean);
+      if (files.length > 0) {
+        messages.push({ type: 'tool_result', timestamp, toolName, toolCallId, output: [{ type: 'text', text: files.join('\n') }], isError: false });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Edits Copilot applied to a file
+   * Only the inserted text is stored, so each edit becomes a diff without old text
+   */
+  private parseTextEdits(part: CopilotResponsePart, timestamp: string, projectPath?: string): ParsedMessage[] {
+    const filePath = this.toFilePath(part.uri, projectPath);
+    const output: MessageContent[] = [];
+    const lines: string[] = [];
+
+    for (const edit of (part.edits || []).flat()) {
+      if (!edit || typeof edit.text !== 'string' || !edit.text) continue;
+
+      output.push({ type: 'diff', oldText: '', newText: edit.text, filePath });
+      const { startLineNumber, endLineNumber } = edit.range || {};
+      if (startLineNumber) lines.push(startLineNumber === endLineNumber || !endLineNumber ? `${startLineNumber}` : `${startLineNumber}-${endLineNumber}`);
+    }
+
+    if (output.length === 0) return [];
+
+    const input: Record<string, string> = { file_path: filePath || '' };
+    if (lines.length > 0) input.lines = lines.join(', ');
+
+    return [
+      { type: 'tool_use', timestamp, toolName: 'edit_file', input, results: [] },
+      { type: 'tool_result', timestamp, toolName: 'edit_file', output, isError: false }
+    ];
+  }
+
+  /**
+   * Files attached to the prompt, e.g. the open editor or #file references
+   */
+  private parseReferences(request: CopilotRequest, projectPath?: string): string[] {
+    const references: string[] = [];
+
+    for (const variable of request.variableData?.variables || []) {
+      const value = variable.value;
+      const file = this.toFilePath(value?.uri || value, projectPath);
+      if (!file) continue;
+
+      const range = value?.range;
+      const reference = range?.startLineNumber ? `${file}:${range.startLineNumber}-${range.endLineNumber}` : file;
+      if (!references.includes(reference)) references.push(reference);
+    }
+
+    return references;
+  }
+
+  /**
+   * Path of a serialized URI, relative to the project when inside it
+   */
+  private toFilePath(uri: CopilotUri | undefined, projectPath?: string): string | undefined {
+    if (!uri || typeof uri !== 'object') return undefined;
+
+    const filePath = uri.fsPath || (uri.external ? uriToPath(uri.external) : uri.path);
+    if (!filePath || (uri.scheme && uri.scheme !== 'file' && !uri.scheme.startsWith('vscode-remote'))) return undefined;
+
+    if (projectPath) {
+      const relative = path.relative(projectPath, filePath);
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) return relative;
+    }
+    return filePath;
+  }
+
+  private toText(value: string | { value?: string } | undefined): string {
+    return (typeof value === 'string' ? value : value?.value || '').trim();
+  }
+
+  private extractTitle(messages: ParsedMessage[]): string | null {
+    for (const msg of messages) {
+      if (msg.type !== 'user') continue;
+
+      const text = msg.content.map(c => c.type === 'text' ? c.text : '').join(' ').trim();
+      if (text) {
+        return text.length > 100 ? text.slice(0, 100) + '...' : text;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { CursorSessionFinder, CursorSessionParser } from '../index';
+import { CursorAdapter } from '../adapter';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+/**
+ * Write a fixture (key to JSON value) into a state.vscdb key-value table, as Cursor stores it
+ */
+function writeStateDatabase(dbPath: string, table: 'ItemTable' | 'cursorDiskKV', fixture: string): void {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.exec(`CREATE TABLE ${table} (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)`);
+
+  const entries = JSON.parse(fs.readFileSync(path.join(fixturesDir, fixture), 'utf-8'));
+  const insert = db.prepare(`INSERT INTO ${table} (key, value) VALUES (?, ?)`);
+  for (const [key, value] of Object.entries(entries)) {
+    insert.run(key, JSON.stringify(value));
+  }
+  db.close();
+}
+
+describe('Cursor', () => {
+  let userDir: string;
+
+  beforeAll(() => {
+    userDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-test-'));
+
+    const workspaceDir = path.join(userDir, 'workspaceStorage', 'a1b2c3');
+    writeStateDatabase(path.join(workspaceDir, 'state.vscdb'), 'ItemTable', 'workspace-state.json');
+    fs.copyFileSync(path.join(fixturesDir, 'workspace.json'), path.join(workspaceDir, 'workspace.json'));
+
+    // Empty window: no workspace.json
+    writeStateDatabase(path.join(userDir, 'workspaceStorage', 'empty-window', 'state.vscdb'), 'ItemTable', 'workspace-state.json');
+
+    writeStateDatabase(path.join(userDir, 'globalStorage', 'state.vscdb'), 'cursorDiskKV', 'global-state.json');
+  });
+
+  afterAll(() => {
+    fs.rmSync(userDir, { recursive: true, force: true });
+  });
+
+  function createFinder(): CursorSessionFinder {
+    const finder = new CursorSessionFinder();
+    (finder as any).userDir = userDir;
+    return finder;
+  }
+
+  describe('CursorSessionFinder', () => {
+    it('should list composers and chat tabs of workspaces with a folder', () => {
+      const sessions = createFinder().listSessions();
+
+      expect(sessions.map(s => s.sessionId)).toEqual(['c-edit', 'c-legacy', 'c-empty', 'tab-1']);
+      expect(sessions[0]).toMatchObject({
+        kind: 'composer',
+        projectPath: '/home/dev/shop',
+        projectName: 'shop',
+        title: 'Fix login redirect',
+        created: '2025-01-15T10:00:00.000Z',
+        updated: '2025-01-15T10:10:00.000Z',
+        sourcePath: path.join(userDir, 'globalStorage', 'state.vscdb')
+      });
+      expect(sessions[3]).toMatchObject({
+        kind: 'chat',
+        title: 'Explain middleware',
+        sourcePath: path.join(userDir, 'workspaceStorage', 'a1b2c3', 'state.vscdb')
+      });
+    });
+
+    it('should return empty array if Cursor is not installed', () => {
+      const finder = new CursorSessionFinder();
+      (finder as any).userDir = path.join(userDir, 'missing');
+
+      expect(finder.listSessions()).toEqual([]);
+    });
+  });
+
+  describe('CursorSessionParser', () => {
+    const parser = new CursorSessionParser();
+    let globalDb: Database.Database;
+
+    beforeAll(() => {
+      globalDb = new Database(path.join(userDir, 'globalStorage', 'state.vscdb'), { readonly: true });
+    });
+
+    afterAll(() => {
+      globalDb.close();
+    });
+
+    it('should parse user bubbles, thinking and assistant text in order', () => {
+      const session = parser.parseComposer(globalDb, 'c-edit')!;
+
+      expect(session.sessionId).toBe('c-edit');
+      expect(session.title).toBe('Fix login redirect');
+      expect(session.messages.map(m => m.type)).toEqual([
+        'user',
+        'assistant_thinking',
+        'tool_use', 'tool_result',
+        'tool_use', 'tool_result',
+        'tool_use', 'tool_result',
+        'tool_use', 'tool_result',
+        'assistant_text'
+      ]);
+      expect(session.messages[0]).toEqual({
+        type: 'user',
+        timestamp: '2025-01-15T10:00:00.000Z',
+        content: [{ type: 'text', text: 'The login page redirects to //evil.com, fix safeRedirect' }]
+      });
+      expect(session.messages[1]).toMatchObject({
+        type: 'assistant_thinking',
+        timestamp: '2025-01-15T10:00:05.000Z',
+        thinking: 'Protocol-relative URLs start with two slashes.'
+      });
+      expect(session.messages[10]).toMatchObject({
+        type: 'assistant_text',
+        timestamp: '2025-01-15T10:09:00.000Z',
+        content: [{ type: 'markdown', markdown: 'Fixed: protocol-relative URLs now fall back to `/`.' }]
+      });
+    });
+
+    it('should parse tool calls with their arguments and results', () => {
+      const session = parser.parseComposer(globalDb, 'c-edit')!;
+
+      expect(session.messages[2]).toMatchObject({
+        type: 'tool_use',
+        toolName: 'read_file',
+        toolCallId: 'tool-1',
+        input: { target_file: 'src/auth.ts' }
+      });
+      expect(session.messages[3]).toMatchObject({
+        type: 'tool_result',
+        output: [{ type: 'json', json: '{"contents":"export function safeRedirect(value) {}"}' }],
+        isError: false
+      });
+      expect(session.messages[8]).toMatchObject({ type: 'tool_use', toolName: 'run_terminal_cmd', input: { command: 'npm test', is_background: 'false' } });
+      expect(session.messages[9]).toMatchObject({ type: 'tool_result', output: [{ type: 'code', code: '1 failing test' }], isError: true });
+    });
+
+    it('should convert file edits to diffs', () => {
+      const session = parser.parseComposer(globalDb, 'c-edit')!;
+
+      expect(session.messages[5]).toMatchObject({
+        type: 'tool_result',
+        toolName: 'search_replace',
+        output: [{
+          type: 'diff',
+          oldText: "value.startsWith('/')",
+          newText: "value.startsWith('/') && !value.startsWith('//')",
+          filePath: 'src/auth.ts'
+        }]
+      });
+      expect(session.messages[7]).toMatchObject({
+        type: 'tool_result',
+        toolName: 'edit_file',
+        output: [{
+          type: 'diff',
+          oldText: "describe('auth', () => {\n  it.todo('redirects')",
+          newText: "describe('auth', () => {\n  it('blocks //evil')",
+          filePath: 'src/auth.test.ts'
+        }]
+      });
+    });
+
+    it('should record token usage and models', () => {
+      const session = parser.parseComposer(globalDb, 'c-edit')!;
+
+      expect(session.messages[1].type === 'assistant_thinking' && session.messages[1].usage).toEqual({ input: 1200, output: 80, cacheRead: 0, cacheWrite: 0 });
+      expect(session.metadata?.models).toEqual([['claude-4-sonnet', 2]]);
+      expect(session.metadata?.usage).toEqual({ input: 4200, output: 230, cacheRead: 0, cacheWrite: 0 });
+      expect(session.metadata?.created).toBe('2025-01-15T10:00:00.000Z');
+      expect(session.metadata?.modified).toBe('2025-01-15T10:10:00.000Z');
+    });
+
+    it('should parse composers with inline conversations', () => {
+      const session = parser.parseComposer(globalDb, 'c-legacy')!;
+
+      expect(session.title).toBe('Rename the checkout module');
+      expect(session.messages).toEqual([
+        { type: 'user', timestamp: '2025-01-14T10:00:00.000Z', content: [{ type: 'text', text: 'Rename the checkout module' }] },
+        { type: 'assistant_text', timestamp: '2025-01-14T10:00:00.000Z', content: [{ type: 'markdown', markdown: 'Renamed `checkout` to `orders`.' }] }
+      ]);
+    });
+
+    it('should parse legacy chat tabs', () => {
+      const workspaceDb = new Database(path.join(userDir, 'workspaceStorage', 'a1b2c3', 'state.vscdb'), { readonly: true });
+      const session = parser.parseChatTab(workspaceDb, 'tab-1');
+      workspaceDb.close();
+
+      expect(session?.title).toBe('Explain middleware');
+      expect(session?.messages.map(m => m.type)).toEqual(['user', 'assistant_text']);
+      expect(session?.messages[1]).toMatchObject({ content: [{ type: 'markdown', markdown: 'It checks the **token** of every request.' }] });
+    });
+
+    it('should return null for unknown composers', () => {
+      expect(parser.parseComposer(globalDb, 'does-not-exist')).toBeNull();
+    });
+  });
+
+  describe('CursorAdapter', () => {
+    function createAdapter(): CursorAdapter {
+      const adapter = new CursorAdapter();
+      (adapter as any).finder = createFinder();
+      return adapter;
+    }
+
+    it('should import sessions with messages under their workspace folder', async () => {
+      const sessions = await createAdapter().getSessions();
+
+      expect(sessions.map(s => s.session.sessionId)).toEqual(['c-edit', 'c-legacy', 'tab-1']);
+      expect(sessions[0]).toMatchObject({
+        provider: 'cursor',
+        projectPath: '/home/dev/shop',
+        projectName: 'shop',
+        created: '2025-01-15T10:00:00.000Z',
+        updated: '2025-01-15T10:10:00.000Z'
+      });
+      expect(sessions[0].session.metadata?.cwd).toBe('/home/dev/shop');
+    });
+
+    it('should ask once per database whether it changed', async () => {
+      const shouldParse = jest.fn((sourcePath: string) => !sourcePath.includes('globalStorage'));
+      const sessions = await createAdapter().getSessions({ shouldParse });
+
+      expect(shouldParse).toHaveBeenCalledTimes(2);
+      expect(sessions.map(s => s.session.sessionId)).toEqual(['tab-1']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import * as path from 'path';
+import { SessionProvider } from '../../types';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { CursorSessionFinder, CursorSessionInfo, CursorSessionParser, openStateDatabase } from './index';
+
+export class CursorAdapter implements SessionAdapter {
+  readonly provider = SessionProvider.CURSOR;
+  readonly label = 'Cursor';
+
+  private finder: CursorSessionFinder;
+  private parser: CursorSessionParser;
+
+  constructor() {
+    this.finder = new CursorSessionFinder();
+    this.parser = new CursorSessionParser();
+  }
+
+  getWatchPaths(): string[] {
+    return [this.finder.getWorkspaceStorageDir(), path.dirname(this.finder.getGlobalDatabasePath())];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
+    const sessions: SessionWithProject[] = [];
+    // Many sessions share one database; ask once per database whether it changed
+    const changed = new Map<string, boolean>();
+    const shouldParse = (sourcePath: string) => {
+      if (!changed.has(sourcePath)) {
+        changed.set(sourcePath, !options.shouldParse || options.shouldParse(sourcePath));
+      }
+      return changed.get(sourcePath)!;
+    };
+
+    const infosBySource = new Map<string, CursorSessionInfo[]>();
+    for (const info of this.finder.listSessions()) {
+      if (!shouldParse(info.sourcePath)) continue;
+      infosBySource.set(info.sourcePath, [...(infosBySource.get(info.sourcePath) || []), info]);
+    }
+
+    for (const [sourcePath, infos] of infosBySource) {
+      const db = openStateDatabase(sourcePath);
+      if (!db) continue;
+
+      try {
+        for (const info of infos) {
+          try {
+            const session = info.kind === 'composer'
+              ? this.parser.parseComposer(db, info.sessionId)
+              : this.parser.parseChatTab(db, info.sessionId);
+            if (!session || session.messages.length === 0) continue;
+
+            session.title = info.title || session.title;
+            if (session.metadata) session.metadata.cwd = info.projectPath;
+
+            sessions.push({
+              session,
+              provider: this.provider,
+              projectPath: info.projectPath,
+              projectName: info.projectName,
+              created: info.created,
+              updated: info.updated,
+              sourcePath
+            });
+          } catch (e) {
+            console.error(`Error parsing Cursor session ${info.sessionId}:`, e);
+          }
+        }
+      } finally {
+        db.close();
+      }
+    }
+
+    return sessions;
+  }
+}
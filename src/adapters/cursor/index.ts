@@ -0,0 +1,472 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator, attachUsage } from '../../utils/tokenUsage';
+import { getEditorUserDir } from '../../utils/paths';
+import { readWorkspaceFolder } from '../vscodeWorkspace';
+
+// Cursor data structures, stored as JSON values in the key-value tables of state.vscdb
+
+/** Entry of composer.composerData in a workspace database */
+interface CursorComposerHead {
+  composerId: string;
+  name?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+}
+
+/** composerData:<composerId> in the global database */
+interface CursorComposerData {
+  composerId: string;
+  name?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  /** Bubble order; the bubbles themselves are stored as bubbleId:<composerId>:<bubbleId> */
+  fullConversationHeadersOnly?: Array<{ bubbleId: string; type: number }>;
+  /** Older versions store the bubbles inline */
+  conversation?: CursorBubble[];
+}
+
+interface CursorBubble {
+  bubbleId?: string;
+  /** 1 = user, 2 = AI */
+  type: number;
+  text?: string;
+  thinking?: { text?: string };
+  toolFormerData?: CursorToolCall;
+  tokenCount?: { inputTokens?: number; outputTokens?: number };
+  modelInfo?: { modelName?: string };
+  createdAt?: string;
+  timingInfo?: { clientStartTime?: number };
+}
+
+interface CursorToolCall {
+  name?: string;
+  status?: string;
+  toolCallId?: string;
+  /** JSON encoded arguments */
+  rawArgs?: string;
+  params?: string;
+  /** JSON encoded result */
+  result?: string;
+}
+
+/** workbench.panel.aichat.view.aichat.chatdata in a workspace database (chat panel before composer) */
+interface CursorChatData {
+  tabs?: CursorChatTab[];
+}
+
+interface CursorChatTab {
+  tabId: string;
+  chatTitle?: string;
+  lastSendTime?: number;
+  bubbles?: Array<{ type: 'user' | 'ai'; text?: string; rawText?: string }>;
+}
+
+const COMPOSER_KEY = 'composer.composerData';
+const CHAT_KEY = 'workbench.panel.aichat.view.aichat.chatdata';
+const USER_BUBBLE = 1;
+
+export interface CursorSessionInfo {
+  sessionId: string;
+  /** Composer conversations live in the global database, chat tabs in the workspace database */
+  kind: 'composer' | 'chat';
+  projectPath: string;
+  projectName: string;
+  title?: string;
+  created: string;
+  updated: string;
+  /** Database holding the conversation */
+  sourcePath: string;
+}
+
+/**
+ * Open a state.vscdb read-only
+ * @returns null if the file does not exist or is not a database
+ */
+export function openStateDatabase(dbPath: string): Database.Database | null {
+  if (!fs.existsSync(dbPath)) return null;
+
+  try {
+    return new Database(dbPath, { readonly: true, fileMustExist: true });
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Read a JSON value from a key-value table (ItemTable or cursorDiskKV)
+ */
+function readJson<T>(db: Database.Database, table: 'ItemTable' | 'cursorDiskKV', key: string): T | null {
+  try {
+    const row = db.prepare(`SELECT value FROM ${table} WHERE key = ?`).get(key) as { value: string | Buffer | null } | undefined;
+    return row?.value ? JSON.parse(row.value.toString()) as T : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function toIsoString(epochMs: number | undefined, fallback: string): string {
+  return epochMs ? new Date(epochMs).toISOString() : fallback;
+}
+
+/**
+ * Cursor session finder
+ * Locates workspaces in <Cursor user dir>/workspaceStorage/{hash}/, where workspace.json names
+ * the opened folder and state.vscdb lists the composers and chat tabs of that workspace.
+ * Composer conversations themselves are stored in globalStorage/state.vscdb.
+ */
+export class CursorSessionFinder {
+  private readonly userDir: string;
+
+  constructor() {
+    this.userDir = getEditorUserDir('Cursor');
+  }
+
+  getUserDir(): string {
+    return this.userDir;
+  }
+
+  getWorkspaceStorageDir(): string {
+    return path.join(this.userDir, 'workspaceStorage');
+  }
+
+  getGlobalDatabasePath(): string {
+    return path.join(this.userDir, 'globalStorage', 'state.vscdb');
+  }
+
+  /**
+   * List composer conversations and chat tabs of all workspaces with a known folder
+   */
+  listSessions(): CursorSessionInfo[] {
+    const sessions: CursorSessionInfo[] = [];
+    const storageDir = this.getWorkspaceStorageDir();
+
+    if (!fs.existsSync(storageDir)) {
+      return sessions;
+    }
+
+    for (const entry of fs.readdirSync(storageDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const workspaceDir = path.join(storageDir, entry.name);
+      const projectPath = readWorkspaceFolder(workspaceDir);
+      if (!projectPath) continue;
+
+      const dbPath = path.join(workspaceDir, 'state.vscdb');
+      const db = openStateDatabase(dbPath);
+      if (!db) continue;
+
+      try {
+        sessions.push(...this.listWorkspaceSessions(db, dbPath, projectPath));
+      } finally {
+        db.close();
+      }
+    }
+
+    return sessions.sort((a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime());
+  }
+
+  private listWorkspaceSessions(db: Database.Database, dbPath: string, projectPath: string): CursorSessionInfo[] {
+    const sessions: CursorSessionInfo[] = [];
+    const projectName = path.basename(projectPath);
+    const modified = fs.statSync(dbPath).mtime.toISOString();
+
+    const composers = readJson<{ allComposers?: CursorComposerHead[] }>(db, 'ItemTable', COMPOSER_KEY);
+    for (const composer of composers?.allComposers || []) {
+      if (!composer.composerId) continue;
+
+      sessions.push({
+        sessionId: composer.composerId,
+        kind: 'composer',
+        projectPath,
+        projectName,
+        title: composer.name,
+        created: toIsoString(composer.createdAt, modified),
+        updated: toIsoString(composer.lastUpdatedAt || composer.createdAt, modified),
+        sourcePath: this.getGlobalDatabasePath()
+      });
+    }
+
+    const chat = readJson<CursorChatData>(db, 'ItemTable', CHAT_KEY);
+    for (const tab of chat?.tabs || []) {
+      if (!tab.tabId || !tab.bubbles?.length) continue;
+
+      sessions.push({
+        sessionId: tab.tabId,
+        kind: 'chat',
+        projectPath,
+        projectName,
+        title: tab.chatTitle,
+        created: toIsoString(tab.lastSendTime, modified),
+        updated: toIsoString(tab.lastSendTime, modified),
+        sourcePath: dbPath
+      });
+    }
+
+    return sessions;
+  }
+}
+
+/**
+ * Cursor session parser
+ * Parses composer conversations and legacy chat tabs into unified SessionDetail format
+ */
+export class CursorSessionParser {
+
+  /**
+   * Parse a composer conversation from the global database
+   */
+  parseComposer(db: Database.Database, composerId: string): SessionDetail | null {
+    const composer = readJson<CursorComposerData>(db, 'cursorDiskKV', `composerData:${composerId}`);
+    if (!composer) return null;
+
+    const bubbles = composer.fullConversationHeadersOnly
+      ? composer.fullConversationHeadersOnly
+        .map(header => readJson<CursorBubble>(db, 'cursorDiskKV', `bubbleId:${composerId}:${header.bubbleId}`))
+        .filter((bubble): bubble is CursorBubble => !!bubble)
+      : composer.conversation || [];
+
+    return this.parseComposerData(composer, bubbles);
+  }
+
+  /**
+   * Parse a composer with its bubbles in conversation order
+   */
+  parseComposerData(composer: CursorComposerData, bubbles: CursorBubble[]): SessionDetail {
+    const messages: ParsedMessage[] = [];
+    const modelCounts = new Map<string, number>();
+    const usage = new UsageAccumulator();
+    const created = toIsoString(composer.createdAt, new Date(0).toISOString());
+    let timestamp = created;
+
+    for (const bubble of bubbles) {
+      timestamp = this.getBubbleTimestamp(bubble) || timestamp;
+      const model = bubble.modelInfo?.modelName;
+      if (model && bubble.type !== USER_BUBBLE) {
+        modelCounts.set(model, (modelCounts.get(model) || 0) + 1);
+      }
+
+      const parsedMessages = this.parseBubble(bubble, timestamp);
+      const messageUsage = this.parseUsage(bubble);
+      if (messageUsage && attachUsage(parsedMessages, messageUsage, model)) {
+        usage.add(messageUsage, model);
+      }
+      messages.push(...parsedMessages);
+    }
+
+    const metadata: SessionMetadata = {
+      models: Array.from(modelCounts.entries()).sort((a, b) => b[1] - a[1]),
+      messageCount: messages.length,
+      created,
+      modified: toIsoString(composer.lastUpdatedAt, timestamp),
+      ...usage.toMetadata()
+    };
+
+    return {
+      sessionId: composer.composerId,
+      title: composer.name || this.extractTitle(messages),
+      messages,
+      metadata
+    };
+  }
+
+  /**
+   * Parse a chat tab of a workspace database
+   */
+  parseChatTab(db: Database.Database, tabId: string): SessionDetail | null {
+    const chat = readJson<CursorChatData>(db, 'ItemTable', CHAT_KEY);
+    const tab = chat?.tabs?.find(t => t.tabId === tabId);
+    return tab ? this.parseChatTabData(tab) : null;
+  }
+
+  /**
+   * Chat tabs only keep the text of each bubble and a single timestamp
+   */
+  parseChatTabData(tab: CursorChatTab): SessionDetail {
+    const timestamp = toIsoString(tab.lastSendTime, new Date(0).toISOString());
+    const messages: ParsedMessage[] = [];
+
+    for (const bubble of tab.bubbles || []) {
+      const text = (bubble.text || bubble.rawText || '').trim();
+      if (!text) continue;
+
+      messages.push(bubble.type === 'user'
+        ? { type: 'user', timestamp, content: [{ type: 'text', text }] }
+        : { type: 'assistant_text', timestamp, content: [{ type: 'markdown', markdown: text }] });
+    }
+
+    return {
+      sessionId: tab.tabId,
+      title: tab.chatTitle || this.extractTitle(messages),
+      messages,
+      metadata: {
+        models: [],
+        messageCount: messages.length,
+        created: timestamp,
+        modified: timestamp
+      }
+    };
+  }
+
+  /**
+   * Parse a bubble into ParsedMessage(s): thinking, then the tool call, then the text
+   */
+  private parseBubble(bubble: CursorBubble, timestamp: string): ParsedMessage[] {
+    const messages: ParsedMessage[] = [];
+    const text = bubble.text?.trim();
+
+    if (bubble.type === USER_BUBBLE) {
+      if (text) {
+        messages.push({ type: 'user', timestamp, content: [{ type: 'text', text }] });
+      }
+      return messages;
+    }
+
+    if (bubble.thinking?.text?.trim()) {
+      messages.push({ type: 'assistant_thinking', timestamp, thinking: bubble.thinking.text });
+    }
+
+    if (bubble.toolFormerData) {
+      messages.push(...this.parseToolCall(bubble.toolFormerData, timestamp));
+    }
+
+    if (text) {
+      messages.push({ type: 'assistant_text', timestamp, content: [{ type: 'markdown', markdown: text }] });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Parse a tool call into tool_use and tool_result messages
+   * File edits become a diff of the changed text
+   */
+  private parseToolCall(toolCall: CursorToolCall, timestamp: string): ParsedMessage[] {
+    const toolName = toolCall.name || 'tool';
+    const toolCallId = toolCall.toolCallId;
+    const args = this.parseJsonObject(toolCall.rawArgs) || this.parseJsonObject(toolCall.params) || {};
+    const isError = toolCall.status === 'error';
+
+    const inputMap: Record<string, string> = {};
+    for (const [key, value] of Object.entries(args)) {
+      inputMap[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    const output = this.parseEditDiff(toolName, args, toolCall.result) || this.parseToolResult(toolCall.result);
+    const messages: ParsedMessage[] = [{
+      type: 'tool_use',
+      timestamp,
+      toolName,
+      toolCallId,
+      input: inputMap,
+      results: toolCall.result ? [{ output: toolCall.result, isError, toolCallId }] : []
+    }];
+
+    if (output.length > 0) {
+      messages.push({ type: 'tool_result', timestamp, toolName, toolCallId, output, isError });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Diff of a file edit: search and replace arguments, the diff chunks of the result,
+   * or the new contents of the edited or written file
+   */
+  private parseEditDiff(toolName: string, args: Record<string, any>, result?: string): MessageContent[] | null {
+    if (!/edit|write|replace/i.test(toolName)) return null;
+
+    const filePath = [args.file_path, args.target_file, args.relativeWorkspacePath, args.path]
+      .find((value): value is string => typeof value === 'string');
+
+    if (typeof args.old_string === 'string' && typeof args.new_string === 'string') {
+      return [{ type: 'diff', oldText: args.old_string, newText: args.new_string, filePath }];
+    }
+
+    const chunks = this.parseJsonObject(result)?.diff?.chunks;
+    if (Array.isArray(chunks) && chunks.length > 0) {
+      return chunks
+        .filter(chunk => typeof chunk?.diffString === 'string')
+        .map(chunk => ({ type: 'diff' as const, ...this.splitDiffString(chunk.diffString), filePath }));
+    }
+
+    const newText = [args.code_edit, args.contents].find((value): value is string => typeof value === 'string');
+    return newText !== undefined ? [{ type: 'diff', oldText: '', newText, filePath }] : null;
+  }
+
+  /**
+   * Split a unified diff hunk into the old and new text
+   */
+  private splitDiffString(diffString: string): { oldText: string; newText: string } {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+
+    for (const line of diffString.split('\n')) {
+      if (line.startsWith('-')) {
+        oldLines.push(line.slice(1));
+      } else if (line.startsWith('+')) {
+        newLines.push(line.slice(1));
+      } else {
+        const context = line.startsWith(' ') ? line.slice(1) : line;
+        oldLines.push(context);
+        newLines.push(context);
+      }
+    }
+
+    return { oldText: oldLines.join('\n'), newText: newLines.join('\n') };
+  }
+
+  private parseToolResult(result?: string): MessageContent[] {
+    if (!result?.trim()) return [];
+
+    if (this.parseJsonObject(result)) {
+      return [{ type: 'json', json: result }];
+    }
+    return [{ type: 'code', code: result }];
+  }
+
+  private parseUsage(bubble: CursorBubble): TokenUsage | null {
+    const input = bubble.tokenCount?.inputTokens || 0;
+    const output = bubble.tokenCount?.outputTokens || 0;
+    return input || output ? { input, output, cacheRead: 0, cacheWrite: 0 } : null;
+  }
+
+  private getBubbleTimestamp(bubble: CursorBubble): string | null {
+    if (bubble.createdAt && !isNaN(Date.parse(bubble.createdAt))) {
+      return new Date(bubble.createdAt).toISOString();
+    }
+    if (bubble.timingInfo?.clientStartTime) {
+      return new Date(bubble.timingInfo.clientStartTime).toISOString();
+    }
+    return null;
+  }
+
+  private parseJsonObject(value?: string): Record<string, any> | null {
+    if (!value) return null;
+
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Extract title from first user message
+   */
+  private extractTitle(messages: ParsedMessage[]): string {
+    const userMsg = messages.find(m => m.type === 'user');
+    const content = userMsg?.type === 'user' && userMsg.content[0]?.type === 'text' ? userMsg.content[0].text : '';
+    if (!content) return 'Cursor Session';
+
+    // Truncate if too long
+    if (content.length > 100) {
+      return content.slice(0, 100) + '...';
+    }
+
+    return content;
+  }
+}
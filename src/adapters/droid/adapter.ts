@@ -1,4 +1,4 @@
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { SessionProvider } from '../../types';
 import { DroidSessionFinder, DroidSessionParser } from './index';
 
@@ -14,11 +14,17 @@ export class DroidAdapter implements SessionAdapter {
     this.parser = new DroidSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getBaseDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const sessionInfos = this.finder.listSessions();
 
     for (const info of sessionInfos) {
+      if (options.shouldParse && !options.shouldParse(info.filePath)) continue;
+
       try {
         const session = this.parser.parseFile(info.filePath);
         if (session) {
@@ -28,7 +34,8 @@ export class DroidAdapter implements SessionAdapter {
             projectPath: info.projectPath,
             projectName: info.projectName,
             created: info.created,
-            updated: info.updated
+            updated: info.updated,
+            sourcePath: info.filePath
           });
         }
       } catch (e) {
@@ -72,6 +72,10 @@ export class DroidSessionFinder {
     this.baseDir = path.join(os.homedir(), '.factory', 'sessions');
   }
 
+  getBaseDir(): string {
+    return this.baseDir;
+  }
+
   /**
    * List all session files across all projects
    */
@@ -219,6 +219,18 @@ describe('GeminiSessionParser', () => {
       }
     });
 
+    it('should sum token usage of gemini messages', () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'mixed_conversation.json'), 'utf-8');
+      const session = parser.parseContent(content);
+
+      // Cached tokens are split from input, thoughts count as output
+      expect(session.metadata?.usage).toEqual({ input: 12122, output: 324, cacheRead: 6625, cacheWrite: 0 });
+      expect(Object.keys(session.metadata?.usageByModel || {})).toEqual(['gemini-3-flash-preview']);
+
+      const withUsage = session.messages.filter(m => 'usage' in m && m.usage);
+      expect(withUsage).toHaveLength(2);
+    });
+
     it('should parse error message', () => {
       const content = fs.readFileSync(path.join(fixturesDir, 'error_message.json'), 'utf-8');
       const session = parser.parseContent(content);
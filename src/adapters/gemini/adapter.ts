@@ -1,5 +1,5 @@
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { GeminiSessionFinder, GeminiSessionParser } from './index';
 
 export class GeminiAdapter implements SessionAdapter {
@@ -14,11 +14,17 @@ export class GeminiAdapter implements SessionAdapter {
     this.parser = new GeminiSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getBaseDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const sessionInfos = this.finder.listSessions();
 
     for (const info of sessionInfos) {
+      if (options.shouldParse && !options.shouldParse(info.filePath)) continue;
+
       try {
         const session = this.parser.parseFile(info.filePath);
         if (session) {
@@ -28,7 +34,8 @@ export class GeminiAdapter implements SessionAdapter {
             projectPath: info.projectPath,
             projectName: info.projectName,
             created: info.created,
-            updated: info.updated
+            updated: info.updated,
+            sourcePath: info.filePath
           });
         }
       } catch (e) {
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent } from '../../types';
+import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator, attachUsage } from '../../utils/tokenUsage';
 
 // Gemini data structures
 interface GeminiThought {
@@ -80,6 +81,10 @@ export class GeminiSessionFinder {
     this.baseDir = path.join(os.homedir(), '.gemini', 'tmp');
   }
 
+  getBaseDir(): string {
+    return this.baseDir;
+  }
+
   /**
    * Read project path from .project_root file
    * Returns null if file doesn't exist or can't be read
@@ -201,6 +206,7 @@ export class GeminiSessionParser {
     const sessionData = JSON.parse(content) as GeminiSessionData;
     const messages: ParsedMessage[] = [];
     const modelCounts = new Map<string, number>();
+    const usage = new UsageAccumulator();
 
     for (const msg of sessionData.messages) {
       // Track model usage
@@ -210,6 +216,11 @@ export class GeminiSessionParser {
 
       // Parse the message
       const parsedMessages = this.parseMessage(msg);
+      if (msg.type === 'gemini' && msg.tokens) {
+        const messageUsage = this.parseUsage(msg.tokens);
+        usage.add(messageUsage, msg.model);
+        attachUsage(parsedMessages, messageUsage, msg.model);
+      }
       messages.push(...parsedMessages);
     }
 
@@ -221,7 +232,8 @@ export class GeminiSessionParser {
       models: sortedModels,
       messageCount: messages.length,
       created: sessionData.startTime,
-      modified: sessionData.lastUpdated
+      modified: sessionData.lastUpdated,
+      ...usage.toMetadata()
     };
 
     const title = this.extractTitle(sessionData.messages);
@@ -234,6 +246,19 @@ export class GeminiSessionParser {
     };
   }
 
+  /**
+   * Gemini counts cached tokens as part of input; thoughts are billed as output
+   */
+  private parseUsage(tokens: GeminiTokens): TokenUsage {
+    const cached = tokens.cached || 0;
+    return {
+      input: Math.max((tokens.input || 0) - cached, 0),
+      output: (tokens.output || 0) + (tokens.thoughts || 0),
+      cacheRead: cached,
+      cacheWrite: 0
+    };
+  }
+
   /**
    * Parse a single Gemini message into ParsedMessage(s)
    */
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, Hash } from 'crypto';
+import { ImportStateRepository } from '../repository/ImportStateRepository';
+import { SessionProvider } from '../types';
+
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0');
+const HASH_CHUNK_SIZE = 1024 * 1024;
+
+interface SourceFingerprint {
+  size: number;
+  mtimeMs: number;
+  contentHash?: string;
+}
+
+/**
+ * Decides whether a session source needs to be parsed again by comparing it
+ * with the fingerprint (size, mtime, content hash) recorded on the last import.
+ * Sources may be a single file or a directory (e.g. Kilo task folders).
+ * SQLite databases (e.g. Cursor's state.vscdb) can grow to gigabytes and are
+ * never read for a hash: the size and mtime of the database and its
+ * write-ahead log are their fingerprint.
+ */
+export class ImportStateTracker {
+  private readonly pending = new Map<string, SourceFingerprint>();
+  private skipped = 0;
+
+  constructor(private readonly repository: ImportStateRepository) {}
+
+  /**
+   * Returns true if the source is new or changed since the last import.
+   * Cheap size/mtime comparison first, content hash only when those differ.
+   */
+  hasChanged(provider: SessionProvider, sourcePath: string): boolean {
+    const current = this.stat(sourcePath);
+    if (!current) return true;
+
+    const key = this.key(provider, sourcePath);
+    const previous = this.repository.get(provider, sourcePath);
+
+    if (previous && previous.size === current.size && previous.mtimeMs === current.mtimeMs) {
+      this.skipped++;
+      return false;
+    }
+
+    current.contentHash = this.hash(sourcePath);
+
+    if (previous && previous.contentHash === current.contentHash) {
+      // Touched but not modified: remember the new mtime so the next run takes the fast path
+      this.repository.upsert({
+        ...previous,
+        size: current.size,
+        mtimeMs: current.mtimeMs
+      });
+      this.skipped++;
+      return false;
+    }
+
+    this.pending.set(key, current);
+    return true;
+  }
+
+  /**
+   * Record a source as successfully imported
+   */
+  markImported(provider: SessionProvider, sourcePath: string, sessionId?: string): void {
+    const key = this.key(provider, sourcePath);
+    const fingerprint = this.pending.get(key) || this.stat(sourcePath);
+    this.pending.delete(key);
+
+    if (!fingerprint) return;
+
+    // Sources shared by several sessions (e.g. a Cursor database) are hashed once, not per session
+    const previous = this.repository.get(provider, sourcePath);
+    if (!fingerprint.contentHash && previous && previous.size === fingerprint.size && previous.mtimeMs === fingerprint.mtimeMs) {
+      fingerprint.contentHash = previous.contentHash;
+    }
+
+    this.repository.upsert({
+      provider,
+      sourcePath,
+      size: fingerprint.size,
+      mtimeMs: fingerprint.mtimeMs,
+      contentHash: fingerprint.contentHash || this.hash(sourcePath),
+      sessionId,
+      importedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Number of sources skipped as unchanged since the last reset
+   */
+  takeSkippedCount(): number {
+    const count = this.skipped;
+    this.skipped = 0;
+    return count;
+  }
+
+  private key(provider: SessionProvider, sourcePath: string): string {
+    return `${provider}:${sourcePath}`;
+  }
+
+  private stat(sourcePath: string): SourceFingerprint | null {
+    try {
+      const stats = fs.statSync(sourcePath);
+      if (!stats.isDirectory()) {
+        if (!this.isSqlite(sourcePath)) {
+          return { size: stats.size, mtimeMs: stats.mtimeMs };
+        }
+
+        // Writes land in the -wal file until a checkpoint copies them into the database
+        const wal = fs.statSync(`${sourcePath}-wal`, { throwIfNoEntry: false });
+        return {
+          size: stats.size + (wal?.size || 0),
+          mtimeMs: Math.max(stats.mtimeMs, wal?.mtimeMs || 0)
+        };
+      }
+
+      let size = 0;
+      let mtimeMs = stats.mtimeMs;
+      for (const file of this.listFiles(sourcePath)) {
+        const fileStats = fs.statSync(file);
+        size += fileStats.size;
+        mtimeMs = Math.max(mtimeMs, fileStats.mtimeMs);
+      }
+      return { size, mtimeMs };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private hash(sourcePath: string): string {
+    const hash = createHash('sha256');
+
+    try {
+      if (fs.statSync(sourcePath).isDirectory()) {
+        for (const file of this.listFiles(sourcePath)) {
+          hash.update(path.relative(sourcePath, file));
+          this.hashFile(hash, file);
+        }
+      } else if (this.isSqlite(sourcePath)) {
+        const fingerprint = this.stat(sourcePath);
+        hash.update(`sqlite:${fingerprint?.size}:${fingerprint?.mtimeMs}`);
+      } else {
+        this.hashFile(hash, sourcePath);
+      }
+    } catch (e) {
+      // Unreadable sources hash to the empty digest and are re-parsed next time
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Feed a file to the hash in chunks, so large files are not loaded into memory at once
+   */
+  private hashFile(hash: Hash, file: string): void {
+    const fd = fs.openSync(file, 'r');
+    const buffer = Buffer.alloc(HASH_CHUNK_SIZE);
+
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+        hash.update(buffer.subarray(0, bytesRead));
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private isSqlite(file: string): boolean {
+    let fd: number | undefined;
+
+    try {
+      fd = fs.openSync(file, 'r');
+      const header = Buffer.alloc(SQLITE_HEADER.length);
+      const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+      return bytesRead === header.length && header.equals(SQLITE_HEADER);
+    } catch (e) {
+      return false;
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  private listFiles(dir: string): string[] {
+    const files: string[] = [];
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listFiles(entryPath));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+
+    return files.sort();
+  }
+}
@@ -11,28 +11,19 @@ import { ToolInputFormatter } from '../utils/toolFormatter';
 import { ContentCleaner } from '../utils/contentCleaner';
 import { generateProjectUuid } from '../utils/uuid';
 import { toDateTimeString } from '../utils/time';
+import { EMBEDDED_CARD_TYPES, MAX_EMBEDDED_CHARS, SemanticIndex } from '../utils/semanticSearch';
+import { Redactor, formatRedactionCounts } from '../utils/redactor';
 
 import { SessionAdapter, SessionWithProject } from './sessionAdapter';
-import { ClaudeSessionAdapter } from './claude/adapter';
-import { OpenCodeAdapter } from './opencode/adapter';
-import { CodexAdapter } from './codex/adapter';
-import { AmpAdapter } from './amp/adapter';
-import { JunieAdapter } from './junie/adapter';
-import { KiloSessionAdapter } from './kilocode/adapter';
-import { GeminiAdapter } from './gemini/adapter';
-import { DroidAdapter } from './droid/adapter';
-
-function createDefaultAdapters(): SessionAdapter[] {
-  return [
-    new ClaudeSessionAdapter(),
-    new OpenCodeAdapter(),
-    new CodexAdapter(),
-    new AmpAdapter(),
-    new JunieAdapter(),
-    new KiloSessionAdapter(),
-    new GeminiAdapter(),
-    new DroidAdapter(),
-  ];
+import { ImportStateTracker } from './importState';
+import { SessionFilter, filterAdapters, matchesSessionFilter } from './sessionFilter';
+import { createDefaultAdapters } from './registry';
+
+export interface ImportOptions {
+  /** Re-parse every source, ignoring the recorded import state */
+  full?: boolean;
+  /** Restrict the import to matching providers, projects and dates */
+  filter?: SessionFilter;
 }
 
 /**
@@ -44,40 +35,75 @@ export class SessionImporter {
   private db: DatabaseManager;
   private searchDb: SearchDatabase;
   private adapters: SessionAdapter[];
+  private importState: ImportStateTracker;
+  private semantic?: SemanticIndex;
+  private redactor: Redactor;
 
   private ownsDb: boolean;
 
-  constructor(adapters?: SessionAdapter[], db?: DatabaseManager, searchDb?: SearchDatabase) {
+  /**
+   * @param semantic Embedding index to fill as well, when semantic search is enabled
+   * @param redactor Redaction rules from config.json; defaults to the built-in detectors
+   */
+  constructor(adapters?: SessionAdapter[], db?: DatabaseManager, searchDb?: SearchDatabase, semantic?: SemanticIndex, redactor?: Redactor) {
     this.ownsDb = !db;
     this.db = db || new DatabaseManager();
     this.searchDb = searchDb || new SearchDatabase();
+    this.semantic = semantic;
+    this.redactor = redactor || new Redactor();
     this.adapters = adapters || createDefaultAdapters();
+    this.importState = new ImportStateTracker(this.db.importState);
   }
 
   /**
    * Import all sessions from all providers
    * Extracts projects from session metadata
+   * Only new or changed session sources are parsed unless options.full is set
    */
-  async importAll(): Promise<void> {
-    console.log('Starting import from all providers...\n');
+  async importAll(options: ImportOptions = {}): Promise<void> {
+    this.ensureSearchIndex();
+    await this.ensureVectorIndex();
+
+    console.log(options.full
+      ? 'Starting full import from all providers...\n'
+      : 'Starting incremental import from all providers...\n');
 
     const allSessions: SessionWithProject[] = [];
+    // Left out by a filter or failed: their sources must be parsed again next time
+    const notImported: SessionWithProject[] = [];
+    let unchangedCount = 0;
+    let filteredCount = 0;
 
-    for (const adapter of this.adapters) {
+    for (const adapter of filterAdapters(this.adapters, options.filter)) {
       console.log(`Scanning ${adapter.label} sessions...`);
-      const sessions = await adapter.getSessions();
-      console.log(`Found ${sessions.length} ${adapter.label} sessions`);
-      allSessions.push(...sessions);
+      const sessions = options.full ? await adapter.getSessions() : await this.getChangedSessions(adapter);
+      const unchanged = this.importState.takeSkippedCount();
+      unchangedCount += unchanged;
+      console.log(unchanged > 0
+        ? `Found ${sessions.length} new or changed ${adapter.label} sessions (${unchanged} unchanged)`
+        : `Found ${sessions.length} ${adapter.label} sessions`);
+
+      const matching = sessions.filter(s => matchesSessionFilter(s, options.filter));
+      filteredCount += sessions.length - matching.length;
+      notImported.push(...sessions.filter(s => !matching.includes(s)));
+      allSessions.push(...matching);
     }
 
     console.log(`\n=================================`);
     console.log(`Total sessions found: ${allSessions.length}`);
+    if (unchangedCount > 0) {
+      console.log(`Unchanged sessions skipped: ${unchangedCount}`);
+    }
+    if (filteredCount > 0) {
+      console.log(`Sessions excluded by filter: ${filteredCount}`);
+    }
     console.log(`=================================\n`);
 
     // Filter out sessions with invalid project names
     const validSessions = allSessions.filter(s => {
       if (!s.projectName) {
         console.log(`Skipping session ${s.session.sessionId}: no valid project name`);
+        notImported.push(s);
         return false;
       }
       return true;
@@ -88,7 +114,7 @@ export class SessionImporter {
     console.log(`Projects detected: ${Object.keys(sessionsByProject).length}\n`);
 
     // Import all sessions grouped by project
-    let importedCount = 0;
+    const imported: SessionWithProject[] = [];
     let errorCount = 0;
 
     for (const [projectName, sessions] of Object.entries(sessionsByProject)) {
@@ -114,22 +140,30 @@ export class SessionImporter {
       for (const sessionWithProject of sessions) {
         if (!sessionWithProject.projectPath || sessionWithProject.projectPath === 'unknown') {
           console.log(`  Skipping session ${sessionWithProject.session.sessionId}: no valid project path`);
+          notImported.push(sessionWithProject);
           continue;
         }
         
         try {
           await this.importSession(sessionWithProject, projectId, projectUuid);
-          importedCount++;
+          imported.push(sessionWithProject);
         } catch (e) {
           errorCount++;
+          notImported.push(sessionWithProject);
           console.error(`Error importing session ${sessionWithProject.session.sessionId}:`, e);
         }
       }
     }
 
+    this.markImported(imported, notImported);
+
     console.log(`\n=================================`);
     console.log('Import complete!');
-    console.log(`Successfully imported: ${importedCount} sessions`);
+    console.log(`Successfully imported: ${imported.length} sessions`);
+    const redacted = this.takeRedactionCounts();
+    if (Object.keys(redacted).length > 0) {
+      console.log(`Redacted secrets: ${formatRedactionCounts(redacted)}`);
+    }
     if (errorCount > 0) {
       console.log(`Errors: ${errorCount} sessions`);
     }
@@ -141,6 +175,72 @@ export class SessionImporter {
     console.log(`  Sessions: ${this.db.sessions.getCount()}`);
     console.log(`  Messages: ${this.db.messages.getCount()}`);
     console.log(`  Search entries: ${this.searchDb.search.getCount()}`);
+    if (this.semantic) {
+      console.log(`  Embedded messages: ${this.semantic.db.vectors.getCount()}`);
+    }
+  }
+
+  /**
+   * Redactions per detector since the last call
+   */
+  takeRedactionCounts(): Record<string, number> {
+    return this.redactor.takeCounts();
+  }
+
+  /**
+   * Adapters this importer reads sessions from
+   */
+  getAdapters(): SessionAdapter[] {
+    return this.adapters;
+  }
+
+  /**
+   * Re-import the new or changed sessions of a single adapter
+   * Used by watch mode after storage changes
+   */
+  async importChanged(adapter: SessionAdapter, filter?: SessionFilter): Promise<SessionWithProject[]> {
+    const sessions = await this.getChangedSessions(adapter);
+    this.importState.takeSkippedCount();
+
+    const imported: SessionWithProject[] = [];
+    const notImported: SessionWithProject[] = [];
+    for (const sessionWithProject of sessions) {
+      if (!matchesSessionFilter(sessionWithProject, filter)) {
+        notImported.push(sessionWithProject);
+        continue;
+      }
+
+      try {
+        await this.importWithProject(sessionWithProject);
+        imported.push(sessionWithProject);
+      } catch (e) {
+        notImported.push(sessionWithProject);
+        console.error(`Error importing session ${sessionWithProject.session.sessionId}:`, e);
+      }
+    }
+
+    this.markImported(imported, notImported);
+    return imported;
+  }
+
+  /**
+   * Sessions of the new or changed sources of an adapter
+   * Sources that yield no session (empty or unsupported files) are recorded right away,
+   * so they are not read again until they change.
+   */
+  private async getChangedSessions(adapter: SessionAdapter): Promise<SessionWithProject[]> {
+    const parsedSources = new Set<string>();
+    const sessions = await adapter.getSessions({
+      shouldParse: (sourcePath) => {
+        const changed = this.importState.hasChanged(adapter.provider, sourcePath);
+        if (changed) parsedSources.add(sourcePath);
+        return changed;
+      }
+    });
+
+    sessions.forEach(s => s.sourcePath && parsedSources.delete(s.sourcePath));
+    parsedSources.forEach(sourcePath => this.importState.markImported(adapter.provider, sourcePath));
+    return sessions;
   }
 
   /**
@@ -165,6 +265,11 @@ export class SessionImporter {
    * Can be called standalone (e.g. from an API endpoint).
    */
   async importSingleSession(sessionWithProject: SessionWithProject): Promise<void> {
+    await this.importWithProject(sessionWithProject);
+    this.markImported([sessionWithProject], []);
+  }
+
+  private async importWithProject(sessionWithProject: SessionWithProject): Promise<void> {
     if (!sessionWithProject.projectName) {
       throw new Error(`Session ${sessionWithProject.session.sessionId}: no valid project name`);
     }
@@ -185,6 +290,26 @@ export class SessionImporter {
     await this.importSession(sessionWithProject, projectId, projectUuid);
   }
 
+  /**
+   * Remember the source fingerprints so unchanged files are skipped next time
+   * A source shared by several sessions (a Cursor database, an Aider history, a web export) is only
+   * recorded when none of its sessions was left out by a filter or failed, so they are parsed again.
+   */
+  private markImported(imported: SessionWithProject[], notImported: SessionWithProject[]): void {
+    const sourceKey = (s: SessionWithProject) => `${s.provider}:${s.sourcePath}`;
+    const incomplete = new Set(notImported.filter(s => s.sourcePath).map(sourceKey));
+
+    for (const sessionWithProject of imported) {
+      if (!sessionWithProject.sourcePath || incomplete.has(sourceKey(sessionWithProject))) continue;
+
+      this.importState.markImported(
+        sessionWithProject.provider,
+        sessionWithProject.sourcePath,
+        sessionWithProject.session.sessionId
+      );
+    }
+  }
+
   private async importSession(sessionWithProject: SessionWithProject, projectId: number, projectUuid: string): Promise<void> {
     const sessionDetail = sessionWithProject.session;
     const provider = sessionWithProject.provider;
@@ -192,7 +317,8 @@ export class SessionImporter {
     const createdAt = sessionWithProject.created;
     const updatedAt = sessionWithProject.updated;
     
-    const title = sessionWithProject.title || sessionDetail.title;
+    const project = { path: sessionWithProject.projectPath, name: sessionWithProject.projectName };
+    const title = this.redactor.redact(sessionWithProject.title || sessionDetail.title, project.path, project.name);
 
     this.db.beginTransaction();
     try {
@@ -210,6 +336,11 @@ export class SessionImporter {
         created: sessionDetail.metadata?.created,
         modified: sessionDetail.metadata?.modified,
         messageCount: sessionDetail.messages.length,
+        inputTokens: sessionDetail.metadata?.usage?.input,
+        outputTokens: sessionDetail.metadata?.usage?.output,
+        cacheReadTokens: sessionDetail.metadata?.usage?.cacheRead,
+        cacheWriteTokens: sessionDetail.metadata?.usage?.cacheWrite,
+        usageJson: sessionDetail.metadata?.usageByModel ? JSON.stringify(sessionDetail.metadata.usageByModel) : undefined,
         createdAt,
         updatedAt
       };
@@ -221,7 +352,7 @@ export class SessionImporter {
       let lastSequence = -1;
       
       sessionDetail.messages.forEach((message, index) => {
-        const messageData = this.convertToMessage(message, sessionId, createdAt, index, sessionDetail.metadata?.cwd);
+        const messageData = this.convertToMessage(message, sessionId, createdAt, index, project, sessionDetail.metadata?.cwd);
         this.db.messages.upsert(messageData);
         renderableMessages.push(messageData);
         lastSequence = index;
@@ -238,45 +369,199 @@ export class SessionImporter {
 
       this.db.commitTransaction();
       
-      const SEARCH_BATCH_SIZE = 50;
+      const sessionRef = { sessionId: sessionDetail.sessionId, title, provider, gitBranch: sessionDetail.metadata?.gitBranch };
+      const projectRef = { projectUuid, name: sessionWithProject.projectName };
+      this.indexSearch(sessionRef, projectRef, renderableMessages);
+      await this.indexVectors(sessionRef, projectRef, renderableMessages);
+    } catch (e) {
+      this.db.rollbackTransaction();
+      throw e;
+    }
+  }
+
+  /**
+   * Replace the search entries of a session with its current messages
+   */
+  private indexSearch(
+    session: { sessionId: string; title: string; provider: SessionProvider; gitBranch?: string },
+    project: { projectUuid: string; name: string },
+    messages: RenderableMessage[]
+  ): void {
+    const SEARCH_BATCH_SIZE = 50;
+    try {
+      this.searchDb.search.deleteBySessionId(session.sessionId);
+      this.searchDb.beginTransaction();
+      messages.forEach((msg, i) => {
+        const text = ContentCleaner.extractText(msg.content);
+        if (text) {
+          this.searchDb.search.insert({
+            content: text,
+            sessionId: session.sessionId,
+            projectId: project.projectUuid,
+            cardType: msg.cardType,
+            sessionTitle: session.title,
+            projectName: project.name,
+            timestamp: msg.timestamp,
+            provider: session.provider,
+            gitBranch: session.gitBranch,
+            toolName: msg.cardType === 'tool-use' ? msg.subtitle : undefined,
+            isError: msg.isError,
+          });
+        }
+        if ((i + 1) % SEARCH_BATCH_SIZE === 0) {
+          this.searchDb.commitTransaction();
+          this.searchDb.beginTransaction();
+        }
+      });
+      this.searchDb.commitTransaction();
+    } catch (e) {
+      console.error(`Error indexing search for session ${session.sessionId}:`, e);
+      try { this.searchDb.rollbackTransaction(); } catch (rollbackErr) {
+        console.error(`Error rolling back search transaction:`, rollbackErr);
+      }
+    }
+  }
+
+  /**
+   * Replace the embeddings of a session, if semantic search is enabled
+   * Embedding failures are logged; the session itself stays imported.
+   */
+  private async indexVectors(
+    session: { sessionId: string; title: string; provider: SessionProvider; gitBranch?: string },
+    project: { projectUuid: string; name: string },
+    messages: RenderableMessage[]
+  ): Promise<void> {
+    if (!this.semantic) return;
+    const { db: vectorDb, embedder } = this.semantic;
+    const EMBED_BATCH_SIZE = 32;
+
+    const entries = messages
+      .filter(msg => EMBEDDED_CARD_TYPES.includes(msg.cardType))
+      .map(msg => ({ msg, text: ContentCleaner.extractText(msg.content).slice(0, MAX_EMBEDDED_CHARS) }))
+      .filter(entry => entry.text.trim());
+
+    try {
+      // Embed before touching the index, so a slow model never holds a write transaction
+      const embeddings: Float32Array[] = [];
+      for (let i = 0; i < entries.length; i += EMBED_BATCH_SIZE) {
+        embeddings.push(...await embedder.embed(entries.slice(i, i + EMBED_BATCH_SIZE).map(entry => entry.text)));
+      }
+
+      vectorDb.beginTransaction();
       try {
-        this.searchDb.search.deleteBySessionId(sessionDetail.sessionId);
-        this.searchDb.beginTransaction();
-        renderableMessages.forEach((msg, i) => {
-          const text = ContentCleaner.extractText(msg.content);
-          if (text) {
-            this.searchDb.search.insert({
-              content: text,
-              sessionId: sessionDetail.sessionId,
-              projectId: projectUuid,
-              cardType: msg.cardType,
-              sessionTitle: title,
-              projectName: sessionWithProject.projectName,
-              timestamp: msg.timestamp,
-            });
-          }
-          if ((i + 1) % SEARCH_BATCH_SIZE === 0) {
-            this.searchDb.commitTransaction();
-            this.searchDb.beginTransaction();
-          }
+        vectorDb.vectors.deleteBySessionId(session.sessionId);
+        entries.forEach(({ msg, text }, i) => {
+          vectorDb.vectors.insert({
+            content: text,
+            sessionId: session.sessionId,
+            projectId: project.projectUuid,
+            cardType: msg.cardType,
+            sessionTitle: session.title,
+            projectName: project.name,
+            timestamp: msg.timestamp,
+            provider: session.provider,
+            gitBranch: session.gitBranch,
+            isError: msg.isError,
+            embedding: embeddings[i],
+          });
         });
-        this.searchDb.commitTransaction();
+        vectorDb.commitTransaction();
       } catch (e) {
-        console.error(`Error indexing search for session ${sessionDetail.sessionId}:`, e);
-        try { this.searchDb.rollbackTransaction(); } catch (rollbackErr) {
-          console.error(`Error rolling back search transaction:`, rollbackErr);
-        }
+        vectorDb.rollbackTransaction();
+        throw e;
       }
     } catch (e) {
-      this.db.rollbackTransaction();
-      throw e;
+      console.error(`Error embedding session ${session.sessionId}:`, e);
+    }
+  }
+
+  /**
+   * Rebuild the search index from the sessions already stored in sessions.db
+   * @returns the number of re-indexed sessions
+   */
+  rebuildSearchIndex(): number {
+    this.searchDb.search.clear();
+
+    let count = 0;
+    for (const project of this.db.projects.listAll()) {
+      for (const session of this.db.sessions.getByProjectId(project.id)) {
+        const messages = this.db.messages.getBySessionId(session.id!);
+        this.indexSearch(session, { projectUuid: project.projectUuid, name: project.name }, messages);
+        count++;
+      }
     }
+
+    return count;
   }
 
   /**
-   * Convert a ParsedMessage to a RenderableMessage card
+   * Rebuild the search index if it is empty while sessions exist,
+   * e.g. after a search.db migration or when search.db was deleted
    */
-  private convertToMessage(msg: ParsedMessage, sessionId: number, now: string, sequence: number, cwd?: string): RenderableMessage {
+  ensureSearchIndex(): void {
+    if (!this.searchDb.search.isEmpty() || this.db.sessions.getCount() === 0) return;
+
+    console.log('Rebuilding search index from sessions.db...');
+    const count = this.rebuildSearchIndex();
+    console.log(`Search index rebuilt for ${count} sessions.`);
+  }
+
+  /**
+   * Re-embed all sessions stored in sessions.db
+   * @returns the number of re-embedded sessions
+   */
+  async rebuildVectorIndex(): Promise<number> {
+    if (!this.semantic) return 0;
+    this.semantic.db.vectors.clear();
+
+    let count = 0;
+    for (const project of this.db.projects.listAll()) {
+      for (const session of this.db.sessions.getByProjectId(project.id)) {
+        const messages = this.db.messages.getBySessionId(session.id!);
+        await this.indexVectors(session, { projectUuid: project.projectUuid, name: project.name }, messages);
+        count++;
+      }
+    }
+
+    this.semantic.db.vectors.setEmbedderName(this.semantic.embedder.name);
+    return count;
+  }
+
+  /**
+   * Embed all sessions when semantic search was just enabled or the embedder changed,
+   * since vectors of different models cannot be compared
+   */
+  async ensureVectorIndex(): Promise<void> {
+    if (!this.semantic) return;
+    const vectors = this.semantic.db.vectors;
+    if (vectors.getEmbedderName() === this.semantic.embedder.name && !(vectors.isEmpty() && this.db.sessions.getCount() > 0)) return;
+
+    console.log(`Building semantic search index with ${this.semantic.embedder.name}...`);
+    const count = await this.rebuildVectorIndex();
+    console.log(`Semantic search index built for ${count} sessions.`);
+  }
+
+  /**
+   * Convert a ParsedMessage to a RenderableMessage card with secrets redacted
+   */
+  private convertToMessage(
+    msg: ParsedMessage,
+    sessionId: number,
+    now: string,
+    sequence: number,
+    project: { path: string; name: string },
+    cwd?: string
+  ): RenderableMessage {
+    const card = this.createCard(msg, sessionId, now, sequence, cwd);
+
+    return {
+      ...card,
+      subtitle: card.subtitle && this.redactor.redact(card.subtitle, project.path, project.name),
+      content: this.redactor.redactContent(card.content, project.path, project.name),
+    };
+  }
+
+  private createCard(msg: ParsedMessage, sessionId: number, now: string, sequence: number, cwd?: string): RenderableMessage {
     const baseCard: Partial<RenderableMessage> = {
       sessionId,
       sequence,
@@ -301,7 +586,9 @@ export class SessionImporter {
           cardType: 'assistant',
           title: 'text',
           content: msg.content,
-          isError: false
+          isError: false,
+          usage: msg.usage,
+          model: msg.model
         } as RenderableMessage;
 
       case 'assistant_thinking':
@@ -310,7 +597,9 @@ export class SessionImporter {
           cardType: 'thinking',
           title: 'thinking',
           content: [{ type: 'text', text: msg.thinking }],
-          isError: false
+          isError: false,
+          usage: msg.usage,
+          model: msg.model
         } as RenderableMessage;
 
       case 'tool_use':
@@ -328,7 +617,9 @@ export class SessionImporter {
           title: 'tool_use',
           subtitle: msg.toolName,
           content: messageContent,
-          isError: false
+          isError: msg.results.some(result => result.isError),
+          usage: msg.usage,
+          model: msg.model
         } as RenderableMessage;
 
       case 'tool_result':
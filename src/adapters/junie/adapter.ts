@@ -1,5 +1,5 @@
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { JunieSessionFinder, JunieSessionParser } from './index';
 import { extractProjectName } from '../../utils/project';
 import { toDateTimeString } from '../../utils/time';
@@ -16,11 +16,17 @@ export class JunieAdapter implements SessionAdapter {
     this.parser = new JunieSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getBaseDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const sessionInfos = this.finder.listSessions();
 
     for (const info of sessionInfos) {
+      if (options.shouldParse && !options.shouldParse(info.filePath)) continue;
+
       try {
         const session = this.parser.parseFile(info.filePath);
         if (session) {
@@ -46,6 +52,7 @@ export class JunieAdapter implements SessionAdapter {
             title: info.title,
             created: toDateTimeString(info.created),
             updated: toDateTimeString(info.updated),
+            sourcePath: info.filePath,
           });
         }
       } catch (e) {
@@ -487,6 +487,12 @@ describe('KiloSessionParser', () => {
 
         expect(messages.length).toBeGreaterThan(0);
         expect(sessionMetadata).toBeDefined();
+        // Text after the first API request is the assistant's reply
+        expect(messages[0].type).toBe('user');
+        expect(messages[messages.length - 1]).toMatchObject({
+          type: 'assistant_text',
+          content: [{ type: 'markdown', markdown: "I can help you select items. Please specify what you're looking for." }]
+        });
       }
     });
   });
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { extractProjectName } from '../../utils/project';
 import { toDateTimeString } from '../../utils/time';
 import { KiloSessionFinder, KiloSessionParser } from './index';
@@ -17,11 +17,17 @@ export class KiloSessionAdapter implements SessionAdapter {
     this.parser = new KiloSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    return [this.finder.getBaseDir()];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const taskInfos = this.finder.listSessionFiles();
 
     for (const { taskPath, taskId, sessionId, projectPath } of taskInfos) {
+      if (options.shouldParse && !options.shouldParse(taskPath)) continue;
+
       try {
         const session = this.parser.parseSession(taskPath, sessionId);
         if (session) {
@@ -51,7 +57,8 @@ export class KiloSessionAdapter implements SessionAdapter {
             projectName,
             title: session.title,
             created,
-            updated
+            updated,
+            sourcePath: taskPath
           });
         }
       } catch (e) {
@@ -1,5 +1,5 @@
 import { SessionProvider } from '../../types';
-import { SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
 import { OpenCodeSessionFinder, OpenCodeSessionParser } from './index';
 import { extractProjectName } from '../../utils/project';
 import { toDateTimeString } from '../../utils/time';
@@ -16,11 +16,18 @@ export class OpenCodeAdapter implements SessionAdapter {
     this.parser = new OpenCodeSessionParser();
   }
 
-  async getSessions(): Promise<SessionWithProject[]> {
+  getWatchPaths(): string[] {
+    const storageDir = this.finder.getStorageDir();
+    return storageDir ? [storageDir] : [];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
     const sessions: SessionWithProject[] = [];
     const sessionInfos = this.finder.listSessions();
 
     for (const info of sessionInfos) {
+      if (options.shouldParse && !options.shouldParse(info.filePath)) continue;
+
       try {
         const session = this.parser.parseSession(info.sessionId);
         if (session) {
@@ -37,7 +44,8 @@ export class OpenCodeAdapter implements SessionAdapter {
             projectPath: info.projectPath,
             projectName,
             created: toDateTimeString(info.created),
-            updated: toDateTimeString(info.updated)
+            updated: toDateTimeString(info.updated),
+            sourcePath: info.filePath
           });
         }
       } catch (e) {
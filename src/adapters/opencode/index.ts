@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent } from '../../types';
+import { SessionDetail, SessionMetadata, ParsedMessage, MessageContent, TokenUsage } from '../../types';
+import { UsageAccumulator, attachUsage, totalTokens } from '../../utils/tokenUsage';
 
 // OpenCode data structures
 interface OpenCodeSessionData {
@@ -32,6 +33,17 @@ interface OpenCodeMessageData {
     providerID?: string;
     modelID?: string;
   };
+  modelID?: string;
+  providerID?: string;
+  tokens?: {
+    input?: number;
+    output?: number;
+    reasoning?: number;
+    cache?: {
+      read?: number;
+      write?: number;
+    };
+  };
   error?: {
     name?: string;
     data?: {
@@ -81,6 +93,7 @@ interface OpenCodeSessionInfo {
   messageCount: number;
   projectPath: string;
   projectID: string;
+  filePath: string;
 }
 
 /**
@@ -166,7 +179,8 @@ export class OpenCodeSessionFinder {
             updated: session.time.updated,
             messageCount: msgCount,
             projectPath: session.directory,
-            projectID: session.projectID
+            projectID: session.projectID,
+            filePath
           });
         } catch (e) {
           // Skip invalid sessions
@@ -215,7 +229,8 @@ export class OpenCodeSessionParser {
       messageCount: result.messageFileCount,
       models: result.sortedModels,
       version: undefined,
-      gitBranch: undefined
+      gitBranch: undefined,
+      ...result.usage
     };
 
     return {
@@ -242,6 +257,7 @@ export class OpenCodeSessionParser {
     messages: ParsedMessage[]; 
     sortedModels: [string, number][]; 
     messageFileCount: number;
+    usage?: Pick<SessionMetadata, 'usage' | 'usageByModel'>;
   } {
     const storageDir = this.finder.getStorageDir();
     if (!storageDir) {
@@ -297,8 +313,16 @@ export class OpenCodeSessionParser {
     });
 
     const messages: ParsedMessage[] = [];
+    const usage = new UsageAccumulator();
     for (const loaded of loadedMessages) {
-      messages.push(...this.parseRawMessage(loaded));
+      const parsed = this.parseRawMessage(loaded);
+      const messageUsage = this.parseUsage(loaded.messageData);
+      if (messageUsage) {
+        const model = loaded.messageData?.modelID || loaded.messageData?.model?.modelID;
+        usage.add(messageUsage, model);
+        attachUsage(parsed, messageUsage, model);
+      }
+      messages.push(...parsed);
     }
 
     const sortedModels = Array.from(modelCounts.entries())
@@ -307,10 +331,28 @@ export class OpenCodeSessionParser {
     return {
       messages,
       sortedModels,
-      messageFileCount: loadedMessages.length
+      messageFileCount: loadedMessages.length,
+      usage: usage.toMetadata()
     };
   }
 
+  /**
+   * Reasoning tokens are billed as output
+   */
+  private parseUsage(messageData: OpenCodeMessageData | null): TokenUsage | null {
+    const tokens = messageData?.role === 'assistant' ? messageData.tokens : undefined;
+    if (!tokens) return null;
+
+    const usage: TokenUsage = {
+      input: tokens.input || 0,
+      output: (tokens.output || 0) + (tokens.reasoning || 0),
+      cacheRead: tokens.cache?.read || 0,
+      cacheWrite: tokens.cache?.write || 0
+    };
+
+    return totalTokens(usage) > 0 ? usage : null;
+  }
+
   private loadParts(partsDir: string, messageId: string): OpenCodePartData[] {
     const messagePartsDir = path.join(partsDir, messageId);
     if (!fs.existsSync(messagePartsDir)) return [];
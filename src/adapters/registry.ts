@@ -0,0 +1,37 @@
+import { SessionAdapter } from './sessionAdapter';
+import { ClaudeSessionAdapter } from './claude/adapter';
+import { OpenCodeAdapter } from './opencode/adapter';
+import { CodexAdapter } from './codex/adapter';
+import { AmpAdapter } from './amp/adapter';
+import { JunieAdapter } from './junie/adapter';
+import { KiloSessionAdapter } from './kilocode/adapter';
+import { GeminiAdapter } from './gemini/adapter';
+import { DroidAdapter } from './droid/adapter';
+import { CursorAdapter } from './cursor/adapter';
+import { ClineAdapter, RooCodeAdapter } from './cline/adapter';
+import { AiderAdapter } from './aider/adapter';
+import { CopilotAdapter } from './copilot/adapter';
+import { AppConfig } from '../config';
+
+/**
+ * All supported session adapters
+ * Shared by import, push and watch mode so every command sees the same providers
+ * @param config Settings of adapters that need them (Aider search roots)
+ */
+export function createDefaultAdapters(config: Partial<AppConfig> = {}): SessionAdapter[] {
+  return [
+    new ClaudeSessionAdapter(),
+    new OpenCodeAdapter(),
+    new CodexAdapter(),
+    new AmpAdapter(),
+    new JunieAdapter(),
+    new KiloSessionAdapter(),
+    new GeminiAdapter(),
+    new DroidAdapter(),
+    new CursorAdapter(),
+    new ClineAdapter(),
+    new RooCodeAdapter(),
+    new AiderAdapter(config.aider),
+    new CopilotAdapter(),
+  ];
+}
@@ -8,10 +8,22 @@ export interface SessionWithProject {
   title?: string;
   created: string;
   updated: string;
+  /** File or directory the session was parsed from, used to track import state */
+  sourcePath?: string;
+}
+
+export interface GetSessionsOptions {
+  /**
+   * Called with each session source before it is parsed.
+   * Returning false skips the source (e.g. unchanged since the last import).
+   */
+  shouldParse?: (sourcePath: string) => boolean;
 }
 
 export interface SessionAdapter {
   readonly provider: SessionProvider;
   readonly label: string;
-  getSessions(): Promise<SessionWithProject[]>;
+  /** Storage roots that hold this provider's session files (used by watch mode) */
+  getWatchPaths(): string[];
+  getSessions(options?: GetSessionsOptions): Promise<SessionWithProject[]>;
 }
@@ -0,0 +1,61 @@
+import { SessionProvider } from '../types';
+import { matchesGlob } from '../utils/glob';
+import { SessionAdapter, SessionWithProject } from './sessionAdapter';
+
+/**
+ * Restricts which sessions are imported or pushed
+ * All criteria are optional; an empty filter matches everything
+ */
+export interface SessionFilter {
+  /** Only run adapters of these providers */
+  providers?: SessionProvider[];
+  /** Project name or path globs; a session must match at least one */
+  projects?: string[];
+  /** Only sessions updated at or after this date */
+  since?: Date;
+  /** Project name, project path or source path globs to leave out */
+  exclude?: string[];
+}
+
+/**
+ * Keep only the adapters selected by the provider filter
+ */
+export function filterAdapters(adapters: SessionAdapter[], filter: SessionFilter = {}): SessionAdapter[] {
+  if (!filter.providers || filter.providers.length === 0) {
+    return adapters;
+  }
+
+  return adapters.filter(adapter => filter.providers!.includes(adapter.provider));
+}
+
+/**
+ * Check a parsed session against the project, date and exclude criteria
+ */
+export function matchesSessionFilter(session: SessionWithProject, filter: SessionFilter = {}): boolean {
+  if (filter.providers && filter.providers.length > 0 && !filter.providers.includes(session.provider)) {
+    return false;
+  }
+
+  const projectValues = [session.projectName, session.projectPath].filter(Boolean);
+
+  if (filter.projects && filter.projects.length > 0) {
+    const matched = filter.projects.some(pattern => projectValues.some(value => matchesGlob(value, pattern)));
+    if (!matched) return false;
+  }
+
+  if (filter.since) {
+    const updated = new Date(session.updated).getTime();
+    if (!isNaN(updated) && updated < filter.since.getTime()) {
+      return false;
+    }
+  }
+
+  if (filter.exclude && filter.exclude.length > 0) {
+    const values = session.sourcePath ? [...projectValues, session.sourcePath] : projectValues;
+    if (filter.exclude.some(pattern => values.some(value => matchesGlob(value, pattern)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,45 @@
+import { SessionManifestEntry } from '../types';
+import { generateProjectUuid } from '../utils/uuid';
+import { SessionWithProject } from './sessionAdapter';
+
+/**
+ * Sessions already known to a remote server
+ * Lets push skip sessions the server has in the same or a newer state
+ */
+export class SessionManifest {
+  private readonly entries = new Map<string, SessionManifestEntry>();
+
+  constructor(entries: SessionManifestEntry[]) {
+    for (const entry of entries) {
+      this.entries.set(this.key(entry.projectUuid, entry.sessionId), entry);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * True if the server has no copy of the session or an older one
+   */
+  needsPush(sessionWithProject: SessionWithProject): boolean {
+    // Same project UUID derivation as SessionImporter.importSingleSession
+    const projectUuid = generateProjectUuid(sessionWithProject.projectPath || sessionWithProject.projectName);
+    const known = this.entries.get(this.key(projectUuid, sessionWithProject.session.sessionId));
+
+    if (!known) return true;
+    if (known.messageCount !== sessionWithProject.session.messages.length) return true;
+
+    const localUpdated = new Date(sessionWithProject.updated).getTime();
+    const remoteUpdated = new Date(known.updatedAt).getTime();
+    if (isNaN(localUpdated) || isNaN(remoteUpdated)) {
+      return known.updatedAt !== sessionWithProject.updated;
+    }
+
+    return localUpdated > remoteUpdated;
+  }
+
+  private key(projectUuid: string, sessionId: string): string {
+    return `${projectUuid}:${sessionId}`;
+  }
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Helpers for the workspaceStorage/{hash}/ folders of VS Code based editors (VS Code, Cursor)
+ */
+
+/**
+ * Read the project path from workspace.json of a workspaceStorage folder
+ * A folder URI is the project itself; for a .code-workspace file the project is its directory.
+ * Returns null for missing files and empty windows
+ */
+export function readWorkspaceFolder(workspaceDir: string): string | null {
+  const workspaceJsonPath = path.join(workspaceDir, 'workspace.json');
+  if (!fs.existsSync(workspaceJsonPath)) return null;
+
+  try {
+    const workspace = JSON.parse(fs.readFileSync(workspaceJsonPath, 'utf-8')) as { folder?: string; workspace?: string };
+    if (workspace.folder) {
+      return uriToPath(workspace.folder);
+    }
+    if (workspace.workspace) {
+      return path.dirname(uriToPath(workspace.workspace));
+    }
+  } catch (e) {
+    // Unreadable workspace.json
+  }
+
+  return null;
+}
+
+/**
+ * file:// URIs become local paths; remote URIs (vscode-remote://, wsl) keep their path part
+ */
+export function uriToPath(uri: string): string {
+  if (uri.startsWith('file://')) {
+    return fileURLToPath(uri);
+  }
+
+  try {
+    return decodeURIComponent(new URL(uri).pathname);
+  } catch (e) {
+    return uri;
+  }
+}
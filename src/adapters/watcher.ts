@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import { SessionImporter } from './importer';
+import { SessionAdapter } from './sessionAdapter';
+import { SessionFilter, filterAdapters } from './sessionFilter';
+import { formatRedactionCounts } from '../utils/redactor';
+
+const DEFAULT_DEBOUNCE_MS = 1500;
+
+/**
+ * Watches the storage roots of all adapters and re-imports sessions
+ * as soon as their files change. Changes are debounced per adapter and
+ * imports run one at a time, so a burst of writes results in one import.
+ */
+export class SessionWatcher {
+  private readonly watchers: fs.FSWatcher[] = [];
+  private readonly timers = new Map<SessionAdapter, NodeJS.Timeout>();
+  private readonly dirty = new Set<SessionAdapter>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly importer: SessionImporter,
+    private readonly filter: SessionFilter = {},
+    private readonly debounceMs = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Start watching all adapter storage roots
+   * @param scanFirst Import changes that happened while nothing was watching
+   */
+  start(scanFirst = false): void {
+    for (const adapter of filterAdapters(this.importer.getAdapters(), this.filter)) {
+      const roots = adapter.getWatchPaths().filter(root => fs.existsSync(root));
+
+      for (const root of roots) {
+        try {
+          const watcher = fs.watch(root, { recursive: true }, () => this.schedule(adapter));
+          watcher.on('error', (e) => console.error(`[watch] Error watching ${root}:`, e.message));
+          this.watchers.push(watcher);
+          console.log(`[watch] ${adapter.label}: ${root}`);
+        } catch (e: any) {
+          console.error(`[watch] Cannot watch ${root}: ${e.message}`);
+        }
+      }
+
+      if (scanFirst && roots.length > 0) {
+        this.schedule(adapter);
+      }
+    }
+
+    if (this.watchers.length === 0) {
+      console.log('[watch] No session storage directories found to watch');
+    }
+  }
+
+  /**
+   * Stop watching and wait for a running import to finish
+   */
+  async stop(): Promise<void> {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.length = 0;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.dirty.clear();
+    await this.queue;
+  }
+
+  private schedule(adapter: SessionAdapter): void {
+    const existing = this.timers.get(adapter);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(adapter, setTimeout(() => {
+      this.timers.delete(adapter);
+      this.enqueue(adapter);
+    }, this.debounceMs));
+  }
+
+  private enqueue(adapter: SessionAdapter): void {
+    // Already waiting in the queue: that run will pick up this change too
+    if (this.dirty.has(adapter)) return;
+    this.dirty.add(adapter);
+
+    this.queue = this.queue.then(async () => {
+      this.dirty.delete(adapter);
+      try {
+        const imported = await this.importer.importChanged(adapter, this.filter);
+        imported.forEach(s => {
+          console.log(`[watch] ${adapter.label}: imported ${s.session.sessionId} (${s.projectName})`);
+        });
+        const redacted = this.importer.takeRedactionCounts();
+        if (Object.keys(redacted).length > 0) {
+          console.log(`[watch] ${adapter.label}: redacted ${formatRedactionCounts(redacted)}`);
+        }
+      } catch (e) {
+        console.error(`[watch] ${adapter.label}: import failed:`, e);
+      }
+    });
+  }
+}
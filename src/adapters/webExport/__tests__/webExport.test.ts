@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebExportAdapter } from '../adapter';
+
+const zipPath = path.join(__dirname, 'fixtures', 'chatgpt-export.zip');
+const claudeConversations = path.join(__dirname, '..', '..', 'claudeai', '__tests__', 'fixtures', 'conversations.json');
+
+describe('WebExportAdapter', () => {
+  let exportDir: string;
+
+  beforeAll(() => {
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'web-export-test-'));
+    fs.copyFileSync(claudeConversations, path.join(exportDir, 'conversations.json'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('should import a ChatGPT export zip into the default project', async () => {
+    const adapter = new WebExportAdapter({ format: 'chatgpt', source: zipPath });
+    const sessions = await adapter.getSessions();
+
+    expect(adapter.provider).toBe('chatgpt');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      provider: 'chatgpt',
+      projectPath: 'web-chats',
+      projectName: 'web-chats',
+      title: 'Regex for semver',
+      created: '2025-01-15T10:00:00.000Z',
+      updated: '2025-01-15T10:05:00.000Z',
+      sourcePath: zipPath
+    });
+  });
+
+  it('should import an extracted Claude.ai export into the chosen project', async () => {
+    const adapter = new WebExportAdapter({ format: 'claude-ai', source: exportDir, project: 'Research' });
+    const sessions = await adapter.getSessions();
+
+    expect(adapter.provider).toBe('claude_ai');
+    expect(sessions.map(s => s.session.sessionId)).toEqual(['1c9e5a2b-7d4f-4e8a-b3c1-6f2d8e9a0b17']);
+    expect(sessions[0]).toMatchObject({
+      projectPath: 'Research',
+      projectName: 'research',
+      sourcePath: path.join(exportDir, 'conversations.json')
+    });
+  });
+
+  it('should skip an unchanged export', async () => {
+    const shouldParse = jest.fn(() => false);
+    const sessions = await new WebExportAdapter({ format: 'chatgpt', source: zipPath }).getSessions({ shouldParse });
+
+    expect(sessions).toEqual([]);
+    expect(shouldParse).toHaveBeenCalledWith(zipPath);
+  });
+
+  it('should fail for archives without conversations.json', async () => {
+    const archivePath = path.join(__dirname, '..', '..', '..', 'utils', '__tests__', 'fixtures', 'archive.zip');
+    await expect(new WebExportAdapter({ format: 'chatgpt', source: archivePath }).getSessions()).rejects.toThrow('No conversations.json in');
+  });
+});
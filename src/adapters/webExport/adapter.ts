@@ -0,0 +1,73 @@
+import { SessionDetail, SessionProvider } from '../../types';
+import { GetSessionsOptions, SessionAdapter, SessionWithProject } from '../sessionAdapter';
+import { ChatGptExportParser } from '../chatgpt';
+import { ClaudeAiExportParser } from '../claudeai';
+import { extractProjectName } from '../../utils/project';
+import { getExportSourcePath, readExportConversations } from './index';
+
+export type WebExportFormat = 'chatgpt' | 'claude-ai';
+
+export const WEB_EXPORT_FORMATS: WebExportFormat[] = ['chatgpt', 'claude-ai'];
+
+/** Project that web chats are imported into unless another one is chosen */
+export const DEFAULT_WEB_EXPORT_PROJECT = 'web-chats';
+
+export interface WebExportOptions {
+  format: WebExportFormat;
+  /** Zip archive or extracted directory of the data export */
+  source: string;
+  project?: string;
+}
+
+/**
+ * Imports the conversations of a ChatGPT or Claude.ai data export
+ * Web chats have no working directory, so all sessions go to a single named project.
+ * Not part of the default adapters: it is only used by the import-export command
+ */
+export class WebExportAdapter implements SessionAdapter {
+  readonly provider: SessionProvider;
+  readonly label: string;
+
+  private readonly source: string;
+  private readonly project: string;
+  private readonly parse: (conversations: unknown[]) => SessionDetail[];
+
+  constructor(options: WebExportOptions) {
+    this.source = options.source;
+    this.project = options.project || DEFAULT_WEB_EXPORT_PROJECT;
+
+    if (options.format === 'chatgpt') {
+      const parser = new ChatGptExportParser();
+      this.provider = SessionProvider.CHATGPT;
+      this.label = 'ChatGPT';
+      this.parse = conversations => parser.parseConversations(conversations);
+    } else {
+      const parser = new ClaudeAiExportParser();
+      this.provider = SessionProvider.CLAUDE_AI;
+      this.label = 'Claude.ai';
+      this.parse = conversations => parser.parseConversations(conversations);
+    }
+  }
+
+  getWatchPaths(): string[] {
+    return [];
+  }
+
+  async getSessions(options: GetSessionsOptions = {}): Promise<SessionWithProject[]> {
+    const sourcePath = getExportSourcePath(this.source);
+    if (options.shouldParse && !options.shouldParse(sourcePath)) return [];
+
+    const projectName = extractProjectName(this.project) || DEFAULT_WEB_EXPORT_PROJECT;
+
+    return this.parse(readExportConversations(this.source)).map(session => ({
+      session,
+      provider: this.provider,
+      projectPath: this.project,
+      projectName,
+      title: session.title,
+      created: session.metadata?.created || new Date(0).toISOString(),
+      updated: session.metadata?.modified || session.metadata?.created || new Date(0).toISOString(),
+      sourcePath
+    }));
+  }
+}
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readZipEntry } from '../../utils/zip';
+
+const CONVERSATIONS_FILE = 'conversations.json';
+
+/**
+ * File whose content identifies an export for import state tracking:
+ * the zip archive itself or conversations.json of an extracted directory
+ */
+export function getExportSourcePath(source: string): string {
+  if (!fs.existsSync(source)) {
+    throw new Error(`Export not found: ${source}`);
+  }
+
+  return fs.statSync(source).isDirectory() ? path.join(source, CONVERSATIONS_FILE) : source;
+}
+
+/**
+ * Read conversations.json of a ChatGPT or Claude.ai data export
+ * The export can be the downloaded zip archive or its extracted directory.
+ */
+export function readExportConversations(source: string): unknown[] {
+  const sourcePath = getExportSourcePath(source);
+  let content: string;
+
+  if (sourcePath !== source) {
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`No ${CONVERSATIONS_FILE} in ${source}`);
+    }
+    content = fs.readFileSync(sourcePath, 'utf-8');
+  } else {
+    // Some exports wrap their files in a top-level folder
+    const entry = readZipEntry(source, name => name === CONVERSATIONS_FILE || name.endsWith(`/${CONVERSATIONS_FILE}`));
+    if (!entry) {
+      throw new Error(`No ${CONVERSATIONS_FILE} in ${source}`);
+    }
+    content = entry.data.toString('utf-8');
+  }
+
+  const conversations = JSON.parse(content);
+  if (!Array.isArray(conversations)) {
+    throw new Error(`Unexpected ${CONVERSATIONS_FILE} format in ${source}: expected an array of conversations`);
+  }
+
+  return conversations;
+}
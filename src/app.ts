@@ -2,6 +2,8 @@ import express from 'express';
 import path from 'path';
 import expressLayouts from 'express-ejs-layouts';
 import { DatabaseManager } from './database';
+import { loadConfig } from './config';
+import { resolveDataDir } from './utils/paths';
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -22,6 +24,7 @@ const db = new DatabaseManager();
 
 // Make db available to routes
 app.locals.db = db;
+app.locals.config = loadConfig(resolveDataDir());
 
 // Routes
 import { projectController } from './controller/projectController';
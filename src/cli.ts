@@ -3,18 +3,36 @@
 import { Command } from 'commander';
 import { serveCommand } from './command/serve';
 import { importCommand } from './command/import';
+import { importExportCommand } from './command/importExport';
 import { pushCommand } from './command/push';
 import { createDatabaseCommand } from './command/createDatabase';
+import { migrateCommand } from './command/migrate';
+import { exportCommand } from './command/export';
+import { backupCommand } from './command/backup';
+import { restoreCommand } from './command/restore';
+import { tokenCommand } from './command/token';
+import { deleteCommand } from './command/delete';
+import { pruneCommand } from './command/prune';
 const program = new Command();
 
 program
   .name('mega-memory')
   .description('AI Session Manager - Import, query, and serve AI chat sessions')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--db-dir <dir>', 'Directory for the databases (default: $MEGA_MEMORY_HOME or the XDG data directory)')
+  .option('--profile <name>', 'Use a separate named database, e.g. "work" or "personal"');
 
 program.addCommand(serveCommand);
 program.addCommand(importCommand);
+program.addCommand(importExportCommand);
 program.addCommand(pushCommand);
 program.addCommand(createDatabaseCommand);
+program.addCommand(migrateCommand);
+program.addCommand(exportCommand);
+program.addCommand(backupCommand);
+program.addCommand(restoreCommand);
+program.addCommand(tokenCommand);
+program.addCommand(deleteCommand);
+program.addCommand(pruneCommand);
 
 program.parse();
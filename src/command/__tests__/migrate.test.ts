@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrateCommand } from '../migrate';
+
+describe('migrate', () => {
+  let dataDir: string;
+  let previousHome: string | undefined;
+
+  beforeEach(() => {
+    dataDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-test-')), 'data');
+    previousHome = process.env.MEGA_MEMORY_HOME;
+    process.env.MEGA_MEMORY_HOME = dataDir;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (previousHome === undefined) {
+      delete process.env.MEGA_MEMORY_HOME;
+    } else {
+      process.env.MEGA_MEMORY_HOME = previousHome;
+    }
+    fs.rmSync(path.dirname(dataDir), { recursive: true, force: true });
+  });
+
+  it('does not create missing databases on a dry run', async () => {
+    await migrateCommand.parseAsync(['--dry-run'], { from: 'user' });
+
+    expect(fs.existsSync(path.join(dataDir, 'sessions.db'))).toBe(false);
+    expect(fs.existsSync(path.join(dataDir, 'search.db'))).toBe(false);
+    expect(console.log).toHaveBeenCalledWith(`${path.join(dataDir, 'sessions.db')}\n  No database, nothing to migrate\n`);
+  });
+});
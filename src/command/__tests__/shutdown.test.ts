@@ -0,0 +1,28 @@
+import { onShutdown } from '../shutdown';
+
+describe('onShutdown', () => {
+  let exit: jest.SpyInstance;
+
+  beforeEach(() => {
+    exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(['SIGINT', 'SIGTERM'] as const)('cleans up once on %s and exits', async (signal) => {
+    const listeners = { SIGINT: process.listenerCount('SIGINT'), SIGTERM: process.listenerCount('SIGTERM') };
+    const cleanup = jest.fn().mockResolvedValue(undefined);
+    onShutdown('Stopping...', cleanup);
+
+    process.emit(signal);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(0);
+    expect(process.listenerCount('SIGINT')).toBe(listeners.SIGINT);
+    expect(process.listenerCount('SIGTERM')).toBe(listeners.SIGTERM);
+  });
+});
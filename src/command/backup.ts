@@ -0,0 +1,22 @@
+import { Command } from 'commander';
+import { DatabaseManager } from '../database';
+import { writeBackup } from '../utils/backup';
+import { getDataDir } from './options';
+
+export const backupCommand = new Command('backup')
+  .description('Write all projects, sessions and messages to a compressed archive')
+  .argument('[file]', 'Archive to write (default: mega-memory-backup-<date>.jsonl.gz)')
+  .action(async (file: string | undefined, _options, command: Command) => {
+    const output = file || `mega-memory-backup-${new Date().toISOString().slice(0, 10)}.jsonl.gz`;
+    const db = new DatabaseManager(getDataDir(command));
+
+    try {
+      const summary = await writeBackup(db, output);
+      console.log(`Backed up ${summary.projects} projects, ${summary.sessions} sessions and ${summary.messages} messages to ${output}`);
+    } catch (error: any) {
+      console.error(`Backup failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      db.close();
+    }
+  });
@@ -1,17 +1,22 @@
 import { Command } from 'commander';
 import { DatabaseManager } from '../database';
 import { SearchDatabase } from '../searchDatabase';
+import { getDataDir } from './options';
 
 export const createDatabaseCommand = new Command('create-database')
   .description('Create fresh databases, dropping all existing data if present')
-  .action(() => {
-    console.log('Creating databases...\n');
+  .action((_options, command: Command) => {
+    const dataDir = getDataDir(command);
+    console.log(`Creating databases in ${dataDir}...\n`);
 
-    const db = new DatabaseManager();
-    const searchDb = new SearchDatabase();
+    const db = new DatabaseManager(dataDir);
+    const searchDb = new SearchDatabase(dataDir);
 
     db.resetTables();
     console.log('  Sessions database created');
+    if (db.apiTokens.hasActive()) {
+      console.log('  API tokens kept (revoke them with "token revoke")');
+    }
 
     searchDb.resetTables();
     console.log('  Search database created');
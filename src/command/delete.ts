@@ -0,0 +1,40 @@
+import { Command } from 'commander';
+import { deleteProject, deleteSession } from '../utils/sessionDeletion';
+import { withSessionStores } from './options';
+
+const deleteSessionCommand = new Command('session')
+  .description('Delete a session with its messages and search entries')
+  .argument('<sessionId>', 'Session UUID')
+  .action((sessionId: string, _options, command: Command) => {
+    withSessionStores(command, (stores) => {
+      const result = deleteSession(stores, sessionId);
+      if (result.sessions === 0) {
+        console.error(`Session not found: ${sessionId}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`Deleted session ${sessionId} (${result.messages} messages)`);
+    });
+  });
+
+const deleteProjectCommand = new Command('project')
+  .description('Delete a project with all of its sessions')
+  .argument('<projectUuid>', 'Project UUID')
+  .action((projectUuid: string, _options, command: Command) => {
+    withSessionStores(command, (stores) => {
+      const result = deleteProject(stores, projectUuid);
+      if (!result) {
+        console.error(`Project not found: ${projectUuid}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`Deleted project ${projectUuid} (${result.sessions} sessions, ${result.messages} messages)`);
+    });
+  });
+
+export const deleteCommand = new Command('delete')
+  .description('Delete sessions or projects from all databases')
+  .addCommand(deleteSessionCommand)
+  .addCommand(deleteProjectCommand);
@@ -0,0 +1,41 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { writeFileSync } from 'fs';
+import { DatabaseManager } from '../database';
+import { EXPORT_FORMATS, ExportFormat, formatSessionExport, loadSessionExport, parseExportFormat } from '../utils/sessionExport';
+import { getDataDir } from './options';
+
+function parseFormat(value: string): ExportFormat {
+  const format = parseExportFormat(value);
+  if (!format) {
+    throw new InvalidArgumentError(`Unknown format "${value}". Available: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+export const exportCommand = new Command('export')
+  .description('Export a session as Markdown, HTML, JSON or JSONL')
+  .argument('<sessionId>', 'Session UUID')
+  .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`, parseFormat, 'md')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((sessionId: string, options, command: Command) => {
+    const db = new DatabaseManager(getDataDir(command));
+
+    try {
+      const data = loadSessionExport(db, sessionId);
+      if (!data) {
+        console.error(`Session not found: ${sessionId}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const output = formatSessionExport(data, options.format);
+      if (options.output) {
+        writeFileSync(options.output, output);
+        console.error(`Exported ${data.messages.length} messages to ${options.output}`);
+      } else {
+        process.stdout.write(output);
+      }
+    } finally {
+      db.close();
+    }
+  });
@@ -1,25 +1,67 @@
 import { Command } from 'commander';
 import { SessionImporter } from '../adapters/importer';
+import { SessionWatcher } from '../adapters/watcher';
+import { createDefaultAdapters } from '../adapters/registry';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { loadConfig } from '../config';
+import { openSemanticIndex } from '../utils/semanticSearch';
+import { Redactor } from '../utils/redactor';
+import { applyRetention, formatRetentionResult, hasRetentionPolicy } from '../utils/sessionDeletion';
+import { getDataDir, getSessionFilter, withSessionFilterOptions } from './options';
+import { onShutdown } from './shutdown';
 
-export const importCommand = new Command('import')
+export const importCommand = withSessionFilterOptions(new Command('import'))
   .description('Import AI chat sessions from various sources')
-  .action(async () => {
+  .option('--full', 'Re-import all sessions, including unchanged session files')
+  .option('-w, --watch', 'Keep running and re-import sessions when their files change')
+  .action(async (options, command: Command) => {
     console.log('=================================');
     console.log('  AI Session Importer');
     console.log('  (Auto-detects projects)');
     console.log('=================================\n');
 
-    const importer = new SessionImporter();
+    const dataDir = getDataDir(command);
+    console.log(`Database: ${dataDir}\n`);
+
+    const db = new DatabaseManager(dataDir);
+    const searchDb = new SearchDatabase(dataDir);
+    const config = loadConfig(dataDir);
+    const semantic = openSemanticIndex(dataDir, config);
+    const importer = new SessionImporter(createDefaultAdapters(config), db, searchDb, semantic, new Redactor(config.redaction));
+    const filter = getSessionFilter(options);
+    const close = () => {
+      db.close();
+      searchDb.close();
+      semantic?.db.close();
+    };
 
     try {
-      await importer.importAll();
+      await importer.importAll({ full: !!options.full, filter });
+      if (hasRetentionPolicy(config.retention)) {
+        const result = applyRetention({ db, searchDb, semantic }, config.retention);
+        console.log(`\nRetention: ${formatRetentionResult(result)}`);
+      }
       importer.vacuum();
       importer.optimizeSearch();
       console.log('\nImport completed successfully!');
     } catch (error) {
       console.error('\nImport failed:', error);
+      close();
       process.exit(1);
-    } finally {
-      importer.close();
     }
+
+    if (!options.watch) {
+      close();
+      return;
+    }
+
+    console.log('\nWatching for session changes (Ctrl+C to stop)...');
+    const watcher = new SessionWatcher(importer, filter);
+    watcher.start();
+
+    onShutdown('Stopping watch mode...', async () => {
+      await watcher.stop();
+      close();
+    });
   });
@@ -0,0 +1,54 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { existsSync } from 'fs';
+import { SessionImporter } from '../adapters/importer';
+import { DEFAULT_WEB_EXPORT_PROJECT, WEB_EXPORT_FORMATS, WebExportAdapter, WebExportFormat } from '../adapters/webExport/adapter';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { loadConfig } from '../config';
+import { openSemanticIndex } from '../utils/semanticSearch';
+import { Redactor } from '../utils/redactor';
+import { getDataDir } from './options';
+
+function parseFormat(value: string): WebExportFormat {
+  if (!(WEB_EXPORT_FORMATS as string[]).includes(value)) {
+    throw new InvalidArgumentError(`Unknown format "${value}". Available: ${WEB_EXPORT_FORMATS.join(', ')}`);
+  }
+
+  return value as WebExportFormat;
+}
+
+export const importExportCommand = new Command('import-export')
+  .description('Import a ChatGPT or Claude.ai data export (zip archive or extracted directory)')
+  .argument('<source>', 'Export zip archive or the directory it was extracted to')
+  .requiredOption('-f, --format <format>', `Export format (${WEB_EXPORT_FORMATS.join(', ')})`, parseFormat)
+  .option('-p, --project <name>', 'Project to import the conversations into', DEFAULT_WEB_EXPORT_PROJECT)
+  .option('--full', 'Re-import the export even if it is unchanged since the last import')
+  .action(async (source: string, options, command: Command) => {
+    if (!existsSync(source)) {
+      command.error(`error: export not found: ${source}`);
+    }
+
+    const dataDir = getDataDir(command);
+    console.log(`Database: ${dataDir}\n`);
+
+    const adapter = new WebExportAdapter({ format: options.format, source, project: options.project });
+    const db = new DatabaseManager(dataDir);
+    const searchDb = new SearchDatabase(dataDir);
+    const config = loadConfig(dataDir);
+    const semantic = openSemanticIndex(dataDir, config);
+    const importer = new SessionImporter([adapter], db, searchDb, semantic, new Redactor(config.redaction));
+
+    try {
+      await importer.importAll({ full: !!options.full });
+      importer.vacuum();
+      importer.optimizeSearch();
+      console.log('\nImport completed successfully!');
+    } catch (error) {
+      console.error('\nImport failed:', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    } finally {
+      db.close();
+      searchDb.close();
+      semantic?.db.close();
+    }
+  });
@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import path from 'path';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { VectorDatabase } from '../vectorDatabase';
+import { getDataDir } from './options';
+
+export const migrateCommand = new Command('migrate')
+  .description('Apply pending database schema migrations')
+  .option('--dry-run', 'Only show pending migrations without applying them')
+  .action((options, command: Command) => {
+    const dataDir = getDataDir(command);
+    const sources: Array<[string, () => DatabaseManager | SearchDatabase | VectorDatabase]> = [
+      ['sessions.db', () => new DatabaseManager(dataDir, { migrate: false })],
+      ['search.db', () => new SearchDatabase(dataDir, { migrate: false })],
+      ['vectors.db', () => new VectorDatabase(dataDir, { migrate: false })],
+    ];
+
+    // Opening a missing database would create it empty, and the next run would treat it as new
+    const databases: Array<DatabaseManager | SearchDatabase | VectorDatabase> = [];
+    for (const [file, open] of sources) {
+      if (existsSync(path.join(dataDir, file))) {
+        databases.push(open());
+      } else {
+        console.log(`${path.join(dataDir, file)}\n  No database, nothing to migrate\n`);
+      }
+    }
+
+    try {
+      for (const database of databases) {
+        const pending = database.getPendingMigrations();
+        console.log(`${database.getPath()} (schema v${database.getSchemaVersion()})`);
+
+        if (pending.length === 0) {
+          console.log('  Up to date\n');
+          continue;
+        }
+
+        pending.forEach(m => console.log(`  v${m.version}: ${m.description}`));
+
+        if (!options.dryRun) {
+          const result = database.migrate();
+          console.log(`  Migrated to v${result.toVersion}`);
+        }
+        console.log('');
+      }
+
+      if (options.dryRun) {
+        console.log('Dry run, nothing was changed.');
+      }
+    } finally {
+      databases.forEach(database => database.close());
+    }
+  });
@@ -0,0 +1,107 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { Command, InvalidArgumentError } from 'commander';
+import { SessionFilter } from '../adapters/sessionFilter';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { AppConfig, loadConfig } from '../config';
+import { SessionProvider } from '../types';
+import { openSemanticIndex } from '../utils/semanticSearch';
+import { SessionStores } from '../utils/sessionDeletion';
+import { resolveDataDir } from '../utils/paths';
+import { parseDateOrDuration } from '../utils/time';
+
+const PROVIDERS = Object.values(SessionProvider) as string[];
+
+function parseProviders(value: string, previous: SessionProvider[] = []): SessionProvider[] {
+  const providers = value.split(',').map(p => p.trim()).filter(Boolean);
+
+  for (const provider of providers) {
+    if (!PROVIDERS.includes(provider)) {
+      throw new InvalidArgumentError(`Unknown provider "${provider}". Available: ${PROVIDERS.join(', ')}`);
+    }
+  }
+
+  return [...previous, ...(providers as SessionProvider[])];
+}
+
+function parseSince(value: string): Date {
+  const date = parseDateOrDuration(value);
+  if (!date) {
+    throw new InvalidArgumentError(`Invalid date "${value}". Use e.g. 2025-01-31 or 7d`);
+  }
+
+  return date;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Add the session filter options shared by the import and push commands
+ */
+export function withSessionFilterOptions(command: Command): Command {
+  return command
+    .option('--provider <providers>', `Only these providers, comma separated (${PROVIDERS.join(', ')})`, parseProviders)
+    .option('--project <glob>', 'Only projects whose name or path matches the glob (repeatable)', collect)
+    .option('--since <date>', 'Only sessions updated since a date (2025-01-31) or duration (7d, 12h, 2w)', parseSince)
+    .option('--exclude <glob>', 'Skip projects or session files matching the glob (repeatable)', collect);
+}
+
+/**
+ * Build a SessionFilter from the parsed command options
+ */
+export function getSessionFilter(options: Record<string, any>): SessionFilter {
+  return {
+    providers: options.provider,
+    projects: options.project,
+    since: options.since,
+    exclude: options.exclude,
+  };
+}
+
+/**
+ * Resolve the data directory from the global --db-dir and --profile options
+ */
+export function getDataDir(command: Command): string {
+  const { dbDir, profile } = command.optsWithGlobals();
+
+  let dataDir: string;
+  try {
+    dataDir = resolveDataDir({ dbDir, profile });
+  } catch (e: any) {
+    command.error(`error: ${e.message}`);
+  }
+
+  // Databases used to live in ./var of the working directory
+  const legacyDir = path.resolve('var');
+  if (!dbDir && !process.env.MEGA_MEMORY_HOME && legacyDir !== dataDir
+    && existsSync(path.join(legacyDir, 'sessions.db')) && !existsSync(path.join(dataDir, 'sessions.db'))) {
+    console.warn(`Note: found databases in ${legacyDir}, which is no longer the default location.`);
+    console.warn(`      Use --db-dir ${legacyDir} or move them to ${dataDir}\n`);
+  }
+
+  return dataDir;
+}
+
+/**
+ * Open all databases holding session data, run the action and close them again
+ */
+export function withSessionStores(command: Command, action: (stores: SessionStores, config: AppConfig) => void): void {
+  const dataDir = getDataDir(command);
+  const config = loadConfig(dataDir);
+  const stores: SessionStores = {
+    db: new DatabaseManager(dataDir),
+    searchDb: new SearchDatabase(dataDir),
+    semantic: openSemanticIndex(dataDir, config),
+  };
+
+  try {
+    action(stores, config);
+  } finally {
+    stores.db.close();
+    stores.searchDb.close();
+    stores.semantic?.db.close();
+  }
+}
@@ -0,0 +1,62 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { RetentionConfig, applyRetention, formatRetentionResult, hasRetentionPolicy, pruneMissingSources } from '../utils/sessionDeletion';
+import { withSessionStores } from './options';
+
+function parsePositiveInt(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new InvalidArgumentError(`Expected a positive whole number, got "${value}"`);
+  }
+
+  return number;
+}
+
+export const pruneCommand = new Command('prune')
+  .description('Delete sessions that no longer exist at their source or fall outside the retention policy')
+  .option('--missing-sources', 'Delete sessions whose imported session files were deleted')
+  .option('--retention', 'Apply the retention policy from config.json')
+  .option('--max-age <days>', 'Delete sessions not updated for this many days (implies --retention)', parsePositiveInt)
+  .option('--max-sessions <count>', 'Keep only the newest sessions of each project (implies --retention)', parsePositiveInt)
+  .option('--strip-after <days>', 'Drop thinking and tool result content older than this many days (implies --retention)', parsePositiveInt)
+  .option('--dry-run', 'Only show what would be deleted')
+  .action((options, command: Command) => {
+    const retention = options.retention || options.maxAge || options.maxSessions || options.stripAfter;
+    if (!options.missingSources && !retention) {
+      command.error('error: nothing to prune, pass --missing-sources or --retention');
+    }
+
+    withSessionStores(command, (stores, config) => {
+      const dryRun = !!options.dryRun;
+
+      if (options.missingSources) {
+        const result = pruneMissingSources(stores, { dryRun });
+        result.missingSources.forEach(state => console.log(`  Missing: ${state.sourcePath}`));
+
+        if (dryRun) {
+          console.log(`\nWould delete ${result.sessions} sessions (${result.messages} messages). Dry run, nothing was changed.`);
+        } else {
+          console.log(`\nDeleted ${result.sessions} sessions (${result.messages} messages) and ${result.projects} empty projects.`);
+        }
+      }
+
+      if (retention) {
+        const policy: RetentionConfig = {
+          ...config.retention,
+          ...(options.maxAge && { maxAgeDays: options.maxAge }),
+          ...(options.maxSessions && { maxSessionsPerProject: options.maxSessions }),
+          ...(options.stripAfter && { stripContentAfterDays: options.stripAfter }),
+        };
+        if (!hasRetentionPolicy(policy)) {
+          command.error('error: no retention policy, set "retention" in config.json or pass --max-age, --max-sessions or --strip-after');
+        }
+
+        const result = applyRetention(stores, policy, { dryRun });
+        console.log(`\nRetention: ${formatRetentionResult(result, dryRun)}.${dryRun ? ' Dry run, nothing was changed.' : ''}`);
+        if (!dryRun && (result.sessions > 0 || result.strippedMessages > 0)) {
+          console.log('Vacuuming databases...');
+          stores.db.vacuum();
+          stores.searchDb.vacuum();
+        }
+      }
+    });
+  });
@@ -1,58 +1,93 @@
 import { Command } from 'commander';
-import { SessionAdapter } from '../adapters/sessionAdapter';
-import { ClaudeSessionAdapter } from '../adapters/claude/adapter';
-import { OpenCodeAdapter } from '../adapters/opencode/adapter';
-import { CodexAdapter } from '../adapters/codex/adapter';
-import { AmpAdapter } from '../adapters/amp/adapter';
-import { JunieAdapter } from '../adapters/junie/adapter';
+import { createDefaultAdapters } from '../adapters/registry';
+import { SessionManifest } from '../adapters/sessionManifest';
+import { filterAdapters, matchesSessionFilter } from '../adapters/sessionFilter';
+import { SessionWithProject } from '../adapters/sessionAdapter';
+import { SessionManifestEntry } from '../types';
+import { loadConfig } from '../config';
+import { Redactor, formatRedactionCounts } from '../utils/redactor';
+import { getDataDir, getSessionFilter, withSessionFilterOptions } from './options';
 
-function createDefaultAdapters(): SessionAdapter[] {
-  return [
-    new ClaudeSessionAdapter(),
-    new OpenCodeAdapter(),
-    new CodexAdapter(),
-    new AmpAdapter(),
-    new JunieAdapter(),
-  ];
+async function fetchManifest(baseUrl: string, headers: Record<string, string>): Promise<SessionManifest | null> {
+  try {
+    const res = await fetch(`${baseUrl}/api/import/manifest`, { headers });
+    if (!res.ok) {
+      console.warn(`Could not load server manifest (${res.status}), pushing all sessions`);
+      return null;
+    }
+
+    const body = await res.json() as { sessions: SessionManifestEntry[] };
+    return new SessionManifest(body.sessions || []);
+  } catch (e: any) {
+    console.warn(`Could not load server manifest (${e.message}), pushing all sessions`);
+    return null;
+  }
+}
+
+/**
+ * POST a session to the server with secrets redacted on the client, so they never leave the machine
+ */
+export async function postSession(endpoint: string, headers: Record<string, string>, session: SessionWithProject, redactor: Redactor): Promise<Response> {
+  return fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(redactor.redactSession(session)),
+  });
 }
 
-export const pushCommand = new Command('push')
-  .description('Push all sessions to a remote Mega Memory server via API')
+export const pushCommand = withSessionFilterOptions(new Command('push'))
+  .description('Push new and changed sessions to a remote Mega Memory server via API')
   .option('-u, --url <url>', 'Server base URL', 'http://localhost:3000')
-  .action(async (options) => {
+  .option('-t, --token <token>', 'API token with the push scope (default: $MEGA_MEMORY_TOKEN)')
+  .option('--full', 'Push all sessions, including those the server already has')
+  .action(async (options, command: Command) => {
     const baseUrl = options.url.replace(/\/+$/, '');
     const endpoint = `${baseUrl}/api/import/session`;
+    const token: string | undefined = options.token || process.env.MEGA_MEMORY_TOKEN;
+    const authHeaders: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
 
     console.log(`Pushing sessions to ${baseUrl}\n`);
 
-    const adapters = createDefaultAdapters();
+    const manifest = options.full ? null : await fetchManifest(baseUrl, authHeaders);
+    if (manifest) {
+      console.log(`Server knows ${manifest.size} sessions\n`);
+    }
+
+    const filter = getSessionFilter(options);
+    const config = loadConfig(getDataDir(command));
+    const adapters = filterAdapters(createDefaultAdapters(config), filter);
+    const redactor = new Redactor(config.redaction);
     let pushed = 0;
     let skipped = 0;
-    let errors = 0;
+    let failed = 0;
 
     for (const adapter of adapters) {
       console.log(`Scanning ${adapter.label} sessions...`);
-      const sessions = await adapter.getSessions();
-      console.log(`Found ${sessions.length} ${adapter.label} sessions`);
+      const found = await adapter.getSessions();
+      const sessions = found.filter(s => matchesSessionFilter(s, filter));
+      console.log(sessions.length < found.length
+        ? `Found ${sessions.length} matching ${adapter.label} sessions (${found.length - sessions.length} excluded by filter)`
+        : `Found ${sessions.length} ${adapter.label} sessions`);
 
       for (const session of sessions) {
+        if (manifest && !manifest.needsPush(session)) {
+          skipped++;
+          continue;
+        }
+
         try {
-          const res = await fetch(endpoint, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(session),
-          });
+          const res = await postSession(endpoint, authHeaders, session, redactor);
 
           if (res.ok) {
             pushed++;
           } else {
             const body = await res.json().catch(() => ({})) as Record<string, string>;
             console.error(`  Failed ${session.session.sessionId}: ${res.status} ${body.error || ''}`);
-            errors++;
+            failed++;
           }
         } catch (e: any) {
           console.error(`  Error pushing ${session.session.sessionId}: ${e.message}`);
-          errors++;
+          failed++;
         }
       }
     }
@@ -60,7 +95,15 @@ export const pushCommand = new Command('push')
     console.log(`\n=================================`);
     console.log(`Push complete!`);
     console.log(`  Pushed: ${pushed}`);
-    if (skipped > 0) console.log(`  Skipped: ${skipped}`);
-    if (errors > 0) console.log(`  Errors: ${errors}`);
+    console.log(`  Skipped (unchanged): ${skipped}`);
+    console.log(`  Failed: ${failed}`);
+    const redacted = redactor.takeCounts();
+    if (Object.keys(redacted).length > 0) {
+      console.log(`  Redacted secrets: ${formatRedactionCounts(redacted)}`);
+    }
     console.log(`=================================`);
+
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
   });
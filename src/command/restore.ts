@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import { SessionImporter } from '../adapters/importer';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { loadConfig } from '../config';
+import { restoreBackup } from '../utils/backup';
+import { openSemanticIndex } from '../utils/semanticSearch';
+import { getDataDir } from './options';
+
+export const restoreCommand = new Command('restore')
+  .description('Restore sessions from a backup archive and rebuild the search index')
+  .argument('<file>', 'Archive written by the backup command')
+  .action(async (file: string, _options, command: Command) => {
+    const dataDir = getDataDir(command);
+    const db = new DatabaseManager(dataDir);
+    const searchDb = new SearchDatabase(dataDir);
+    const semantic = openSemanticIndex(dataDir, loadConfig(dataDir));
+    const importer = new SessionImporter(undefined, db, searchDb, semantic);
+
+    try {
+      const summary = await restoreBackup(db, file);
+      console.log(`Restored ${summary.projects} projects, ${summary.sessions} sessions and ${summary.messages} messages`);
+
+      console.log('Rebuilding search index...');
+      importer.rebuildSearchIndex();
+      await importer.rebuildVectorIndex();
+      importer.optimizeSearch();
+      console.log('Restore completed successfully!');
+    } catch (error: any) {
+      console.error(`Restore failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      db.close();
+      searchDb.close();
+      semantic?.db.close();
+    }
+  });
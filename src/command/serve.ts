@@ -7,13 +7,27 @@ import {SearchDatabase} from '../searchDatabase';
 import {projectController} from '../controller/projectController';
 import {sessionController} from '../controller/sessionController';
 import {searchController} from '../controller/searchController';
+import {statsController} from '../controller/statsController';
 import {apiController} from '../controller/apiController';
+import {restController} from '../controller/restController';
 import {mcpController} from '../controller/mcpController';
+import {authController, requireAuth, requireSameOrigin} from '../controller/authController';
+import {SessionImporter} from '../adapters/importer';
+import {SessionWatcher} from '../adapters/watcher';
+import {createDefaultAdapters} from '../adapters/registry';
+import {getDataDir} from './options';
+import {onShutdown} from './shutdown';
+import {loadConfig} from '../config';
+import {openSemanticIndex} from '../utils/semanticSearch';
+import {Redactor} from '../utils/redactor';
+import {isLoopbackHost} from '../utils/auth';
 
 export const serveCommand = new Command('serve')
   .description('Start the web server to view sessions')
   .option('-p, --port <number>', 'Port to run the server on', '3000')
-  .action((options) => {
+  .option('-H, --host <host>', 'Address to listen on; 0.0.0.0 accepts connections from other machines', '127.0.0.1')
+  .option('-w, --watch', 'Import changed sessions in the background while serving')
+  .action((options, command: Command) => {
     const port = parseInt(options.port, 10);
     
     const app = express();
@@ -29,18 +43,41 @@ export const serveCommand = new Command('serve')
     // Static files
     app.use(express.static(path.join(__dirname, '..', 'public')));
 
-    // JSON body parser for API
+    // JSON body parser for API, form parser for the login page
     app.use(express.json({ limit: '50mb' }));
+    app.use(express.urlencoded({ extended: false }));
     
     // Initialize databases
-    app.locals.db = new DatabaseManager();
-    app.locals.searchDb = new SearchDatabase();
+    const dataDir = getDataDir(command);
+    app.locals.db = new DatabaseManager(dataDir);
+    app.locals.searchDb = new SearchDatabase(dataDir);
+    app.locals.config = loadConfig(dataDir);
+    app.locals.semantic = openSemanticIndex(dataDir, app.locals.config);
+
+    // Authentication is on as soon as a token exists, and stays on until restart
+    app.locals.authRequired = app.locals.db.apiTokens.hasActive();
+    const host: string = options.host;
+    if (isLoopbackHost(host)) {
+      // Only accept browser and MCP requests addressed to this machine (DNS rebinding protection)
+      app.locals.allowedHosts = ['localhost', '127.0.0.1', '[::1]'].map(name => `${name}:${port}`);
+    } else if (!app.locals.authRequired) {
+      console.warn(`Warning: listening on ${host} without authentication. Create a token with "token create" to protect the server.`);
+    }
+    const indexer = new SessionImporter([], app.locals.db, app.locals.searchDb, app.locals.semantic);
+    indexer.ensureSearchIndex();
+    // Embedding a whole archive takes a while; semantic results fill in as it progresses
+    indexer.ensureVectorIndex().catch((e) => console.error('Error building semantic search index:', e));
 
     // Routes
+    app.use(requireSameOrigin);
+    app.use(requireAuth);
+    app.use('/', authController);
     app.use('/', projectController);
     app.use('/sessions', sessionController);
     app.use('/search', searchController);
+    app.use('/stats', statsController);
     app.use('/api', apiController);
+    app.use('/api', restController);
     app.use('/api/mcp', mcpController);
     
     // Error handler
@@ -63,8 +100,26 @@ export const serveCommand = new Command('serve')
       });
     });
     
-    const server = app.listen(port, () => {
-      console.log(`Mega Memory Server running at http://localhost:${port}`);
+    let watcher: SessionWatcher | undefined;
+    const server = app.listen(port, host, () => {
+      console.log(`Mega Memory Server running at http://${isLoopbackHost(host) ? 'localhost' : host}:${port}`);
+      console.log(`Database: ${dataDir}`);
+      console.log(app.locals.authRequired ? 'Authentication: API tokens required' : 'Authentication: off (no API tokens)');
+
+      if (options.watch) {
+        // Share the server's connections; the initial scan picks up changes made while offline
+        const importer = new SessionImporter(createDefaultAdapters(app.locals.config), app.locals.db, app.locals.searchDb, app.locals.semantic, new Redactor(app.locals.config.redaction));
+        watcher = new SessionWatcher(importer);
+        watcher.start(true);
+      }
+    });
+
+    onShutdown('Shutting down...', async () => {
+      await watcher?.stop();
+      server.close();
+      app.locals.db.close();
+      app.locals.searchDb.close();
+      app.locals.semantic?.db.close();
     });
     
     server.on('error', (err: any) => {
@@ -0,0 +1,20 @@
+/**
+ * Run the cleanup once on SIGINT (Ctrl+C) or SIGTERM (systemd, docker stop), then exit
+ * Closing the databases checkpoints their write-ahead logs.
+ */
+export function onShutdown(message: string, cleanup: () => Promise<void> | void): void {
+  const shutdown = async () => {
+    process.off('SIGINT', shutdown);
+    process.off('SIGTERM', shutdown);
+    console.log(`\n${message}`);
+
+    try {
+      await cleanup();
+    } finally {
+      process.exit(0);
+    }
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
@@ -0,0 +1,81 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { DatabaseManager } from '../database';
+import { TokenScope } from '../types';
+import { TOKEN_SCOPES, createApiToken, parseScopes } from '../utils/auth';
+import { toDateTimeString } from '../utils/time';
+import { getDataDir } from './options';
+
+function parseScopeOption(value: string): TokenScope[] {
+  try {
+    return parseScopes(value);
+  } catch (e: any) {
+    throw new InvalidArgumentError(e.message);
+  }
+}
+
+const createCommand = new Command('create')
+  .description('Create an API token; the server requires tokens once one exists')
+  .argument('<name>', 'Who or what uses the token, e.g. "laptop" or "claude-desktop"')
+  .option('-s, --scopes <list>', `Comma separated scopes (${TOKEN_SCOPES.join(', ')})`, parseScopeOption, ['read'] as TokenScope[])
+  .action((name: string, options, command: Command) => {
+    const db = new DatabaseManager(getDataDir(command));
+
+    try {
+      const { token, apiToken } = createApiToken(db, name, options.scopes);
+      console.log(`Created token #${apiToken.id} "${name}" with scopes: ${apiToken.scopes.join(', ')}\n`);
+      console.log(`  ${token}\n`);
+      console.log('Store it now, it cannot be shown again. Restart a running server to enable authentication.');
+    } finally {
+      db.close();
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List API tokens')
+  .action((_options, command: Command) => {
+    const db = new DatabaseManager(getDataDir(command));
+
+    try {
+      const tokens = db.apiTokens.listAll();
+      if (tokens.length === 0) {
+        console.log('No API tokens. Authentication is off.');
+        return;
+      }
+
+      for (const token of tokens) {
+        const status = token.revokedAt ? `revoked ${token.revokedAt}` : `last used ${token.lastUsedAt || 'never'}`;
+        console.log(`#${token.id}  ${token.prefix}...  ${token.name}  [${token.scopes.join(',')}]  created ${token.createdAt}, ${status}`);
+      }
+    } finally {
+      db.close();
+    }
+  });
+
+const revokeCommand = new Command('revoke')
+  .description('Revoke API tokens by id, name or prefix')
+  .argument('<token>', 'Token id, name or prefix as shown by "token list"')
+  .action((value: string, _options, command: Command) => {
+    const db = new DatabaseManager(getDataDir(command));
+
+    try {
+      const revoked = db.apiTokens.revoke(value.replace(/^#/, '').replace(/\.\.\.$/, ''), toDateTimeString(Date.now()));
+      if (revoked === 0) {
+        console.error(`No active token matches "${value}"`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`Revoked ${revoked} token${revoked === 1 ? '' : 's'}`);
+      if (!db.apiTokens.hasActive()) {
+        console.log('No active tokens left: after a restart the server runs without authentication on localhost.');
+      }
+    } finally {
+      db.close();
+    }
+  });
+
+export const tokenCommand = new Command('token')
+  .description('Manage API tokens for the web UI, REST API, push and MCP')
+  .addCommand(createCommand)
+  .addCommand(listCommand)
+  .addCommand(revokeCommand);
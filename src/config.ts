@@ -0,0 +1,79 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { AiderConfig } from './adapters/aider';
+import { EmbeddingConfig } from './utils/embedder';
+import { RedactionConfig } from './utils/redactor';
+import { RetentionConfig } from './utils/sessionDeletion';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * User configuration, read from config.json in the data directory
+ */
+export interface AppConfig {
+  /**
+   * Model name or glob (e.g. "claude-sonnet-4*") to price
+   * Entries from config.json are merged over the defaults
+   */
+  prices: Record<string, ModelPrice>;
+  /** Enables semantic search when set */
+  embedding?: EmbeddingConfig;
+  /** Secret redaction during import; built-in detectors apply without it */
+  redaction?: RedactionConfig;
+  /** Applied after each import and by `prune --retention` */
+  retention?: RetentionConfig;
+  /** Repositories to search for Aider chat histories */
+  aider?: AiderConfig;
+}
+
+/**
+ * List prices at the time of writing; override them in config.json when they change
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5*': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4*': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4*': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet*': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet*': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5*': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku*': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'gpt-5*': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini*': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gemini-2.5-pro*': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash*': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+};
+
+export const CONFIG_FILE_NAME = 'config.json';
+
+/**
+ * Load config.json from the data directory, falling back to defaults
+ * A broken file is reported but does not stop the command
+ */
+export function loadConfig(dataDir: string): AppConfig {
+  const configPath = path.join(dataDir, CONFIG_FILE_NAME);
+  let userConfig: Partial<AppConfig> = {};
+
+  if (existsSync(configPath)) {
+    try {
+      userConfig = JSON.parse(readFileSync(configPath, 'utf-8'));
+    } catch (e: any) {
+      console.warn(`Ignoring invalid ${configPath}: ${e.message}`);
+    }
+  }
+
+  return {
+    prices: { ...DEFAULT_PRICES, ...(userConfig.prices || {}) },
+    embedding: userConfig.embedding,
+    redaction: userConfig.redaction,
+    retention: userConfig.retention,
+    aider: userConfig.aider,
+  };
+}
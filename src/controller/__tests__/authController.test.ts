@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { requireSameOrigin } from '../authController';
+import { AUTH_COOKIE } from '../../utils/auth';
+
+describe('requireSameOrigin', () => {
+  const allowedHosts = ['localhost:3000', '127.0.0.1:3000', '[::1]:3000'];
+
+  function run(request: { method?: string; path: string; headers: Record<string, string> }, hosts: string[] | null = allowedHosts) {
+    const req = { method: 'GET', ...request, app: { locals: { allowedHosts: hosts || undefined } } } as unknown as Request;
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      render: jest.fn().mockReturnThis(),
+    };
+    const next = jest.fn();
+
+    requireSameOrigin(req, res as unknown as Response, next);
+    return { res, passed: next.mock.calls.length === 1 };
+  }
+
+  it('rejects pages requested through another host name', () => {
+    expect(run({ path: '/', headers: { host: 'localhost:3000' } }).passed).toBe(true);
+
+    const { res, passed } = run({ path: '/', headers: { host: 'rebound.example:3000' } });
+    expect(passed).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.render).toHaveBeenCalledWith('error', expect.objectContaining({ message: 'Cross-site request blocked' }));
+  });
+
+  it('accepts any host name when listening on all interfaces', () => {
+    expect(run({ path: '/', headers: { host: 'memory.example:3000' } }, null).passed).toBe(true);
+  });
+
+  it('rejects form posts from other sites', () => {
+    expect(run({ method: 'POST', path: '/sessions/s-1/delete', headers: { host: 'localhost:3000', origin: 'http://localhost:3000' } }).passed).toBe(true);
+    expect(run({ method: 'POST', path: '/sessions/s-1/delete', headers: { host: 'localhost:3000', origin: 'https://evil.example' } }).passed).toBe(false);
+  });
+
+  it('checks API requests authenticated by the login cookie', () => {
+    const cookie = `${AUTH_COOKIE}=mm_secret`;
+
+    const crossSite = run({ method: 'DELETE', path: '/api/sessions/s-1', headers: { host: 'localhost:3000', origin: 'https://evil.example', cookie } });
+    expect(crossSite.passed).toBe(false);
+    expect(crossSite.res.json).toHaveBeenCalledWith({ error: 'Cross-site request blocked' });
+
+    expect(run({ path: '/api/projects', headers: { host: 'rebound.example:3000', cookie } }).passed).toBe(false);
+    expect(run({ method: 'DELETE', path: '/api/sessions/s-1', headers: { host: 'localhost:3000', origin: 'http://localhost:3000', cookie } }).passed).toBe(true);
+  });
+
+  it('leaves API clients without the login cookie to the API', () => {
+    expect(run({ method: 'POST', path: '/api/mcp', headers: { host: 'localhost:3000', origin: 'http://localhost:6274' } }).passed).toBe(true);
+    expect(run({ method: 'POST', path: '/api/import/session', headers: { host: 'memory.example:3000', origin: 'https://evil.example', authorization: 'Bearer mm_secret' } }).passed).toBe(true);
+  });
+});
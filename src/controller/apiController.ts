@@ -2,10 +2,42 @@ import { Router, Request, Response } from 'express';
 import { DatabaseManager } from '../database';
 import { SearchDatabase } from '../searchDatabase';
 import { SessionImporter } from '../adapters/importer';
+import { getStatsSince } from '../repository/StatsRepository';
+import { AppConfig } from '../config';
+import { Redactor } from '../utils/redactor';
 
 const router = Router();
 
-router.post('/import/session', (req: Request, res: Response) => {
+router.get('/import/manifest', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+
+  try {
+    res.json({ sessions: db.sessions.getManifest() });
+  } catch (e: any) {
+    console.error('Error building import manifest:', e);
+    res.status(500).json({ error: e.message || 'Manifest failed' });
+  }
+});
+
+router.get('/stats', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const days = parseInt(req.query.days as string, 10);
+  const provider = (req.query.provider as string || '').trim();
+  const project = (req.query.project as string || '').trim();
+
+  try {
+    res.json(db.stats.getStats({
+      since: Number.isNaN(days) ? undefined : getStatsSince(days),
+      provider: provider || undefined,
+      projectUuid: project || undefined
+    }));
+  } catch (e: any) {
+    console.error('Error building stats:', e);
+    res.status(500).json({ error: e.message || 'Stats failed' });
+  }
+});
+
+router.post('/import/session', async (req: Request, res: Response) => {
   const db: DatabaseManager = req.app.locals.db;
   const searchDb: SearchDatabase = req.app.locals.searchDb;
 
@@ -25,14 +57,23 @@ router.post('/import/session', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Missing provider' });
     }
 
-    const importer = new SessionImporter([], db, searchDb);
-    importer.importSingleSession(sessionWithProject);
-    importer.close();
+    // Source paths are local to the pushing machine and must not end up in this server's import state
+    delete sessionWithProject.sourcePath;
+
+    const config: AppConfig = req.app.locals.config;
+    const redactor = new Redactor(config.redaction);
+    const importer = new SessionImporter([], db, searchDb, req.app.locals.semantic, redactor);
+    try {
+      await importer.importSingleSession(sessionWithProject);
+    } finally {
+      importer.close();
+    }
 
     res.json({
       ok: true,
       sessionId: sessionWithProject.session.sessionId,
       projectName: sessionWithProject.projectName,
+      redacted: redactor.takeCounts(),
     });
   } catch (e: any) {
     console.error('Error importing session via API:', e);
@@ -0,0 +1,135 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { DatabaseManager } from '../database';
+import { AUTH_COOKIE, getRequestToken, getRequiredScope, verifyApiToken } from '../utils/auth';
+
+const router = Router();
+
+const COOKIE_MAX_AGE_MS = 30 * 24 * 3600 * 1000;
+
+/**
+ * Only redirect to paths on this server after login
+ */
+function safeRedirect(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+}
+
+router.get('/login', (req: Request, res: Response) => {
+  res.render('login', {
+    title: 'Login - Mega Memory',
+    next: safeRedirect(req.query.next),
+    error: undefined
+  });
+});
+
+router.post('/login', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const token = typeof req.body?.token === 'string' ? req.body.token.trim() : '';
+  const next = safeRedirect(req.body?.next);
+  const apiToken = token ? verifyApiToken(db, token) : undefined;
+
+  if (!apiToken || !apiToken.scopes.includes('read')) {
+    return res.status(401).render('login', {
+      title: 'Login - Mega Memory',
+      next,
+      error: apiToken ? 'This token has no read scope' : 'Invalid or revoked token'
+    });
+  }
+
+  res.cookie(AUTH_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: req.secure, maxAge: COOKIE_MAX_AGE_MS, path: '/' });
+  res.redirect(next);
+});
+
+router.post('/logout', (req: Request, res: Response) => {
+  res.clearCookie(AUTH_COOKIE, { path: '/' });
+  res.redirect('/login');
+});
+
+/**
+ * Reject requests a browser makes on behalf of another site: form posts sent without asking,
+ * e.g. to delete sessions, and pages read through a DNS rebinding host name.
+ * API clients sending a bearer token are not browsers; API requests carrying the login cookie are checked.
+ */
+export function requireSameOrigin(req: Request, res: Response, next: NextFunction): void {
+  const isApi = req.path.startsWith('/api/');
+  if (req.headers.authorization || (isApi && !getRequestToken({ cookie: req.headers.cookie }))) {
+    return next();
+  }
+
+  const allowedHosts: string[] | undefined = req.app.locals.allowedHosts;
+  if (allowedHosts && !allowedHosts.includes(req.headers.host || '')) {
+    return rejectCrossSite(res, isApi);
+  }
+
+  const origin = req.headers.origin;
+  if (req.method === 'GET' || req.method === 'HEAD' || !origin) {
+    return next();
+  }
+
+  let originHost: string | undefined;
+  try {
+    originHost = new URL(origin).host;
+  } catch {
+    originHost = undefined;
+  }
+  if (originHost !== req.headers.host) {
+    return rejectCrossSite(res, isApi);
+  }
+
+  next();
+}
+
+function rejectCrossSite(res: Response, isApi: boolean): void {
+  if (isApi) {
+    res.status(403).json({ error: 'Cross-site request blocked' });
+    return;
+  }
+
+  res.status(403).render('error', {
+    title: 'Forbidden',
+    message: 'Cross-site request blocked',
+    breadcrumbs: [{ label: 'Projects', url: '/' }]
+  });
+}
+
+/**
+ * Require a token with the scope of the requested path when authentication is enabled
+ * Pages redirect to the login form; API requests get 401 or 403 as JSON.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.app.locals.authRequired || req.path === '/login' || req.path === '/logout') {
+    return next();
+  }
+
+  const db: DatabaseManager = req.app.locals.db;
+  const token = getRequestToken(req.headers);
+  const apiToken = token ? verifyApiToken(db, token) : undefined;
+  const scope = getRequiredScope(req.path, req.method);
+  const isApi = req.path.startsWith('/api/');
+
+  if (!apiToken) {
+    if (isApi) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Authentication required' });
+    } else {
+      res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+    }
+    return;
+  }
+
+  if (!apiToken.scopes.includes(scope)) {
+    if (isApi) {
+      res.status(403).json({ error: `Token lacks the "${scope}" scope` });
+    } else {
+      res.status(403).render('error', {
+        title: 'Forbidden',
+        message: `Your token lacks the "${scope}" scope`,
+        breadcrumbs: [{ label: 'Projects', url: '/' }]
+      });
+    }
+    return;
+  }
+
+  res.locals.apiToken = apiToken;
+  next();
+}
+
+export const authController = router;
@@ -6,11 +6,17 @@ import { isInitializeRequest, CallToolResult } from '@modelcontextprotocol/sdk/t
 import { z } from 'zod';
 import { DatabaseManager } from '../database';
 import { SearchDatabase } from '../searchDatabase';
-import { MessageContent, RenderableMessage } from '../types';
+import { AppConfig } from '../config';
+import { summarizeSessionUsage } from '../utils/pricing';
+import { SearchQueryError } from '../utils/searchQuery';
+import { formatRenderableMessage } from '../utils/sessionExport';
+import { SEARCH_MODES, SemanticIndex, searchSessionsByMode } from '../utils/semanticSearch';
 
 const MAX_SEARCH_LIMIT = 100;
 const DEFAULT_SEARCH_LIMIT = 50;
 const MAX_SNIPPET_CHARS = 600;
+const DEFAULT_SIMILAR_LIMIT = 10;
+const MAX_SIMILAR_LIMIT = 50;
 
 const router = Router();
 const transports = new Map<string, StreamableHTTPServerTransport>();
@@ -18,6 +24,8 @@ const transports = new Map<string, StreamableHTTPServerTransport>();
 router.post('/', async (req: Request, res: Response) => {
   const db: DatabaseManager = req.app.locals.db;
   const searchDb: SearchDatabase = req.app.locals.searchDb;
+  const config: AppConfig = req.app.locals.config;
+  const semantic: SemanticIndex | undefined = req.app.locals.semantic;
 
   try {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
@@ -37,14 +45,15 @@ router.post('/', async (req: Request, res: Response) => {
         return;
       }
 
-      const server = createMcpServer(db, searchDb);
+      const server = createMcpServer(db, searchDb, config, semantic);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
         onsessioninitialized: (id: string) => {
           transports.set(id, transport);
         },
-        // Local-only server; disable for MCP Inspector compatibility.
-        enableDnsRebindingProtection: false
+        // Without authentication only requests addressed to localhost are accepted
+        enableDnsRebindingProtection: !!req.app.locals.allowedHosts,
+        allowedHosts: req.app.locals.allowedHosts
       });
 
       transport.onclose = () => {
@@ -124,7 +133,7 @@ router.delete('/', async (req: Request, res: Response) => {
   }
 });
 
-function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase): McpServer {
+function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase, config: AppConfig, semantic?: SemanticIndex): McpServer {
   const server = new McpServer({
     name: 'mega-memory',
     version: '1.0.0'
@@ -135,80 +144,65 @@ function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase): McpServ
     'search_sessions',
     {
       title: 'Search Sessions',
-      description: 'Full-text search across sessions with snippets and relevance scores.',
+      description: 'Full-text search across sessions with snippets and relevance scores. Supports AND/OR/NOT (or -term), "exact phrases", prefix*, parentheses and filters: type:tool-use, tool:Bash, project:name, provider:codex, branch:main, after:2025-01-31, before:7d. With mode "semantic" or "hybrid" (if enabled on the server) a natural-language question also finds sessions that use different wording.',
       inputSchema: {
         query: z.string().describe('Search query'),
         project: z.string().optional().describe('Optional project UUID or project name'),
-        limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe('Max results to return'),
-        offset: z.number().int().min(0).optional().describe('Result offset for pagination')
+        provider: z.string().optional().describe('Optional provider, e.g. claude_code or codex'),
+        cardType: z.string().optional().describe('Optional message type: user, assistant, thinking, tool-use, tool-result, info'),
+        limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe('Max sessions to return'),
+        offset: z.number().int().min(0).optional().describe('Session offset for pagination'),
+        mode: z.enum(SEARCH_MODES).optional().describe('keyword (default), semantic (by meaning) or hybrid (both)')
       }
     },
     async (args: any): Promise<CallToolResult> => {
       const query = String(args.query || '').trim();
+      const mode = args.mode || 'keyword';
       const projectArg = args.project ? String(args.project).trim() : '';
       const limit = clampInt(args.limit, 1, MAX_SEARCH_LIMIT, DEFAULT_SEARCH_LIMIT);
-      const offset = clampInt(args.offset, 0, MAX_SEARCH_LIMIT, 0);
-      const safeLimit = Math.min(limit + offset, MAX_SEARCH_LIMIT);
+      const offset = clampInt(args.offset, 0, Number.MAX_SAFE_INTEGER, 0);
 
       try {
         const projects = db.projects.listAll();
         const projectMatch = resolveProject(projectArg, projects);
 
-        const rawResults = projectMatch
-          ? searchDb.search.searchByProject(projectMatch.name, query, safeLimit)
-          : searchDb.search.search(query, safeLimit);
-
-        const grouped = new Map<
-          string,
-          {
-            sessionId: string;
-            sessionTitle: string;
-            projectId: string;
-            projectName: string;
-            score: number;
-            snippets: string[];
-          }
-        >();
-
-        rawResults.forEach((result) => {
-          let entry = grouped.get(result.sessionId);
-          if (!entry) {
-            entry = {
-              sessionId: result.sessionId,
-              sessionTitle: result.sessionTitle,
-              projectId: result.projectId,
-              projectName: result.projectName,
-              score: result.score,
-              snippets: []
-            };
-            grouped.set(result.sessionId, entry);
-          }
-          if (result.score > entry.score) {
-            entry.score = result.score;
-          }
-          if (entry.snippets.length < 5) {
-            entry.snippets.push(formatSnippet(result.content));
-          }
+        const page = await searchSessionsByMode(searchDb, semantic, query, mode, {
+          projectId: projectMatch?.projectUuid,
+          provider: args.provider ? String(args.provider).trim() : undefined,
+          cardType: args.cardType ? String(args.cardType).trim() : undefined,
+          limit,
+          offset
         });
 
-        const groupedResults = Array.from(grouped.values());
-        const results = groupedResults.slice(offset, offset + limit);
+        const results = page.results.map((result) => ({
+          sessionId: result.sessionId,
+          sessionTitle: result.sessionTitle,
+          projectId: result.projectId,
+          projectName: result.projectName,
+          provider: result.provider,
+          score: result.score,
+          matchCount: result.matchCount,
+          snippets: result.matches.map((match) => formatSnippet(match.content))
+        }));
 
         const payload = {
           query,
+          mode,
           project: projectMatch
             ? { projectUuid: projectMatch.projectUuid, name: projectMatch.name }
             : projectArg || null,
           limit,
           offset,
-          total: groupedResults.length,
+          total: page.total,
+          ...(page.totalIsLowerBound ? { totalIsLowerBound: true } : {}),
           results
         };
 
         return toJsonResult(payload);
       } catch (error: any) {
-        const message =
-          error?.message && String(error.message).includes('fts5')
+        const message = error instanceof SearchQueryError
+          ? error.message
+          : error?.message && String(error.message).includes('fts5')
             ? 'Invalid search query. Try simpler terms or use quotes for exact phrases.'
             : error?.message || 'Search error';
         return toTextResult(message, true);
@@ -246,8 +240,11 @@ function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase): McpServ
         title: msg.title,
         subtitle: msg.subtitle,
         timestamp: msg.timestamp,
+        usage: msg.usage,
+        model: msg.model,
         markdown: formatRenderableMessage(msg)
       }));
+      const usage = summarizeSessionUsage(session, config.prices);
 
       const payload = {
         session: {
@@ -260,7 +257,15 @@ function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase): McpServ
           models: session.modelsJson ? JSON.parse(session.modelsJson) : [],
           created: session.created,
           modified: session.modified,
-          messageCount: session.messageCount
+          messageCount: session.messageCount,
+          usage: usage
+            ? {
+                ...usage.usage,
+                byModel: usage.byModel,
+                estimatedCostUsd: Number(usage.estimate.cost.toFixed(4)),
+                unpricedModels: usage.estimate.unpricedModels
+              }
+            : null
         },
         project: project
           ? {
@@ -276,45 +281,39 @@ function createMcpServer(db: DatabaseManager, searchDb: SearchDatabase): McpServ
     }
   );
 
-  return server;
-}
-
-function formatRenderableMessage(message: RenderableMessage): string {
-  const lines: string[] = [];
-  const header = `[${message.sequence}] ${message.cardType}${message.title ? `: ${message.title}` : ''}`;
-  lines.push(header);
-  if (message.subtitle) {
-    lines.push(message.subtitle);
-  }
+  registerTool(
+    'find_similar_sessions',
+    {
+      title: 'Find Similar Sessions',
+      description: 'Find other sessions, across projects and providers, where the same problem likely came up. Ranks sessions by the distinctive prompt words, file names and tool inputs they share with the given session.',
+      inputSchema: {
+        sessionId: z.string().describe('Session UUID'),
+        limit: z.number().int().min(1).max(MAX_SIMILAR_LIMIT).optional().describe('Max sessions to return')
+      }
+    },
+    async (args: any): Promise<CallToolResult> => {
+      const sessionId = String(args.sessionId || '').trim();
+      if (!sessionId) {
+        return toTextResult('Missing sessionId', true);
+      }
 
-  message.content.forEach((block) => {
-    lines.push(formatContentBlock(block));
-  });
+      const session = db.sessions.getBySessionId(sessionId);
+      if (!session) {
+        return toTextResult(`Session not found: ${sessionId}`, true);
+      }
 
-  return lines.filter(Boolean).join('\n\n');
-}
+      const limit = clampInt(args.limit, 1, MAX_SIMILAR_LIMIT, DEFAULT_SIMILAR_LIMIT);
+      const payload = {
+        sessionId,
+        title: session.title,
+        results: searchDb.search.findSimilarSessions(sessionId, limit)
+      };
 
-function formatContentBlock(block: MessageContent): string {
-  switch (block.type) {
-    case 'text':
-      return block.text;
-    case 'markdown':
-      return block.markdown;
-    case 'code': {
-      const lang = block.language ? block.language : '';
-      return `\`\`\`${lang}\n${block.code}\n\`\`\``;
-    }
-    case 'json':
-      return `\`\`\`json\n${block.json}\n\`\`\``;
-    case 'diff': {
-      const header = block.filePath ? `# ${block.filePath}\n` : '';
-      return `\`\`\`diff\n${header}${block.oldText}\n---\n${block.newText}\n\`\`\``;
+      return toJsonResult(payload);
     }
-    case 'html':
-      return `\`\`\`html\n${block.html}\n\`\`\``;
-    default:
-      return '';
-  }
+  );
+
+  return server;
 }
 
 function formatSnippet(content: string): string {
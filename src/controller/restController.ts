@@ -0,0 +1,285 @@
+import { Router, Request, Response } from 'express';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { SearchSort, SessionSearchResult, SEARCH_SORTS } from '../repository/SearchRepository';
+import { AppConfig } from '../config';
+import { Project, RenderableMessage, Session } from '../types';
+import { ProjectCursor, ProjectSummary } from '../repository/ProjectRepository';
+import { SessionCursor } from '../repository/SessionRepository';
+import { MessageCursor, MessageRange } from '../repository/MessageRepository';
+import { CursorKey, decodeCursor, parsePageLimit } from '../utils/cursor';
+import { summarizeSessionUsage } from '../utils/pricing';
+import { SearchQueryError } from '../utils/searchQuery';
+import { SEARCH_MODES, parseSearchMode, searchSessionsByMode } from '../utils/semanticSearch';
+import { SessionStores, deleteProject, deleteSession } from '../utils/sessionDeletion';
+
+/**
+ * JSON API over projects, sessions, messages and search; sessions and projects can be deleted.
+ * Lists are paginated with `limit` and an opaque `cursor` taken from `nextCursor` of the previous page;
+ * search results are ranked, so they page with `limit` and `offset` instead.
+ */
+const router = Router();
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Decode the `cursor` query parameter, sending a 400 if it is malformed
+ * @returns the cursor key, undefined without cursor, or null after an error response
+ */
+function readCursor<T extends CursorKey>(req: Request, res: Response, fields: Record<keyof T, 'string' | 'number'>): T | undefined | null {
+  const cursor = req.query.cursor;
+  if (cursor === undefined || cursor === '') return undefined;
+
+  const key = typeof cursor === 'string' ? decodeCursor<T>(cursor, fields) : null;
+  if (!key) {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return null;
+  }
+  return key;
+}
+
+/**
+ * Parse an optional non-negative integer query parameter
+ * @returns the number, undefined if absent, or NaN if invalid
+ */
+function readSequence(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  return /^\d+$/.test(String(value)) ? parseInt(String(value), 10) : NaN;
+}
+
+function toProjectJson(project: ProjectSummary) {
+  return {
+    projectUuid: project.projectUuid,
+    name: project.name,
+    path: project.path ?? null,
+    sessionCount: project.sessionCount,
+    providers: project.providers,
+    updatedAt: project.updatedAt
+  };
+}
+
+function toSessionJson(session: Session, config: AppConfig) {
+  const usage = summarizeSessionUsage(session, config.prices);
+
+  return {
+    sessionId: session.sessionId,
+    title: session.title,
+    provider: session.provider,
+    version: session.version ?? null,
+    gitBranch: session.gitBranch ?? null,
+    cwd: session.cwd ?? null,
+    models: session.modelsJson ? JSON.parse(session.modelsJson) : [],
+    created: session.created ?? null,
+    modified: session.modified ?? null,
+    messageCount: session.messageCount,
+    usage: usage
+      ? {
+          ...usage.usage,
+          byModel: usage.byModel,
+          estimatedCostUsd: Number(usage.estimate.cost.toFixed(4)),
+          unpricedModels: usage.estimate.unpricedModels
+        }
+      : null,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
+function toMessageJson(message: RenderableMessage) {
+  return {
+    sequence: message.sequence,
+    cardType: message.cardType,
+    title: message.title,
+    subtitle: message.subtitle ?? null,
+    content: message.content,
+    timestamp: message.timestamp,
+    isError: message.isError,
+    usage: message.usage ?? null,
+    model: message.model ?? null
+  };
+}
+
+function toProjectRefJson(project: Project) {
+  return {
+    projectUuid: project.projectUuid,
+    name: project.name,
+    path: project.path ?? null
+  };
+}
+
+function toSearchResultJson(result: SessionSearchResult) {
+  return {
+    sessionId: result.sessionId,
+    sessionTitle: result.sessionTitle,
+    projectUuid: result.projectId,
+    projectName: result.projectName,
+    provider: result.provider,
+    score: result.score,
+    matchCount: result.matchCount,
+    matches: result.matches.map(match => ({
+      content: match.content,
+      cardType: match.cardType,
+      timestamp: match.timestamp,
+      score: match.score
+    }))
+  };
+}
+
+router.get('/search', async (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const searchDb: SearchDatabase = req.app.locals.searchDb;
+
+  const query = (req.query.q as string || '').trim();
+  if (!query) {
+    return res.status(400).json({ error: 'Missing query parameter `q`' });
+  }
+
+  const mode = req.query.mode === undefined ? 'keyword' : parseSearchMode(req.query.mode);
+  if (!mode) {
+    return res.status(400).json({ error: `Invalid mode. Use one of: ${SEARCH_MODES.join(', ')}` });
+  }
+
+  const projectArg = (req.query.project as string || '').trim();
+  let projectUuid: string | undefined;
+  if (projectArg) {
+    const project = db.projects.listAll().find(p => p.projectUuid === projectArg || p.name === projectArg);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    projectUuid = project.projectUuid;
+  }
+
+  const limitParam = parseInt(req.query.limit as string, 10);
+  const offsetParam = parseInt(req.query.offset as string, 10);
+  const limit = Number.isNaN(limitParam) ? DEFAULT_SEARCH_LIMIT : Math.min(Math.max(limitParam, 1), MAX_SEARCH_LIMIT);
+  const offset = Number.isNaN(offsetParam) ? 0 : Math.max(offsetParam, 0);
+
+  try {
+    const page = await searchSessionsByMode(searchDb, req.app.locals.semantic, query, mode, {
+      projectId: projectUuid,
+      provider: (req.query.provider as string || '').trim() || undefined,
+      cardType: (req.query.cardType as string || '').trim() || undefined,
+      gitBranch: (req.query.branch as string || '').trim() || undefined,
+      errorsOnly: req.query.errors === '1' || req.query.errors === 'true',
+      sort: (SEARCH_SORTS as readonly string[]).includes(req.query.sort as string) ? req.query.sort as SearchSort : undefined,
+      limit,
+      offset
+    });
+
+    res.json({
+      query,
+      mode,
+      total: page.total,
+      ...(page.totalIsLowerBound ? { totalIsLowerBound: true } : {}),
+      limit,
+      offset,
+      results: page.results.map(toSearchResultJson)
+    });
+  } catch (e: any) {
+    if (e instanceof SearchQueryError) {
+      return res.status(400).json({ error: e.message });
+    }
+    if (e.message && e.message.includes('fts5')) {
+      return res.status(400).json({ error: 'Invalid search query. Try simpler terms or use quotes for exact phrases.' });
+    }
+    console.error('Error searching via API:', e);
+    res.status(500).json({ error: e.message || 'Search failed' });
+  }
+});
+
+router.get('/projects', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const after = readCursor<ProjectCursor>(req, res, { updatedAt: 'string', id: 'number' });
+  if (after === null) return;
+
+  const page = db.projects.listPage(parsePageLimit(req.query.limit), after);
+  res.json({ items: page.items.map(toProjectJson), nextCursor: page.nextCursor });
+});
+
+router.get('/projects/:projectUuid/sessions', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const config: AppConfig = req.app.locals.config;
+
+  const project = db.projects.getByUuid(req.params.projectUuid as string);
+  if (!project || !project.id) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const after = readCursor<SessionCursor>(req, res, { updatedAt: 'string', id: 'number' });
+  if (after === null) return;
+
+  const page = db.sessions.getPageByProjectId(project.id, parsePageLimit(req.query.limit), after);
+  res.json({
+    project: toProjectRefJson(project),
+    items: page.items.map(session => toSessionJson(session, config)),
+    nextCursor: page.nextCursor
+  });
+});
+
+router.get('/sessions/:sessionId', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const config: AppConfig = req.app.locals.config;
+
+  const session = db.sessions.getBySessionId(req.params.sessionId as string);
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  const project = db.projects.getById(session.projectId);
+  res.json({
+    ...toSessionJson(session, config),
+    project: project ? toProjectRefJson(project) : null
+  });
+});
+
+router.get('/sessions/:sessionId/messages', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+
+  const session = db.sessions.getBySessionId(req.params.sessionId as string);
+  if (!session || !session.id) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  const range: MessageRange = {
+    from: readSequence(req.query.from),
+    to: readSequence(req.query.to)
+  };
+  if (Number.isNaN(range.from) || Number.isNaN(range.to)) {
+    return res.status(400).json({ error: '`from` and `to` must be message sequence numbers' });
+  }
+
+  const after = readCursor<MessageCursor>(req, res, { sequence: 'number' });
+  if (after === null) return;
+
+  const page = db.messages.getPageBySessionId(session.id, parsePageLimit(req.query.limit), range, after);
+  res.json({
+    sessionId: session.sessionId,
+    items: page.items.map(toMessageJson),
+    nextCursor: page.nextCursor
+  });
+});
+
+router.delete('/sessions/:sessionId', (req: Request, res: Response) => {
+  const result = deleteSession(getSessionStores(req), req.params.sessionId as string);
+  if (result.sessions === 0) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  res.json({ ok: true, deleted: result });
+});
+
+router.delete('/projects/:projectUuid', (req: Request, res: Response) => {
+  const result = deleteProject(getSessionStores(req), req.params.projectUuid as string);
+  if (!result) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  res.json({ ok: true, deleted: result });
+});
+
+function getSessionStores(req: Request): SessionStores {
+  return { db: req.app.locals.db, searchDb: req.app.locals.searchDb, semantic: req.app.locals.semantic };
+}
+
+export { router as restController };
@@ -1,38 +1,68 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseManager } from '../database';
 import { SearchDatabase } from '../searchDatabase';
-import { SearchResult } from '../repository/SearchRepository';
+import { SearchFacets, SearchFilter, SearchSort, SessionSearchPage, SEARCH_RANGES, SEARCH_SORTS } from '../repository/SearchRepository';
+import { SearchQueryError } from '../utils/searchQuery';
+import { HtmlBuilder } from '../utils/markdown';
+import { SEARCH_MODES, SemanticIndex, parseSearchMode, searchSessionsByMode } from '../utils/semanticSearch';
 
 const router = Router();
 
-interface GroupedResult {
-  sessionId: string;
-  sessionTitle: string;
-  projectName: string;
-  matches: SearchResult[];
-}
+const PAGE_SIZE = 20;
 
-router.get('/', (req: Request, res: Response) => {
-  const query = (req.query.q as string || '').trim();
-  const projectId = (req.query.project as string || '').trim();
+// Query parameters that select a filter chip, kept across links
+const FILTER_PARAMS = ['q', 'project', 'provider', 'type', 'branch', 'errors', 'range', 'sort', 'mode'] as const;
+
+type FilterParam = typeof FILTER_PARAMS[number];
+
+router.get('/', async (req: Request, res: Response) => {
   const db: DatabaseManager = req.app.locals.db;
   const searchDb: SearchDatabase = req.app.locals.searchDb;
+  const semantic: SemanticIndex | undefined = req.app.locals.semantic;
+
+  const params = {} as Record<FilterParam, string>;
+  for (const name of FILTER_PARAMS) {
+    params[name] = (req.query[name] as string || '').trim();
+  }
+  const query = params.q;
+  const projectId = params.project;
+  const range = SEARCH_RANGES[params.range] ? params.range : '';
+  const sort = (SEARCH_SORTS as readonly string[]).includes(params.sort) ? params.sort as SearchSort : 'relevance';
+  const mode = parseSearchMode(params.mode) || 'keyword';
+  const pageParam = parseInt(req.query.page as string, 10);
+  const page = Number.isNaN(pageParam) || pageParam < 1 ? 1 : pageParam;
 
   const projects = db.projects.listAll();
 
-  let results: SearchResult[] = [];
+  let results: SessionSearchPage = { total: 0, results: [] };
+  let facets: SearchFacets | undefined;
   let error: string | undefined;
 
   if (query) {
+    const filter: SearchFilter = {
+      projectId: projects.some(p => p.projectUuid === projectId) ? projectId : undefined,
+      provider: params.provider || undefined,
+      cardType: params.type || undefined,
+      gitBranch: params.branch || undefined,
+      errorsOnly: params.errors === '1',
+      after: range ? new Date(Date.now() - SEARCH_RANGES[range] * 3600 * 1000) : undefined,
+    };
+
     try {
-      const selectedProject = projectId ? projects.find((p: { projectUuid: string }) => p.projectUuid === projectId) : undefined;
-      if (selectedProject) {
-        results = searchDb.search.searchByProject(selectedProject.name, query);
-      } else {
-        results = searchDb.search.search(query);
+      results = await searchSessionsByMode(searchDb, semantic, query, mode, {
+        ...filter,
+        sort,
+        limit: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE,
+      });
+      // Facets count keyword matches, so they only describe keyword results
+      if (mode === 'keyword') {
+        facets = searchDb.search.getFacets(query, filter);
       }
     } catch (e: any) {
-      if (e.message && e.message.includes('fts5')) {
+      if (e instanceof SearchQueryError) {
+        error = e.message;
+      } else if (e.message && e.message.includes('fts5')) {
         error = 'Invalid search query. Try simpler terms or use quotes for exact phrases.';
       } else {
         error = 'Search error. Please try a different query.';
@@ -40,32 +70,53 @@ router.get('/', (req: Request, res: Response) => {
     }
   }
 
-  // Group results by session
-  const grouped: GroupedResult[] = [];
-  const sessionMap = new Map<string, GroupedResult>();
-
-  for (const result of results) {
-    let group = sessionMap.get(result.sessionId);
-    if (!group) {
-      group = {
-        sessionId: result.sessionId,
-        sessionTitle: result.sessionTitle,
-        projectName: result.projectName,
-        matches: [],
-      };
-      sessionMap.set(result.sessionId, group);
-      grouped.push(group);
+  /**
+   * Link to the current search with some parameters changed; an empty value removes it.
+   * Changing a filter starts again at the first page.
+   */
+  const searchUrl = (changes: Partial<Record<FilterParam | 'page', string | number>>): string => {
+    const merged: Record<string, string | number> = {
+      ...params,
+      range,
+      sort: sort === 'relevance' ? '' : sort,
+      mode: mode === 'keyword' ? '' : mode,
+      ...changes,
+    };
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(merged)) {
+      if (value !== '' && value !== undefined) search.set(name, String(value));
     }
-    group.matches.push(result);
-  }
+    return `/search?${search.toString()}`;
+  };
+
+  const activeFilters = [
+    { param: 'provider', label: 'Provider', value: params.provider },
+    { param: 'type', label: 'Type', value: params.type },
+    { param: 'branch', label: 'Branch', value: params.branch },
+    { param: 'range', label: 'Date', value: range ? `last ${range}` : '' },
+    { param: 'errors', label: 'Errors only', value: params.errors === '1' ? 'yes' : '' },
+  ].filter(f => f.value);
 
   res.render('search', {
     title: 'Search - Mega Memory',
     query,
     projectId,
     projects,
-    grouped,
-    totalResults: results.length,
+    grouped: results.results,
+    highlightHtml: HtmlBuilder.highlightHtml,
+    totalSessions: results.total,
+    totalIsLowerBound: !!results.totalIsLowerBound,
+    facets,
+    activeFilters,
+    params,
+    range,
+    sort,
+    sorts: SEARCH_SORTS,
+    mode,
+    modes: semantic ? SEARCH_MODES : [],
+    page,
+    hasNextPage: page * PAGE_SIZE < results.total,
+    searchUrl,
     error,
     breadcrumbs: [
       { label: 'Projects', url: '/' },
@@ -1,11 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseManager } from '../database';
-import { DiffBuilder } from '../utils/diff';
-import { MarkdownConverter } from '../utils/markdown';
-import { MessageContent, RenderableMessage } from '../types';
+import { SearchDatabase } from '../searchDatabase';
+import { RenderableMessage } from '../types';
+import { AppConfig } from '../config';
+import { estimateCost, findModelPrice, formatCost, formatTokens, summarizeSessionUsage } from '../utils/pricing';
+import { SessionStores, deleteProject, deleteSession } from '../utils/sessionDeletion';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, formatSessionExport, getExportFileName, loadSessionExport, parseExportFormat, renderContentBlocks } from '../utils/sessionExport';
 
 const router = Router();
 
+const SIMILAR_SESSIONS_LIMIT = 8;
+
+function getSessionStores(req: Request): SessionStores {
+  return { db: req.app.locals.db, searchDb: req.app.locals.searchDb, semantic: req.app.locals.semantic };
+}
+
 // Sessions for a project
 router.get('/project/:projectUuid', (req: Request, res: Response) => {
   const db: DatabaseManager = req.app.locals.db;
@@ -49,9 +58,76 @@ router.get('/project/:projectUuid', (req: Request, res: Response) => {
   });
 });
 
+// Delete a project with all of its sessions
+router.post('/project/:projectUuid/delete', (req: Request, res: Response) => {
+  const result = deleteProject(getSessionStores(req), req.params.projectUuid as string);
+  if (!result) {
+    return res.status(404).render('error', {
+      title: 'Error',
+      message: 'Project not found',
+      breadcrumbs: [{ label: 'Projects', url: '/' }]
+    });
+  }
+
+  res.redirect('/');
+});
+
+// Delete a session, then show its project
+router.post('/:sessionId/delete', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const session = db.sessions.getBySessionId(req.params.sessionId as string);
+  if (!session) {
+    return res.status(404).render('error', {
+      title: 'Error',
+      message: 'Session not found',
+      breadcrumbs: [{ label: 'Projects', url: '/' }]
+    });
+  }
+
+  const project = db.projects.getById(session.projectId);
+  deleteSession(getSessionStores(req), session.sessionId);
+  res.redirect(project ? `/sessions/project/${project.projectUuid}` : '/');
+});
+
+// Session download
+router.get('/:sessionId/export', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+
+  const format = req.query.format === undefined ? 'md' : parseExportFormat(req.query.format);
+  if (!format) {
+    return res.status(400).render('error', {
+      title: 'Error',
+      message: `Unknown export format. Available: ${EXPORT_FORMATS.join(', ')}`,
+      breadcrumbs: [{ label: 'Projects', url: '/' }]
+    });
+  }
+
+  const data = loadSessionExport(db, req.params.sessionId as string);
+  if (!data) {
+    return res.status(404).render('error', {
+      title: 'Error',
+      message: 'Session not found',
+      breadcrumbs: [{ label: 'Projects', url: '/' }]
+    });
+  }
+
+  res.attachment(getExportFileName(data, format));
+  res.type(EXPORT_CONTENT_TYPES[format]);
+  res.send(formatSessionExport(data, format));
+});
+
+// Similar sessions panel, loaded by the session detail page
+router.get('/:sessionId/similar', (req: Request, res: Response) => {
+  const searchDb: SearchDatabase | undefined = req.app.locals.searchDb;
+  const similarSessions = searchDb ? searchDb.search.findSimilarSessions(req.params.sessionId as string, SIMILAR_SESSIONS_LIMIT) : [];
+
+  res.render('partials/similar-sessions', { layout: false, similarSessions });
+});
+
 // Session detail
 router.get('/:sessionId', (req: Request, res: Response) => {
   const db: DatabaseManager = req.app.locals.db;
+  const config: AppConfig = req.app.locals.config;
   const sessionId = req.params.sessionId as string;
 
   if (!sessionId) {
@@ -79,23 +155,8 @@ router.get('/:sessionId', (req: Request, res: Response) => {
   // Process messages to convert diff blocks and markdown to HTML
   const processedMessages = messages.map((msg: RenderableMessage) => ({
     ...msg,
-    content: msg.content.map((block: MessageContent) => {
-      if (block.type === 'diff') {
-        return {
-          type: 'html' as const,
-          html: DiffBuilder.generateDiffView(block.oldText, block.newText)
-        };
-      }
-      if (block.type === 'markdown' && block.markdown) {
-        // Convert markdown to HTML
-        const html = MarkdownConverter.toHtml(block.markdown);
-        return {
-          type: 'html' as const,
-          html
-        };
-      }
-      return block;
-    })
+    cost: msg.usage && msg.model ? estimateMessageCost(msg, config) : undefined,
+    content: renderContentBlocks(msg.content)
   }));
 
   res.render('session-detail', {
@@ -114,9 +175,12 @@ router.get('/:sessionId', (req: Request, res: Response) => {
       models: session.modelsJson ? JSON.parse(session.modelsJson) : [],
       created: session.created,
       modified: session.modified,
-      messageCount: session.messageCount
+      messageCount: session.messageCount,
+      usage: summarizeSessionUsage(session, config.prices)
     },
     messages: processedMessages,
+    formatTokens,
+    formatCost,
     project,
     activeProjectUuid: project?.projectUuid,
     activeSessionId: session.sessionId,
@@ -128,4 +192,9 @@ router.get('/:sessionId', (req: Request, res: Response) => {
   });
 });
 
+function estimateMessageCost(message: RenderableMessage, config: AppConfig): number | undefined {
+  const price = findModelPrice(message.model!, config.prices);
+  return price ? estimateCost(message.usage!, price) : undefined;
+}
+
 export { router as sessionController };
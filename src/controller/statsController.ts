@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { DatabaseManager } from '../database';
+import { getStatsSince, StatsTimelineEntry } from '../repository/StatsRepository';
+import { formatTokens } from '../utils/pricing';
+
+const router = Router();
+
+const DEFAULT_DAYS = 30;
+const RANGES = [7, 30, 90, 365, 0];
+const METRICS = ['sessions', 'messages', 'tokens'] as const;
+
+type Metric = typeof METRICS[number];
+
+interface ChartDay {
+  date: string;
+  total: number;
+  providers: Array<{ provider: string; value: number }>;
+}
+
+/**
+ * One bar per day (including days without sessions), stacked by provider
+ */
+function buildChart(timeline: StatsTimelineEntry[], metric: Metric, since?: string): ChartDay[] {
+  const byDate = new Map<string, ChartDay>();
+  for (const entry of timeline) {
+    let day = byDate.get(entry.date);
+    if (!day) {
+      day = { date: entry.date, total: 0, providers: [] };
+      byDate.set(entry.date, day);
+    }
+    day.total += entry[metric];
+    day.providers.push({ provider: entry.provider, value: entry[metric] });
+  }
+
+  const first = since || timeline[0]?.date;
+  if (!first) return [];
+
+  const days: ChartDay[] = [];
+  const today = new Date().toISOString().slice(0, 10);
+  const last = timeline.length > 0 && timeline[timeline.length - 1].date > today ? timeline[timeline.length - 1].date : today;
+  for (let date = new Date(`${first}T00:00:00Z`); date.toISOString().slice(0, 10) <= last; date.setUTCDate(date.getUTCDate() + 1)) {
+    const key = date.toISOString().slice(0, 10);
+    days.push(byDate.get(key) || { date: key, total: 0, providers: [] });
+  }
+  return days;
+}
+
+router.get('/', (req: Request, res: Response) => {
+  const db: DatabaseManager = req.app.locals.db;
+  const daysParam = parseInt(req.query.days as string, 10);
+  const days = Number.isNaN(daysParam) ? DEFAULT_DAYS : Math.max(0, daysParam);
+  const metric: Metric = METRICS.includes(req.query.metric as Metric) ? req.query.metric as Metric : 'sessions';
+  const provider = (req.query.provider as string || '').trim();
+
+  const since = getStatsSince(days);
+  const stats = db.stats.getStats({ since, provider: provider || undefined });
+  const chart = buildChart(stats.timeline, metric, since);
+
+  res.render('stats', {
+    title: 'Stats - Mega Memory',
+    stats,
+    chart,
+    chartMax: Math.max(1, ...chart.map(day => day.total)),
+    days,
+    ranges: RANGES,
+    metric,
+    metrics: METRICS,
+    provider,
+    providers: db.stats.listProviders(),
+    formatTokens,
+    breadcrumbs: [
+      { label: 'Projects', url: '/' },
+      { label: 'Stats', url: '/stats', active: true }
+    ]
+  });
+});
+
+export { router as statsController };
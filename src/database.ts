@@ -1,19 +1,35 @@
 import Database from 'better-sqlite3';
-import { ProjectRepository, SessionRepository, MessageRepository } from './repository';
+import { ProjectRepository, SessionRepository, MessageRepository, ImportStateRepository, StatsRepository, ApiTokenRepository } from './repository';
 import { existsSync, mkdirSync } from 'fs';
 import path from 'path';
+import { resolveDataDir } from './utils/paths';
+import { Migration, MigrationResult, Migrator, getBackupPath } from './migrations/migrator';
+import { SESSIONS_MIGRATIONS } from './migrations/sessionsMigrations';
+
+export { IMPORT_STATE_TABLE_SQL } from './migrations/sessionsMigrations';
+
+export interface DatabaseOptions {
+  /** Apply pending migrations on open (default). Disabled by `migrate --dry-run`. */
+  migrate?: boolean;
+}
 
 export class DatabaseManager {
   private readonly db: Database.Database;
+  private readonly dbPath: string;
+  private readonly isNewDatabase: boolean;
+  private readonly migrator: Migrator;
   public projects: ProjectRepository;
   public sessions: SessionRepository;
   public messages: MessageRepository;
+  public importState: ImportStateRepository;
+  public stats: StatsRepository;
+  public apiTokens: ApiTokenRepository;
 
-  constructor() {
-    const dbPath = 'var/sessions.db';
-    mkdirSync(path.dirname(dbPath), { recursive: true });
-    const isNewDatabase = !existsSync(dbPath);
-    this.db = new Database(dbPath);
+  constructor(dataDir: string = resolveDataDir(), options: DatabaseOptions = {}) {
+    this.dbPath = path.join(dataDir, 'sessions.db');
+    mkdirSync(dataDir, { recursive: true });
+    this.isNewDatabase = !existsSync(this.dbPath);
+    this.db = new Database(this.dbPath);
 
     // Optimize database performance
     this.db.pragma('journal_mode = WAL');
@@ -21,88 +37,56 @@ export class DatabaseManager {
     this.db.pragma('locking_mode = NORMAL');
     this.db.pragma('cache_size = -64000'); // 64MB cache
     this.db.pragma('temp_store = MEMORY');
+    // Deleting a project or session cascades to its sessions and messages
+    this.db.pragma('foreign_keys = ON');
 
-    if (isNewDatabase) {
-      this.initTables();
+    this.migrator = new Migrator(this.db, SESSIONS_MIGRATIONS);
+    if (options.migrate !== false) {
+      this.migrate();
     }
+
     this.projects = new ProjectRepository(this.db);
     this.sessions = new SessionRepository(this.db);
     this.messages = new MessageRepository(this.db);
+    this.importState = new ImportStateRepository(this.db);
+    this.stats = new StatsRepository(this.db);
+    this.apiTokens = new ApiTokenRepository(this.db);
+  }
+
+  /**
+   * Apply pending schema migrations, backing up existing databases first
+   */
+  migrate(): MigrationResult {
+    const fromVersion = this.migrator.getCurrentVersion();
+    const backupPath = this.isNewDatabase ? undefined : getBackupPath(this.dbPath, fromVersion);
+    const result = this.migrator.migrate(backupPath);
+
+    if (result.backupPath) {
+      console.log(`Migrated ${this.dbPath} from v${result.fromVersion} to v${result.toVersion} (backup: ${result.backupPath})`);
+    }
+
+    return result;
+  }
+
+  getSchemaVersion(): number {
+    return this.migrator.getCurrentVersion();
+  }
+
+  getPendingMigrations(): Migration[] {
+    return this.migrator.getPendingMigrations();
   }
 
-  private initTables(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS projects (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        project_uuid TEXT NOT NULL UNIQUE,
-        name TEXT NOT NULL,
-        path TEXT,
-        created_at DATETIME NOT NULL,
-        updated_at DATETIME NOT NULL
-      )
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        project_id INTEGER NOT NULL,
-        session_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        provider TEXT NOT NULL,
-        version TEXT,
-        git_branch TEXT,
-        cwd TEXT,
-        models_json TEXT,
-        created TEXT,
-        modified TEXT,
-        message_count INTEGER DEFAULT 0,
-        created_at DATETIME NOT NULL,
-        updated_at DATETIME NOT NULL,
-        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
-        UNIQUE(project_id, session_id)
-      )
-    `);
-
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project_id)
-    `);
-
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_sessions_provider ON sessions(provider)
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id INTEGER NOT NULL,
-        sequence INTEGER NOT NULL,
-        card_type TEXT NOT NULL,
-        title TEXT NOT NULL,
-        subtitle TEXT,
-        content_json TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        can_expand INTEGER DEFAULT 1,
-        is_error INTEGER DEFAULT 0,
-        created_at DATETIME NOT NULL,
-        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
-        UNIQUE(session_id, sequence)
-      )
-    `);
-
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id)
-    `);
-
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_messages_sequence ON messages(sequence)
-    `);
+  getPath(): string {
+    return this.dbPath;
   }
 
   resetTables(): void {
     this.db.exec('DROP TABLE IF EXISTS messages');
     this.db.exec('DROP TABLE IF EXISTS sessions');
     this.db.exec('DROP TABLE IF EXISTS projects');
-    this.initTables();
+    this.db.exec('DROP TABLE IF EXISTS import_state');
+    this.db.exec('DROP TABLE IF EXISTS schema_version');
+    this.migrator.migrate();
   }
 
   /**
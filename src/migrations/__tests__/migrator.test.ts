@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { Migration, Migrator } from '../migrator';
+import { SESSIONS_MIGRATIONS } from '../sessionsMigrations';
+import { SEARCH_MIGRATIONS, SEARCH_TABLE_SQL } from '../searchMigrations';
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Add notes column',
+    up: (db) => db.exec('ALTER TABLE items ADD COLUMN notes TEXT'),
+  },
+  {
+    version: 1,
+    description: 'Create items table',
+    up: (db) => db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)'),
+  },
+];
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(c => c.name);
+}
+
+describe('Migrator', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('reports version 0 and all steps pending for a fresh database', () => {
+    const migrator = new Migrator(db, MIGRATIONS);
+
+    expect(migrator.getCurrentVersion()).toBe(0);
+    expect(migrator.getPendingMigrations().map(m => m.version)).toEqual([1, 2]);
+    expect(migrator.getLatestVersion()).toBe(2);
+  });
+
+  it('applies pending migrations in version order', () => {
+    const result = new Migrator(db, MIGRATIONS).migrate();
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(2);
+    expect(result.applied.map(m => m.version)).toEqual([1, 2]);
+    expect(columns(db, 'items')).toEqual(['id', 'name', 'notes']);
+  });
+
+  it('only applies migrations newer than the recorded version', () => {
+    new Migrator(db, MIGRATIONS.filter(m => m.version === 1)).migrate();
+
+    const migrator = new Migrator(db, MIGRATIONS);
+    expect(migrator.getPendingMigrations().map(m => m.version)).toEqual([2]);
+
+    migrator.migrate();
+    expect(migrator.getPendingMigrations()).toHaveLength(0);
+    expect(migrator.migrate().applied).toHaveLength(0);
+  });
+
+  it('rolls back a failing migration and keeps the previous version', () => {
+    const failing: Migration = {
+      version: 3,
+      description: 'Broken step',
+      up: (d) => {
+        d.exec('CREATE TABLE partial (id INTEGER)');
+        throw new Error('boom');
+      },
+    };
+    const migrator = new Migrator(db, [...MIGRATIONS, failing]);
+
+    expect(() => migrator.migrate()).toThrow('boom');
+    expect(migrator.getCurrentVersion()).toBe(2);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'partial'").get()).toBeUndefined();
+  });
+
+  it('backs up the database before migrating', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrator-test-'));
+    const fileDb = new Database(path.join(tempDir, 'test.db'));
+    const backupPath = path.join(tempDir, 'test.db.bak');
+
+    try {
+      new Migrator(fileDb, MIGRATIONS.filter(m => m.version === 1)).migrate();
+      fileDb.exec("INSERT INTO items (name) VALUES ('kept')");
+
+      const result = new Migrator(fileDb, MIGRATIONS).migrate(backupPath);
+
+      expect(result.backupPath).toBe(backupPath);
+      const backup = new Database(backupPath, { readonly: true });
+      expect(columns(backup, 'items')).toEqual(['id', 'name']);
+      expect((backup.prepare('SELECT name FROM items').get() as any).name).toBe('kept');
+      backup.close();
+    } finally {
+      fileDb.close();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('upgrades databases created before schema versioning', () => {
+    // Tables exist, but schema_version does not
+    SESSIONS_MIGRATIONS[0].up(db);
+    db.exec("INSERT INTO projects (project_uuid, name, created_at, updated_at) VALUES ('p1', 'demo', 'now', 'now')");
+
+    const result = new Migrator(db, SESSIONS_MIGRATIONS).migrate();
+
+    expect(result.toVersion).toBe(SESSIONS_MIGRATIONS[SESSIONS_MIGRATIONS.length - 1].version);
+    expect((db.prepare('SELECT COUNT(*) as count FROM projects').get() as any).count).toBe(1);
+    expect(columns(db, 'import_state')).toContain('content_hash');
+  });
+
+  it('migrates search.db to the current search_messages schema', () => {
+    new Migrator(db, SEARCH_MIGRATIONS).migrate();
+
+    const current = new Database(':memory:');
+    try {
+      current.exec(SEARCH_TABLE_SQL);
+      expect(columns(db, 'search_messages')).toEqual(columns(current, 'search_messages'));
+    } finally {
+      current.close();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+
+/**
+ * A single schema change, applied once and recorded in schema_version
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: Migration[];
+  backupPath?: string;
+}
+
+const SCHEMA_VERSION_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at DATETIME NOT NULL
+  )
+`;
+
+/**
+ * Applies ordered migrations to a database and tracks the schema version
+ * Each migration runs in its own transaction together with its version row
+ */
+export class Migrator {
+  private readonly migrations: Migration[];
+
+  constructor(private readonly db: Database.Database, migrations: Migration[]) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Highest applied version, 0 for databases without schema_version
+   */
+  getCurrentVersion(): number {
+    const table = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+    ).get();
+    if (!table) return 0;
+
+    const row = this.db.prepare('SELECT MAX(version) as version FROM schema_version').get() as any;
+    return row.version || 0;
+  }
+
+  getLatestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getPendingMigrations(): Migration[] {
+    const current = this.getCurrentVersion();
+    return this.migrations.filter(m => m.version > current);
+  }
+
+  /**
+   * Apply all pending migrations
+   * @param backupPath Copy the database there first (skipped when nothing is pending)
+   */
+  migrate(backupPath?: string): MigrationResult {
+    const fromVersion = this.getCurrentVersion();
+    const pending = this.getPendingMigrations();
+    const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [] };
+
+    if (pending.length === 0) {
+      return result;
+    }
+
+    if (backupPath) {
+      if (existsSync(backupPath)) {
+        throw new Error(`Backup file already exists: ${backupPath}`);
+      }
+      this.db.prepare('VACUUM INTO ?').run(backupPath);
+      result.backupPath = backupPath;
+    }
+
+    this.db.exec(SCHEMA_VERSION_TABLE_SQL);
+    const record = this.db.prepare(
+      'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)'
+    );
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        migration.up(this.db);
+        record.run(migration.version, migration.description, new Date().toISOString());
+      })();
+
+      result.applied.push(migration);
+      result.toVersion = migration.version;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Backup file name for a database before migrating away from a version
+ */
+export function getBackupPath(dbPath: string, fromVersion: number): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${dbPath}.v${fromVersion}-${timestamp}.bak`;
+}
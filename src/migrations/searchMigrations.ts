@@ -0,0 +1,115 @@
+import { Migration } from './migrator';
+
+/**
+ * Current search_messages schema, for tests that create the table directly
+ * Changing it requires a new migration; released migrations keep their own copy.
+ */
+export const SEARCH_TABLE_SQL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_messages USING fts5(
+    content,
+    session_id,
+    project_id,
+    card_type,
+    session_title,
+    project_name,
+    timestamp UNINDEXED,
+    provider UNINDEXED,
+    git_branch UNINDEXED,
+    tool_name UNINDEXED,
+    is_error UNINDEXED,
+    time UNINDEXED,
+    tokenize='trigram'
+  )
+`;
+
+/**
+ * Schema history of search.db
+ * Append new steps only; never change a released migration.
+ */
+export const SEARCH_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create search_messages FTS5 table',
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_messages USING fts5(
+          content,
+          session_id,
+          project_id,
+          card_type,
+          session_title,
+          project_name,
+          timestamp UNINDEXED,
+          tokenize='trigram'
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Add provider to search_messages (the index is rebuilt from sessions.db)',
+    up: (db) => {
+      // FTS5 tables cannot be altered; the index only holds data derived from sessions.db
+      db.exec('DROP TABLE IF EXISTS search_messages');
+      db.exec(`
+        CREATE VIRTUAL TABLE search_messages USING fts5(
+          content,
+          session_id,
+          project_id,
+          card_type,
+          session_title,
+          project_name,
+          timestamp UNINDEXED,
+          provider UNINDEXED,
+          tokenize='trigram'
+        )
+      `);
+    }
+  },
+  {
+    version: 3,
+    description: 'Add git_branch and tool_name to search_messages for query filters (the index is rebuilt from sessions.db)',
+    up: (db) => {
+      db.exec('DROP TABLE IF EXISTS search_messages');
+      db.exec(`
+        CREATE VIRTUAL TABLE search_messages USING fts5(
+          content,
+          session_id,
+          project_id,
+          card_type,
+          session_title,
+          project_name,
+          timestamp UNINDEXED,
+          provider UNINDEXED,
+          git_branch UNINDEXED,
+          tool_name UNINDEXED,
+          tokenize='trigram'
+        )
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Add is_error and a sortable epoch time to search_messages for facets (the index is rebuilt from sessions.db)',
+    up: (db) => {
+      db.exec('DROP TABLE IF EXISTS search_messages');
+      db.exec(`
+        CREATE VIRTUAL TABLE search_messages USING fts5(
+          content,
+          session_id,
+          project_id,
+          card_type,
+          session_title,
+          project_name,
+          timestamp UNINDEXED,
+          provider UNINDEXED,
+          git_branch UNINDEXED,
+          tool_name UNINDEXED,
+          is_error UNINDEXED,
+          time UNINDEXED,
+          tokenize='trigram'
+        )
+      `);
+    }
+  },
+];
@@ -0,0 +1,125 @@
+import { Migration } from './migrator';
+
+/**
+ * Fingerprints of imported session sources, used to skip unchanged files
+ */
+export const IMPORT_STATE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS import_state (
+    provider TEXT NOT NULL,
+    source_path TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    mtime_ms REAL NOT NULL,
+    content_hash TEXT NOT NULL,
+    session_id TEXT,
+    imported_at DATETIME NOT NULL,
+    PRIMARY KEY (provider, source_path)
+  )
+`;
+
+/**
+ * Schema history of sessions.db
+ * Append new steps only; never change a released migration.
+ * Statements use IF NOT EXISTS so databases created before versioning upgrade cleanly.
+ */
+export const SESSIONS_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create projects, sessions and messages tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_uuid TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          path TEXT,
+          created_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_id INTEGER NOT NULL,
+          session_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          version TEXT,
+          git_branch TEXT,
+          cwd TEXT,
+          models_json TEXT,
+          created TEXT,
+          modified TEXT,
+          message_count INTEGER DEFAULT 0,
+          created_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL,
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+          UNIQUE(project_id, session_id)
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project_id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_sessions_provider ON sessions(provider)');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          sequence INTEGER NOT NULL,
+          card_type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          subtitle TEXT,
+          content_json TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          can_expand INTEGER DEFAULT 1,
+          is_error INTEGER DEFAULT 0,
+          created_at DATETIME NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+          UNIQUE(session_id, sequence)
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_messages_sequence ON messages(sequence)');
+    }
+  },
+  {
+    version: 2,
+    description: 'Create import_state table for incremental imports',
+    up: (db) => {
+      db.exec(IMPORT_STATE_TABLE_SQL);
+    }
+  },
+  {
+    version: 3,
+    description: 'Add token usage columns to sessions and messages',
+    up: (db) => {
+      for (const table of ['sessions', 'messages']) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN input_tokens INTEGER`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN output_tokens INTEGER`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN cache_read_tokens INTEGER`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN cache_write_tokens INTEGER`);
+      }
+      db.exec('ALTER TABLE sessions ADD COLUMN usage_json TEXT');
+      db.exec('ALTER TABLE messages ADD COLUMN model TEXT');
+    }
+  },
+  {
+    version: 4,
+    description: 'Create api_tokens table for authentication',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          created_at DATETIME NOT NULL,
+          last_used_at DATETIME,
+          revoked_at DATETIME
+        )
+      `);
+    }
+  },
+];
@@ -0,0 +1,38 @@
+import { Migration } from './migrator';
+
+/**
+ * Schema history of vectors.db
+ * Append new steps only; never change a released migration.
+ */
+export const VECTOR_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create message_vectors and index_info tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS message_vectors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          card_type TEXT NOT NULL,
+          session_title TEXT,
+          project_name TEXT,
+          provider TEXT NOT NULL,
+          git_branch TEXT,
+          is_error INTEGER NOT NULL DEFAULT 0,
+          timestamp TEXT,
+          time INTEGER,
+          content TEXT NOT NULL,
+          embedding BLOB NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_message_vectors_session_id ON message_vectors(session_id)');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS index_info (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    }
+  },
+];
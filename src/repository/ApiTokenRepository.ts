@@ -0,0 +1,90 @@
+import Database from 'better-sqlite3';
+import { ApiToken, TokenScope } from '../types';
+
+/**
+ * Repository for api_tokens table operations
+ */
+export class ApiTokenRepository {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Store a new token
+   */
+  insert(token: ApiToken): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO api_tokens (name, token_hash, prefix, scopes, created_at)
+      VALUES (@name, @tokenHash, @prefix, @scopes, @createdAt)
+      RETURNING id
+    `);
+
+    const result = stmt.get({
+      name: token.name,
+      tokenHash: token.tokenHash,
+      prefix: token.prefix,
+      scopes: token.scopes.join(','),
+      createdAt: token.createdAt
+    }) as { id: number };
+
+    return result.id;
+  }
+
+  /**
+   * Get a token that has not been revoked by the hash of its secret
+   */
+  getActiveByHash(tokenHash: string): ApiToken | undefined {
+    const stmt = this.db.prepare('SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL');
+    const row = stmt.get(tokenHash) as any;
+
+    if (!row) return undefined;
+
+    return this.mapRowToApiToken(row);
+  }
+
+  /**
+   * List all tokens, including revoked ones, oldest first
+   */
+  listAll(): ApiToken[] {
+    const stmt = this.db.prepare('SELECT * FROM api_tokens ORDER BY id');
+    return stmt.all().map((row: any) => this.mapRowToApiToken(row));
+  }
+
+  /**
+   * Whether any token can still be used, i.e. whether authentication is configured
+   */
+  hasActive(): boolean {
+    return !!this.db.prepare('SELECT 1 FROM api_tokens WHERE revoked_at IS NULL LIMIT 1').get();
+  }
+
+  /**
+   * Record the last use of a token
+   */
+  touch(id: number, usedAt: string): void {
+    this.db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(usedAt, id);
+  }
+
+  /**
+   * Revoke active tokens by id, name or prefix
+   * @returns the number of revoked tokens
+   */
+  revoke(idOrName: string, revokedAt: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE api_tokens SET revoked_at = @revokedAt
+      WHERE revoked_at IS NULL AND (CAST(id AS TEXT) = @value OR name = @value OR prefix = @value)
+    `);
+
+    return stmt.run({ value: idOrName, revokedAt }).changes;
+  }
+
+  private mapRowToApiToken(row: any): ApiToken {
+    return {
+      id: row.id,
+      name: row.name,
+      tokenHash: row.token_hash,
+      prefix: row.prefix,
+      scopes: row.scopes.split(',').filter(Boolean) as TokenScope[],
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import Database from 'better-sqlite3';
+import { ImportState, SessionProvider } from '../types';
+
+/**
+ * Repository for import_state table operations
+ * Tracks the fingerprint of every imported session source per provider
+ */
+export class ImportStateRepository {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Insert or update the state of a source file
+   */
+  upsert(state: ImportState): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO import_state (provider, source_path, size, mtime_ms, content_hash, session_id, imported_at)
+      VALUES (@provider, @sourcePath, @size, @mtimeMs, @contentHash, @sessionId, @importedAt)
+      ON CONFLICT(provider, source_path) DO UPDATE SET
+        size = excluded.size,
+        mtime_ms = excluded.mtime_ms,
+        content_hash = excluded.content_hash,
+        session_id = COALESCE(excluded.session_id, import_state.session_id),
+        imported_at = excluded.imported_at
+    `);
+
+    stmt.run({
+      provider: state.provider,
+      sourcePath: state.sourcePath,
+      size: state.size,
+      mtimeMs: state.mtimeMs,
+      contentHash: state.contentHash,
+      sessionId: state.sessionId || null,
+      importedAt: state.importedAt
+    });
+  }
+
+  /**
+   * Get the state of a source file for a provider
+   */
+  get(provider: SessionProvider, sourcePath: string): ImportState | undefined {
+    const stmt = this.db.prepare('SELECT * FROM import_state WHERE provider = ? AND source_path = ?');
+    const row = stmt.get(provider, sourcePath) as any;
+
+    if (!row) return undefined;
+
+    return this.mapRowToImportState(row);
+  }
+
+  /**
+   * List all tracked source files
+   */
+  listAll(): ImportState[] {
+    const stmt = this.db.prepare('SELECT * FROM import_state ORDER BY provider, source_path');
+    return stmt.all().map((row: any) => this.mapRowToImportState(row));
+  }
+
+  /**
+   * Forget a source file
+   */
+  delete(provider: SessionProvider, sourcePath: string): void {
+    this.db.prepare('DELETE FROM import_state WHERE provider = ? AND source_path = ?').run(provider, sourcePath);
+  }
+
+  /**
+   * Get total count of tracked source files
+   */
+  getCount(): number {
+    const result = this.db.prepare('SELECT COUNT(*) as count FROM import_state').get() as any;
+    return result.count;
+  }
+
+  /**
+   * Forget all tracked source files
+   */
+  deleteAll(): void {
+    this.db.exec('DELETE FROM import_state');
+  }
+
+  private mapRowToImportState(row: any): ImportState {
+    return {
+      provider: row.provider,
+      sourcePath: row.source_path,
+      size: row.size,
+      mtimeMs: row.mtime_ms,
+      contentHash: row.content_hash,
+      sessionId: row.session_id || undefined,
+      importedAt: row.imported_at
+    };
+  }
+}
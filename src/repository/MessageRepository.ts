@@ -1,5 +1,32 @@
 import Database from 'better-sqlite3';
-import { RenderableMessage } from '../types';
+import { MessageContent, RenderableMessage } from '../types';
+import { Page, toPage } from '../utils/cursor';
+
+/**
+ * Sort key of the last message on a page
+ */
+export type MessageCursor = {
+  sequence: number;
+};
+
+/**
+ * Inclusive bounds on message sequence numbers
+ */
+export interface MessageRange {
+  from?: number;
+  to?: number;
+}
+
+// Messages with a parsable timestamp before the cutoff whose content was not stripped yet
+const STRIPPABLE_CONDITION = `
+  card_type IN (SELECT value FROM json_each(@cardTypes))
+  AND julianday(timestamp) < julianday(@cutoff)
+  AND content_json != @contentJson
+`;
+
+function toStripParams(cardTypes: string[], cutoff: string, content: MessageContent[]) {
+  return { cardTypes: JSON.stringify(cardTypes), cutoff, contentJson: JSON.stringify(content) };
+}
 
 /**
  * Repository for messages table operations
@@ -14,11 +41,13 @@ export class MessageRepository {
     const stmt = this.db.prepare(`
       INSERT INTO messages (
         session_id, sequence, card_type, title, subtitle, content_json,
-        timestamp, can_expand, is_error, created_at
+        timestamp, can_expand, is_error, input_tokens, output_tokens,
+        cache_read_tokens, cache_write_tokens, model, created_at
       )
       VALUES (
         @sessionId, @sequence, @cardType, @title, @subtitle, @contentJson,
-        @timestamp, @canExpand, @isError, @createdAt
+        @timestamp, @canExpand, @isError, @inputTokens, @outputTokens,
+        @cacheReadTokens, @cacheWriteTokens, @model, @createdAt
       )
       ON CONFLICT(session_id, sequence) DO UPDATE SET
         card_type = excluded.card_type,
@@ -28,6 +57,11 @@ export class MessageRepository {
         timestamp = excluded.timestamp,
         can_expand = excluded.can_expand,
         is_error = excluded.is_error,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        cache_read_tokens = excluded.cache_read_tokens,
+        cache_write_tokens = excluded.cache_write_tokens,
+        model = excluded.model,
         created_at = excluded.created_at
       RETURNING id
     `);
@@ -42,6 +76,11 @@ export class MessageRepository {
       timestamp: message.timestamp,
       canExpand: message.canExpand ? 1 : 0,
       isError: message.isError ? 1 : 0,
+      inputTokens: message.usage?.input ?? null,
+      outputTokens: message.usage?.output ?? null,
+      cacheReadTokens: message.usage?.cacheRead ?? null,
+      cacheWriteTokens: message.usage?.cacheWrite ?? null,
+      model: message.model || null,
       createdAt: message.createdAt
     }) as { id: number };
     
@@ -58,6 +97,28 @@ export class MessageRepository {
     return rows.map(row => this.mapRowToMessage(row));
   }
 
+  /**
+   * Messages of a session one page at a time in display order
+   * @param range Inclusive sequence bounds
+   * @param after Sort key of the last message of the previous page
+   */
+  getPageBySessionId(sessionId: number, limit: number, range: MessageRange = {}, after?: MessageCursor): Page<RenderableMessage> {
+    const conditions = ['session_id = @sessionId'];
+    if (range.from !== undefined) conditions.push('sequence >= @from');
+    if (range.to !== undefined) conditions.push('sequence <= @to');
+    if (after) conditions.push('sequence > @sequence');
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY sequence ASC
+      LIMIT @limit
+    `);
+
+    const rows = (stmt.all({ ...range, ...after, sessionId, limit: limit + 1 }) as any[]).map(row => this.mapRowToMessage(row));
+    return toPage(rows, limit, message => ({ sequence: message.sequence }));
+  }
+
   /**
    * Get total count of messages
    */
@@ -83,6 +144,31 @@ export class MessageRepository {
     stmt.run(sessionId, minSequence);
   }
 
+  /**
+   * Count the messages stripContent would change and the size of their content
+   * @param excludeSessionIds Session UUIDs to leave out, e.g. those about to be deleted
+   */
+  getStrippableStats(cardTypes: string[], cutoff: string, content: MessageContent[], excludeSessionIds: string[] = []): { count: number; bytes: number } {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(content_json)), 0) AS bytes
+      FROM messages
+      WHERE ${STRIPPABLE_CONDITION}
+        AND session_id NOT IN (SELECT id FROM sessions WHERE session_id IN (SELECT value FROM json_each(@excluded)))
+    `);
+
+    return stmt.get({ ...toStripParams(cardTypes, cutoff, content), excluded: JSON.stringify(excludeSessionIds) }) as { count: number; bytes: number };
+  }
+
+  /**
+   * Replace the content of messages of the given card types older than the cutoff
+   * Token usage and the other columns stay, so statistics are unaffected.
+   * @returns the number of changed messages
+   */
+  stripContent(cardTypes: string[], cutoff: string, content: MessageContent[]): number {
+    const stmt = this.db.prepare(`UPDATE messages SET content_json = @contentJson WHERE ${STRIPPABLE_CONDITION}`);
+    return stmt.run(toStripParams(cardTypes, cutoff, content)).changes;
+  }
+
   private mapRowToMessage(row: any): RenderableMessage {
     return {
       id: row.id,
@@ -95,6 +181,13 @@ export class MessageRepository {
       timestamp: row.timestamp,
       canExpand: row.can_expand === 1,
       isError: row.is_error === 1,
+      usage: row.input_tokens !== null && row.input_tokens !== undefined ? {
+        input: row.input_tokens,
+        output: row.output_tokens || 0,
+        cacheRead: row.cache_read_tokens || 0,
+        cacheWrite: row.cache_write_tokens || 0
+      } : undefined,
+      model: row.model || undefined,
       createdAt: row.created_at
     };
   }
@@ -1,5 +1,34 @@
 import Database from 'better-sqlite3';
 import { Project } from '../types';
+import { Page, toPage } from '../utils/cursor';
+
+/**
+ * Project with aggregated session info, as listed in the UI and the REST API
+ */
+export interface ProjectSummary {
+  id: number;
+  projectUuid: string;
+  name: string;
+  path?: string;
+  sessionCount: number;
+  providers: string[];
+  updatedAt: string;
+}
+
+/**
+ * Sort key of the last project on a page
+ */
+export type ProjectCursor = {
+  updatedAt: string;
+  id: number;
+};
+
+const PROJECT_SUMMARY_SQL = `
+  SELECT p.id, p.project_uuid, p.name, p.path, p.updated_at, COUNT(s.id) as session_count,
+         GROUP_CONCAT(DISTINCT s.provider) as providers
+  FROM projects p
+  LEFT JOIN sessions s ON p.id = s.project_id
+`;
 
 /**
  * Repository for projects table operations
@@ -32,6 +61,22 @@ export class ProjectRepository {
     return result.id;
   }
 
+  /**
+   * Delete a project; its sessions and messages are removed by the foreign key cascade
+   * @returns the number of deleted projects
+   */
+  deleteByUuid(projectUuid: string): number {
+    return this.db.prepare('DELETE FROM projects WHERE project_uuid = ?').run(projectUuid).changes;
+  }
+
+  /**
+   * Delete projects that have no sessions left
+   * @returns the number of deleted projects
+   */
+  deleteEmpty(): number {
+    return this.db.prepare('DELETE FROM projects WHERE id NOT IN (SELECT project_id FROM sessions)').run().changes;
+  }
+
   /**
    * Get project by UUID
    */
@@ -44,36 +89,46 @@ export class ProjectRepository {
     return this.mapRowToProject(row);
   }
 
+  /**
+   * Get project by database ID
+   */
+  getById(id: number): Project | undefined {
+    const stmt = this.db.prepare('SELECT * FROM projects WHERE id = ?');
+    const row = stmt.get(id) as any;
+
+    if (!row) return undefined;
+
+    return this.mapRowToProject(row);
+  }
+
   /**
    * List all projects with aggregated session info
    */
-  listAll(): Array<{
-    id: number;
-    projectUuid: string;
-    name: string;
-    path?: string;
-    sessionCount: number;
-    providers: string[];
-    updatedAt: string;
-  }> {
+  listAll(): ProjectSummary[] {
     const stmt = this.db.prepare(`
-      SELECT p.id, p.project_uuid, p.name, p.path, p.updated_at, COUNT(s.id) as session_count,
-             GROUP_CONCAT(DISTINCT s.provider) as providers
-      FROM projects p
-      LEFT JOIN sessions s ON p.id = s.project_id
+      ${PROJECT_SUMMARY_SQL}
       GROUP BY p.id
       ORDER BY p.updated_at DESC
     `);
 
-    return stmt.all().map((row: any) => ({
-      id: row.id,
-      projectUuid: row.project_uuid,
-      name: row.name,
-      path: row.path,
-      sessionCount: row.session_count,
-      providers: row.providers ? row.providers.split(',') : [],
-      updatedAt: row.updated_at
-    }));
+    return stmt.all().map((row: any) => this.mapRowToSummary(row));
+  }
+
+  /**
+   * List projects one page at a time, most recently updated first
+   * @param after Sort key of the last project of the previous page
+   */
+  listPage(limit: number, after?: ProjectCursor): Page<ProjectSummary> {
+    const stmt = this.db.prepare(`
+      ${PROJECT_SUMMARY_SQL}
+      ${after ? 'WHERE p.updated_at < @updatedAt OR (p.updated_at = @updatedAt AND p.id < @id)' : ''}
+      GROUP BY p.id
+      ORDER BY p.updated_at DESC, p.id DESC
+      LIMIT @limit
+    `);
+
+    const rows = stmt.all({ ...after, limit: limit + 1 }).map((row: any) => this.mapRowToSummary(row));
+    return toPage(rows, limit, project => ({ updatedAt: project.updatedAt, id: project.id }));
   }
 
   /**
@@ -84,6 +139,18 @@ export class ProjectRepository {
     return result.count;
   }
 
+  private mapRowToSummary(row: any): ProjectSummary {
+    return {
+      id: row.id,
+      projectUuid: row.project_uuid,
+      name: row.name,
+      path: row.path,
+      sessionCount: row.session_count,
+      providers: row.providers ? row.providers.split(',') : [],
+      updatedAt: row.updated_at
+    };
+  }
+
   private mapRowToProject(row: any): Project {
     return {
       id: row.id,
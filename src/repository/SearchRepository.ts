@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { parseSearchQuery, SearchField } from '../utils/searchQuery';
 
 export interface SearchEntry {
   content: string;
@@ -8,6 +9,11 @@ export interface SearchEntry {
   sessionTitle: string;
   projectName: string;
   timestamp: string;
+  provider: string;
+  gitBranch?: string;
+  /** Tool name of tool-use cards */
+  toolName?: string;
+  isError?: boolean;
 }
 
 export interface SearchResult {
@@ -18,26 +24,181 @@ export interface SearchResult {
   sessionTitle: string;
   projectName: string;
   timestamp: string;
+  provider: string;
   score: number;
 }
 
+/**
+ * Restrictions applied to a search on top of the full-text query
+ */
+export interface SearchFilter {
+  /** Project UUID */
+  projectId?: string;
+  provider?: string;
+  cardType?: string;
+  gitBranch?: string;
+  /** Only messages marked as errors */
+  errorsOnly?: boolean;
+  after?: Date;
+  before?: Date;
+}
+
+export const SEARCH_SORTS = ['relevance', 'newest', 'oldest'] as const;
+
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+export interface FacetCount {
+  value: string;
+  /** Matching sessions */
+  count: number;
+}
+
+/**
+ * Matching sessions per filter value. Each facet ignores its own filter,
+ * so the counts show what selecting another value would return.
+ */
+export interface SearchFacets {
+  providers: FacetCount[];
+  cardTypes: FacetCount[];
+  branches: FacetCount[];
+  /** Sessions with matches in the last day, week, month and year */
+  ranges: FacetCount[];
+  /** Sessions with matching error messages */
+  errors: number;
+}
+
+/** Date range facets, in hours back from now */
+export const SEARCH_RANGES: Record<string, number> = {
+  '24h': 24,
+  '7d': 24 * 7,
+  '30d': 24 * 30,
+  '1y': 24 * 365,
+};
+
+/**
+ * A session matching a search, with its best scoring messages
+ */
+export interface SessionSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  projectId: string;
+  projectName: string;
+  provider: string;
+  /** Score of the best matching message */
+  score: number;
+  /** Number of matching messages in the session */
+  matchCount: number;
+  matches: SearchResult[];
+}
+
+export interface SessionSearchPage {
+  /** Number of matching sessions across all pages */
+  total: number;
+  /** Set when total is only a lower bound (hybrid search before its last page) */
+  totalIsLowerBound?: boolean;
+  results: SessionSearchResult[];
+}
+
+export interface SessionSearchOptions extends SearchFilter {
+  limit?: number;
+  offset?: number;
+  /** Matches returned per session */
+  matchesPerSession?: number;
+  /** Order of sessions: best match (default) or most recent / oldest match */
+  sort?: SearchSort;
+}
+
+/**
+ * A session that shares distinctive terms with another one
+ */
+export interface SimilarSession {
+  sessionId: string;
+  sessionTitle: string;
+  projectId: string;
+  projectName: string;
+  provider: string;
+  /** Weighted share of the source session's terms found in this session, 0 to 1 */
+  score: number;
+  /** Terms and file names both sessions mention, most distinctive first */
+  sharedTerms: string[];
+}
+
+// What a session is about: its prompts and tool inputs (commands, file paths, patterns)
+const SIMILARITY_CARD_TYPES = "card_type IN ('user', 'tool-use')";
+// Terms looked up in the index (file names first, they are the most distinctive), and terms finally compared
+const MAX_CANDIDATE_TERMS = 40;
+const MAX_CANDIDATE_PATHS = 20;
+const MAX_SIMILARITY_TERMS = 12;
+// Sessions whose similar sessions are kept until the index changes
+const SIMILAR_CACHE_SIZE = 200;
+// Words too generic to tell sessions apart, even in small archives where document frequency cannot tell
+const COMMON_WORDS = new Set([
+  'about', 'also', 'back', 'been', 'before', 'being', 'both', 'check', 'code', 'command', 'content', 'could',
+  'description', 'does', 'done', 'each', 'false', 'file', 'files', 'first', 'from', 'have', 'here', 'into',
+  'just', 'like', 'make', 'more', 'most', 'need', 'only', 'other', 'path', 'pattern', 'please', 'should',
+  'some', 'still', 'string', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'true', 'undefined', 'null', 'using', 'want', 'what', 'when', 'where', 'which', 'will', 'with', 'would', 'your',
+]);
+
 // BM25 column weights: content, session_id, project_id, card_type, session_title, project_name
 const BM25_WEIGHTS = '10.0, 0.0, 0.0, 0.0, 5.0, 2.0';
 const MAX_LIMIT = 100;
 
+// SQL conditions for the field filters of the query language, given a parameter placeholder
+const FIELD_CONDITIONS: Record<SearchField, (param: string) => string> = {
+  type: (param) => `card_type = ${param}`,
+  project: (param) => `(project_name = ${param} OR project_id = ${param})`,
+  provider: (param) => `provider = ${param}`,
+  branch: (param) => `git_branch = ${param}`,
+  tool: (param) => `tool_name = ${param} COLLATE NOCASE`,
+  before: (param) => `time < ${param}`,
+  after: (param) => `time >= ${param}`,
+};
+
+// Columns of fields that can be NULL; a negated filter must keep rows without a value
+const NULLABLE_FIELD_COLUMNS: Partial<Record<SearchField, string>> = {
+  project: 'project_name',
+  provider: 'provider',
+  branch: 'git_branch',
+  tool: 'tool_name',
+};
+
+// ORDER BY of grouped sessions per sort mode
+const SESSION_ORDER: Record<SearchSort, string> = {
+  relevance: 'score DESC, lastTime DESC, sessionId ASC',
+  newest: 'lastTime DESC, sessionId ASC',
+  oldest: 'firstTime ASC, sessionId ASC',
+};
+
+interface CompiledSearch {
+  where: string;
+  params: Record<string, string | number>;
+  /** Relevance expression, higher is better */
+  score: string;
+  /** Content expression, highlighted when there is a full-text query */
+  content: string;
+  /** ORDER BY terms for single messages, best first */
+  order: string;
+}
+
 /**
  * Repository for FTS5 search operations on search_messages
  */
 export class SearchRepository {
+  private similarCache = new Map<string, SimilarSession[]>();
+  private similarCacheVersion = '';
+  private writes = 0;
+
   constructor(private db: Database.Database) {}
 
   /**
    * Insert a search entry into the FTS5 table
    */
   insert(entry: SearchEntry): void {
+    this.writes++;
     const stmt = this.db.prepare(`
-      INSERT INTO search_messages (content, session_id, project_id, card_type, session_title, project_name, timestamp)
-      VALUES (@content, @sessionId, @projectId, @cardType, @sessionTitle, @projectName, @timestamp)
+      INSERT INTO search_messages (content, session_id, project_id, card_type, session_title, project_name, timestamp, provider, git_branch, tool_name, is_error, time)
+      VALUES (@content, @sessionId, @projectId, @cardType, @sessionTitle, @projectName, @timestamp, @provider, @gitBranch, @toolName, @isError, @time)
     `);
 
     stmt.run({
@@ -48,6 +209,12 @@ export class SearchRepository {
       sessionTitle: entry.sessionTitle,
       projectName: entry.projectName,
       timestamp: entry.timestamp,
+      provider: entry.provider,
+      gitBranch: entry.gitBranch || null,
+      toolName: entry.toolName || null,
+      isError: entry.isError ? 1 : 0,
+      // Providers write timestamps in different formats; epoch ms sorts and compares reliably
+      time: Number.isNaN(Date.parse(entry.timestamp)) ? null : Date.parse(entry.timestamp),
     });
   }
 
@@ -55,61 +222,370 @@ export class SearchRepository {
    * Delete all search entries for a session UUID
    */
   deleteBySessionId(sessionId: string): void {
+    this.writes++;
     const stmt = this.db.prepare(
       `DELETE FROM search_messages WHERE session_id = ?`
     );
     stmt.run(sessionId);
   }
 
+  /**
+   * Delete all search entries for a project UUID
+   */
+  deleteByProjectId(projectId: string): void {
+    this.writes++;
+    this.db.prepare('DELETE FROM search_messages WHERE project_id = ?').run(projectId);
+  }
+
+  /**
+   * Delete the entries of messages of the given card types older than a point in time
+   * @param before Epoch milliseconds
+   */
+  deleteByCardTypesBefore(cardTypes: string[], before: number): void {
+    this.writes++;
+    this.db.prepare('DELETE FROM search_messages WHERE card_type IN (SELECT value FROM json_each(?)) AND time < ?').run(JSON.stringify(cardTypes), before);
+  }
+
   /**
    * Full-text search with BM25 weighted scoring, newer messages as tiebreaker
+   * @throws SearchQueryError if the query is malformed
    */
   search(query: string, limit = 50): SearchResult[] {
-    const safeLimit = Math.min(limit, MAX_LIMIT);
-    const ftsQuery = this.escapeFts5Query(query);
-
-    const stmt = this.db.prepare(`
-      SELECT
-        highlight(search_messages, 0, '<mark>', '</mark>') AS content,
-        session_id AS sessionId,
-        project_id AS projectId,
-        card_type AS cardType,
-        session_title AS sessionTitle,
-        project_name AS projectName,
-        timestamp,
-        ROUND(-bm25(search_messages, ${BM25_WEIGHTS}), 2) AS score
-      FROM search_messages
-      WHERE search_messages MATCH ?
-      ORDER BY bm25(search_messages, ${BM25_WEIGHTS}), timestamp DESC
-      LIMIT ?
-    `);
-    return stmt.all(ftsQuery, safeLimit) as SearchResult[];
+    return this.searchMessages(query, {}, limit);
   }
 
   /**
    * Full-text search filtered by project name
+   * @throws SearchQueryError if the query is malformed
    */
   searchByProject(projectName: string, query: string, limit = 50): SearchResult[] {
-    const safeLimit = Math.min(limit, MAX_LIMIT);
-    const ftsQuery = this.escapeFts5Query(query);
+    return this.searchMessages(query, { projectName }, limit);
+  }
+
+  /**
+   * Full-text search grouped by session, ranked by each session's best match
+   * total counts all matching sessions, so offset pages through the complete result
+   * @throws SearchQueryError if the query is malformed
+   */
+  searchSessions(query: string, options: SessionSearchOptions = {}): SessionSearchPage {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_LIMIT);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const matchesPerSession = Math.min(Math.max(options.matchesPerSession ?? 5, 0), MAX_LIMIT);
+    const sql = this.buildQuery(query, options);
+
+    const total = (this.db.prepare(`
+      SELECT COUNT(DISTINCT session_id) AS count
+      FROM search_messages
+      WHERE ${sql.where}
+    `).get(sql.params) as any).count as number;
+
+    // bm25() is not allowed inside aggregates, so score the matches in a materialized CTE first
+    const sessions = this.db.prepare(`
+      WITH matches AS MATERIALIZED (
+        SELECT
+          session_id AS sessionId,
+          session_title AS sessionTitle,
+          project_id AS projectId,
+          project_name AS projectName,
+          provider,
+          time,
+          ${sql.score} AS score
+        FROM search_messages
+        WHERE ${sql.where}
+      )
+      SELECT
+        sessionId,
+        MAX(sessionTitle) AS sessionTitle,
+        MAX(projectId) AS projectId,
+        MAX(projectName) AS projectName,
+        MAX(provider) AS provider,
+        ROUND(MAX(score), 2) AS score,
+        COUNT(*) AS matchCount,
+        MAX(time) AS lastTime,
+        MIN(time) AS firstTime
+      FROM matches
+      GROUP BY sessionId
+      ORDER BY ${SESSION_ORDER[options.sort || 'relevance']}
+      LIMIT @limit OFFSET @offset
+    `).all({ ...sql.params, limit, offset }) as any[];
+
+    const matchStmt = this.db.prepare(`
+      ${this.selectResults(sql)}
+      WHERE ${sql.where} AND session_id = @sessionId
+      ORDER BY ${sql.order}
+      LIMIT @matchesPerSession
+    `);
+
+    const results = sessions.map(row => ({
+      sessionId: row.sessionId,
+      sessionTitle: row.sessionTitle,
+      projectId: row.projectId,
+      projectName: row.projectName,
+      provider: row.provider,
+      score: row.score,
+      matchCount: row.matchCount,
+      matches: matchesPerSession > 0
+        ? matchStmt.all({ ...sql.params, sessionId: row.sessionId, matchesPerSession }) as SearchResult[]
+        : []
+    }));
+
+    return { total, results };
+  }
+
+  private searchMessages(query: string, filter: SearchFilter & { projectName?: string }, limit: number): SearchResult[] {
+    const sql = this.buildQuery(query, filter);
+    if (filter.projectName) {
+      sql.where += ' AND project_name = @projectName';
+      sql.params.projectName = filter.projectName;
+    }
 
     const stmt = this.db.prepare(`
+      ${this.selectResults(sql)}
+      WHERE ${sql.where}
+      ORDER BY ${sql.order}
+      LIMIT @limit
+    `);
+    return stmt.all({ ...sql.params, limit: Math.min(limit, MAX_LIMIT) }) as SearchResult[];
+  }
+
+  private selectResults(sql: CompiledSearch): string {
+    return `
       SELECT
-        highlight(search_messages, 0, '<mark>', '</mark>') AS content,
+        ${sql.content} AS content,
         session_id AS sessionId,
         project_id AS projectId,
         card_type AS cardType,
         session_title AS sessionTitle,
         project_name AS projectName,
         timestamp,
-        ROUND(-bm25(search_messages, ${BM25_WEIGHTS}), 2) AS score
+        provider,
+        ROUND(${sql.score}, 2) AS score
+      FROM search_messages
+    `;
+  }
+
+  /**
+   * Compile a user query and filters into a WHERE clause with named parameters
+   * Queries made of field filters only have no MATCH, so they cannot be ranked or highlighted
+   */
+  private buildQuery(query: string, filter: SearchFilter): CompiledSearch {
+    const parsed = parseSearchQuery(query);
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (parsed.match) {
+      conditions.push('search_messages MATCH @query');
+      params.query = parsed.match;
+    }
+
+    if (filter.projectId) {
+      conditions.push('project_id = @projectId');
+      params.projectId = filter.projectId;
+    }
+    if (filter.provider) {
+      conditions.push('provider = @provider');
+      params.provider = filter.provider;
+    }
+    if (filter.cardType) {
+      conditions.push('card_type = @cardType');
+      params.cardType = filter.cardType;
+    }
+    if (filter.gitBranch) {
+      conditions.push('git_branch = @gitBranch');
+      params.gitBranch = filter.gitBranch;
+    }
+    if (filter.errorsOnly) {
+      conditions.push('is_error = 1');
+    }
+    if (filter.after) {
+      conditions.push('time >= @after');
+      params.after = filter.after.getTime();
+    }
+    if (filter.before) {
+      conditions.push('time < @before');
+      params.before = filter.before.getTime();
+    }
+
+    // Repeated filters on one field match any of their values
+    const groups = new Map<string, string[]>();
+    parsed.filters.forEach((queryFilter, index) => {
+      const name = `filter${index}`;
+      const isDate = queryFilter.field === 'before' || queryFilter.field === 'after';
+      params[name] = isDate ? Date.parse(queryFilter.value) : queryFilter.value;
+
+      const key = `${queryFilter.negated ? '-' : ''}${queryFilter.field}`;
+      groups.set(key, [...(groups.get(key) || []), FIELD_CONDITIONS[queryFilter.field](`@${name}`)]);
+    });
+    groups.forEach((alternatives, key) => {
+      const condition = alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(' OR ')})`;
+      if (!key.startsWith('-')) {
+        conditions.push(condition);
+        return;
+      }
+
+      const column = NULLABLE_FIELD_COLUMNS[key.slice(1) as SearchField];
+      conditions.push(column ? `(${column} IS NULL OR NOT ${condition})` : `NOT ${condition}`);
+    });
+
+    return {
+      where: conditions.join(' AND '),
+      params,
+      score: parsed.match ? `-bm25(search_messages, ${BM25_WEIGHTS})` : '0',
+      content: parsed.match ? "highlight(search_messages, 0, '<mark>', '</mark>')" : 'content',
+      order: parsed.match ? `bm25(search_messages, ${BM25_WEIGHTS}), timestamp DESC` : 'timestamp DESC'
+    };
+  }
+
+  /**
+   * Count matching sessions per provider, card type, branch, date range and for errors
+   * @throws SearchQueryError if the query is malformed
+   */
+  getFacets(query: string, filter: SearchFilter = {}, now: number = Date.now()): SearchFacets {
+    const countBy = (column: string, without: SearchFilter): FacetCount[] => {
+      const sql = this.buildQuery(query, without);
+      return this.db.prepare(`
+        SELECT ${column} AS value, COUNT(DISTINCT session_id) AS count
+        FROM search_messages
+        WHERE ${sql.where} AND ${column} IS NOT NULL AND ${column} != ''
+        GROUP BY ${column}
+        ORDER BY count DESC, value ASC
+        LIMIT 20
+      `).all(sql.params) as FacetCount[];
+    };
+
+    const rangeSql = this.buildQuery(query, { ...filter, after: undefined, before: undefined });
+    const rangeRow = this.db.prepare(`
+      SELECT ${Object.keys(SEARCH_RANGES).map((_, i) => `COUNT(DISTINCT CASE WHEN time >= @range${i} THEN session_id END) AS r${i}`).join(', ')}
+      FROM search_messages
+      WHERE ${rangeSql.where}
+    `).get({
+      ...rangeSql.params,
+      ...Object.fromEntries(Object.values(SEARCH_RANGES).map((hours, i) => [`range${i}`, now - hours * 3600 * 1000]))
+    }) as any;
+
+    const errorSql = this.buildQuery(query, { ...filter, errorsOnly: true });
+    const errorRow = this.db.prepare(`
+      SELECT COUNT(DISTINCT session_id) AS count
       FROM search_messages
-      WHERE search_messages MATCH ?
-        AND project_name = ?
-      ORDER BY bm25(search_messages, ${BM25_WEIGHTS}), timestamp DESC
-      LIMIT ?
+      WHERE ${errorSql.where}
+    `).get(errorSql.params) as any;
+
+    return {
+      providers: countBy('provider', { ...filter, provider: undefined }),
+      cardTypes: countBy('card_type', { ...filter, cardType: undefined }),
+      branches: countBy('git_branch', { ...filter, gitBranch: undefined }),
+      ranges: Object.keys(SEARCH_RANGES).map((value, i) => ({ value, count: rangeRow[`r${i}`] })),
+      errors: errorRow.count
+    };
+  }
+
+  /**
+   * Other sessions ranked by the distinctive terms they share with a session:
+   * words of its prompts, file names and tool inputs, weighted by how rare they are
+   */
+  findSimilarSessions(sessionId: string, limit = 10): SimilarSession[] {
+    // data_version changes when another connection (e.g. an import) commits; writes counts our own
+    const version = `${this.db.pragma('data_version', { simple: true })}:${this.writes}`;
+    if (version !== this.similarCacheVersion) {
+      this.similarCache.clear();
+      this.similarCacheVersion = version;
+    }
+
+    const key = `${sessionId}:${limit}`;
+    let similar = this.similarCache.get(key);
+    if (!similar) {
+      similar = this.computeSimilarSessions(sessionId, limit);
+      if (this.similarCache.size >= SIMILAR_CACHE_SIZE) {
+        this.similarCache.delete(this.similarCache.keys().next().value as string);
+      }
+      this.similarCache.set(key, similar);
+    }
+    return similar;
+  }
+
+  private computeSimilarSessions(sessionId: string, limit: number): SimilarSession[] {
+    const texts = (this.db.prepare(`
+      SELECT content FROM search_messages WHERE session_id = ? AND ${SIMILARITY_CARD_TYPES}
+    `).all(sessionId) as Array<{ content: string }>).map(row => row.content);
+
+    const sessionCount = (this.db.prepare(
+      'SELECT COUNT(DISTINCT session_id) AS count FROM search_messages'
+    ).get() as any).count as number;
+    if (texts.length === 0 || sessionCount < 2) return [];
+
+    // Terms in more than half of the sessions are dropped anyway, so counting stops there
+    const maxSessions = Math.max(2, Math.floor(sessionCount / 2));
+    const countSessions = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM (
+        SELECT DISTINCT session_id
+        FROM search_messages
+        WHERE search_messages MATCH @match AND ${SIMILARITY_CARD_TYPES}
+        LIMIT @cap
+      )
+    `);
+    const matchingSessions = this.db.prepare(`
+      SELECT DISTINCT session_id AS sessionId
+      FROM search_messages
+      WHERE search_messages MATCH @match AND ${SIMILARITY_CARD_TYPES} AND session_id != @sessionId
+    `);
+
+    // Terms found in no other session say nothing; terms found in most sessions say little
+    const candidates = extractSimilarityTerms(texts);
+    const paths = candidates.filter(term => term.isPath).slice(0, MAX_CANDIDATE_PATHS);
+    const words = candidates.filter(term => !term.isPath).slice(0, MAX_CANDIDATE_TERMS - paths.length);
+    const terms = [...paths, ...words]
+      .map(term => {
+        const match = `content : ${this.escapeFts5Query(term.text)}`;
+        const sessions = (countSessions.get({ match, cap: maxSessions + 1 }) as any).count as number;
+        const idf = Math.log(sessionCount / Math.max(sessions, 1));
+        return { ...term, match, weight: idf * (1 + Math.log(term.count)) * (term.isPath ? 2 : 1), sessions };
+      })
+      .filter(term => term.sessions > 1 && term.sessions <= maxSessions)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_SIMILARITY_TERMS);
+
+    const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0);
+    const scores = new Map<string, { weight: number; sharedTerms: string[] }>();
+    for (const term of terms) {
+      for (const row of matchingSessions.all({ match: term.match, sessionId }) as Array<{ sessionId: string }>) {
+        const entry = scores.get(row.sessionId) || { weight: 0, sharedTerms: [] };
+        entry.weight += term.weight;
+        entry.sharedTerms.push(term.text);
+        scores.set(row.sessionId, entry);
+      }
+    }
+
+    const details = this.db.prepare(`
+      SELECT session_title AS sessionTitle, project_id AS projectId, project_name AS projectName, provider
+      FROM search_messages
+      WHERE session_id = ?
+      LIMIT 1
     `);
-    return stmt.all(ftsQuery, projectName, safeLimit) as SearchResult[];
+
+    return [...scores.entries()]
+      .sort(([idA, a], [idB, b]) => b.weight - a.weight || idA.localeCompare(idB))
+      .slice(0, limit)
+      .map(([id, entry]) => ({
+        sessionId: id,
+        ...(details.get(id) as Omit<SimilarSession, 'sessionId' | 'score' | 'sharedTerms'>),
+        score: Math.round(entry.weight / totalWeight * 100) / 100,
+        sharedTerms: entry.sharedTerms,
+      }));
+  }
+
+  /**
+   * Whether the index holds no entries at all
+   */
+  isEmpty(): boolean {
+    return !this.db.prepare('SELECT 1 FROM search_messages LIMIT 1').get();
+  }
+
+  /**
+   * Remove all entries, e.g. before rebuilding the index
+   */
+  clear(): void {
+    this.writes++;
+    this.db.exec('DELETE FROM search_messages');
   }
 
   /**
@@ -146,3 +622,28 @@ export class SearchRepository {
     this.db.exec("INSERT INTO search_messages(search_messages) VALUES('optimize')");
   }
 }
+
+/**
+ * Candidate terms of a session, most frequent first: file names (from paths) and words
+ * Terms are at least four characters, as the trigram index cannot match shorter ones reliably.
+ */
+function extractSimilarityTerms(texts: string[]): Array<{ text: string; count: number; isPath: boolean }> {
+  const terms = new Map<string, { text: string; count: number; isPath: boolean }>();
+  const add = (text: string, isPath: boolean) => {
+    const term = terms.get(text) || { text, count: 0, isPath };
+    term.count++;
+    terms.set(text, term);
+  };
+
+  for (const text of texts) {
+    for (const path of text.match(/[\w./-]*[A-Za-z_-][\w-]*\.[A-Za-z][A-Za-z0-9]{0,5}\b/g) || []) {
+      const fileName = path.slice(path.lastIndexOf('/') + 1);
+      if (fileName.length >= 4) add(fileName, true);
+    }
+    for (const word of text.toLowerCase().match(/\p{L}[\p{L}\p{N}_]{3,}/gu) || []) {
+      if (!COMMON_WORDS.has(word)) add(word, false);
+    }
+  }
+
+  return [...terms.values()].sort((a, b) => b.count - a.count || Number(b.isPath) - Number(a.isPath));
+}
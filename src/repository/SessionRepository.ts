@@ -1,5 +1,14 @@
 import Database from 'better-sqlite3';
-import { Session } from '../types';
+import { Session, SessionManifestEntry } from '../types';
+import { Page, toPage } from '../utils/cursor';
+
+/**
+ * Sort key of the last session on a page
+ */
+export type SessionCursor = {
+  updatedAt: string;
+  id: number;
+};
 
 /**
  * Repository for sessions table operations
@@ -14,11 +23,13 @@ export class SessionRepository {
     const stmt = this.db.prepare(`
       INSERT INTO sessions (
         project_id, session_id, title, provider, version, git_branch, cwd,
-        models_json, created, modified, message_count, created_at, updated_at
+        models_json, created, modified, message_count, input_tokens, output_tokens,
+        cache_read_tokens, cache_write_tokens, usage_json, created_at, updated_at
       )
       VALUES (
         @projectId, @sessionId, @title, @provider, @version, @gitBranch, @cwd,
-        @modelsJson, @created, @modified, @messageCount, @createdAt, @updatedAt
+        @modelsJson, @created, @modified, @messageCount, @inputTokens, @outputTokens,
+        @cacheReadTokens, @cacheWriteTokens, @usageJson, @createdAt, @updatedAt
       )
       ON CONFLICT(project_id, session_id) DO UPDATE SET
         title = excluded.title,
@@ -30,6 +41,11 @@ export class SessionRepository {
         created = excluded.created,
         modified = excluded.modified,
         message_count = excluded.message_count,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        cache_read_tokens = excluded.cache_read_tokens,
+        cache_write_tokens = excluded.cache_write_tokens,
+        usage_json = excluded.usage_json,
         updated_at = excluded.updated_at
       RETURNING id
     `);
@@ -46,6 +62,11 @@ export class SessionRepository {
       created: session.created || null,
       modified: session.modified || null,
       messageCount: session.messageCount,
+      inputTokens: session.inputTokens ?? null,
+      outputTokens: session.outputTokens ?? null,
+      cacheReadTokens: session.cacheReadTokens ?? null,
+      cacheWriteTokens: session.cacheWriteTokens ?? null,
+      usageJson: session.usageJson || null,
       createdAt: session.createdAt,
       updatedAt: session.updatedAt
     }) as { id: number };
@@ -53,6 +74,36 @@ export class SessionRepository {
     return result.id;
   }
 
+  /**
+   * Delete sessions by UUID; their messages are removed by the foreign key cascade
+   * @returns the number of deleted sessions
+   */
+  deleteBySessionId(sessionId: string): number {
+    return this.db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId).changes;
+  }
+
+  /**
+   * Session UUIDs not updated since a point in time
+   */
+  getSessionIdsUpdatedBefore(cutoff: string): string[] {
+    const stmt = this.db.prepare('SELECT session_id FROM sessions WHERE julianday(updated_at) < julianday(?)');
+    return (stmt.all(cutoff) as any[]).map(row => row.session_id);
+  }
+
+  /**
+   * Session UUIDs beyond the most recently updated `limit` sessions of each project
+   */
+  getSessionIdsBeyondProjectLimit(limit: number): string[] {
+    const stmt = this.db.prepare(`
+      SELECT session_id FROM (
+        SELECT session_id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY updated_at DESC, id DESC) AS position
+        FROM sessions
+      )
+      WHERE position > ?
+    `);
+    return (stmt.all(limit) as any[]).map(row => row.session_id);
+  }
+
   /**
    * Get session by sessionId (UUID)
    */
@@ -87,6 +138,23 @@ export class SessionRepository {
     return rows.map(row => this.mapRowToSession(row));
   }
 
+  /**
+   * Sessions of a project one page at a time, most recently updated first
+   * @param after Sort key of the last session of the previous page
+   */
+  getPageByProjectId(projectId: number, limit: number, after?: SessionCursor): Page<Session> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sessions
+      WHERE project_id = @projectId
+      ${after ? 'AND (updated_at < @updatedAt OR (updated_at = @updatedAt AND id < @id))' : ''}
+      ORDER BY updated_at DESC, id DESC
+      LIMIT @limit
+    `);
+
+    const rows = (stmt.all({ ...after, projectId, limit: limit + 1 }) as any[]).map(row => this.mapRowToSession(row));
+    return toPage(rows, limit, session => ({ updatedAt: session.updatedAt, id: session.id! }));
+  }
+
   /**
    * List sessions for a project with timestamps
    */
@@ -112,6 +180,26 @@ export class SessionRepository {
     }));
   }
 
+  /**
+   * List all sessions with the fields needed to detect changes on push
+   */
+  getManifest(): SessionManifestEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT s.session_id, s.provider, s.message_count, s.updated_at, p.project_uuid
+      FROM sessions s
+      JOIN projects p ON p.id = s.project_id
+      ORDER BY s.id
+    `);
+
+    return (stmt.all() as any[]).map(row => ({
+      sessionId: row.session_id,
+      projectUuid: row.project_uuid,
+      provider: row.provider,
+      messageCount: row.message_count,
+      updatedAt: row.updated_at
+    }));
+  }
+
   /**
    * Get total count of sessions
    */
@@ -134,6 +222,11 @@ export class SessionRepository {
       created: row.created,
       modified: row.modified,
       messageCount: row.message_count,
+      inputTokens: row.input_tokens ?? undefined,
+      outputTokens: row.output_tokens ?? undefined,
+      cacheReadTokens: row.cache_read_tokens ?? undefined,
+      cacheWriteTokens: row.cache_write_tokens ?? undefined,
+      usageJson: row.usage_json || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
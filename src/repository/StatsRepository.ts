@@ -0,0 +1,265 @@
+import Database from 'better-sqlite3';
+
+export interface StatsFilter {
+  /** Only sessions started at or after this ISO date */
+  since?: string;
+  provider?: string;
+  projectUuid?: string;
+}
+
+export interface StatsTotals {
+  projects: number;
+  sessions: number;
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface StatsTimelineEntry {
+  date: string;
+  provider: string;
+  sessions: number;
+  messages: number;
+  tokens: number;
+}
+
+export interface StatsBreakdownEntry {
+  key: string;
+  sessions: number;
+  messages: number;
+  tokens: number;
+}
+
+export interface StatsModelEntry {
+  model: string;
+  /** Responses recorded for the model (from models_json) */
+  uses: number;
+  sessions: number;
+  tokens: number;
+}
+
+export interface StatsToolEntry {
+  tool: string;
+  uses: number;
+  errors: number;
+  errorRate: number;
+}
+
+export interface Stats {
+  totals: StatsTotals;
+  timeline: StatsTimelineEntry[];
+  providers: StatsBreakdownEntry[];
+  models: StatsModelEntry[];
+  projects: StatsBreakdownEntry[];
+  branches: StatsBreakdownEntry[];
+  tools: StatsToolEntry[];
+}
+
+const SESSION_TOKENS_SQL = `COALESCE(s.input_tokens, 0) + COALESCE(s.output_tokens, 0)
+  + COALESCE(s.cache_read_tokens, 0) + COALESCE(s.cache_write_tokens, 0)`;
+
+/** When the session started according to the provider, else when it was first seen */
+const SESSION_DATE_SQL = 'COALESCE(s.created, s.created_at)';
+
+/**
+ * Repository for usage analytics aggregated over sessions and messages
+ */
+export class StatsRepository {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * All statistics for the dashboard and the stats API
+   */
+  getStats(filter: StatsFilter = {}, limit = 20): Stats {
+    return {
+      totals: this.getTotals(filter),
+      timeline: this.getTimeline(filter),
+      providers: this.getBreakdown('s.provider', filter, limit),
+      models: this.getModels(filter, limit),
+      projects: this.getBreakdown('p.name', filter, limit),
+      branches: this.getBreakdown('s.git_branch', filter, limit),
+      tools: this.getTools(filter, limit)
+    };
+  }
+
+  getTotals(filter: StatsFilter = {}): StatsTotals {
+    const { where, params } = this.buildWhere(filter);
+    const row = this.db.prepare(`
+      SELECT
+        COUNT(DISTINCT s.project_id) as projects,
+        COUNT(*) as sessions,
+        COALESCE(SUM(s.message_count), 0) as messages,
+        COALESCE(SUM(s.input_tokens), 0) as input_tokens,
+        COALESCE(SUM(s.output_tokens), 0) as output_tokens,
+        COALESCE(SUM(s.cache_read_tokens), 0) as cache_read_tokens,
+        COALESCE(SUM(s.cache_write_tokens), 0) as cache_write_tokens
+      FROM sessions s
+      JOIN projects p ON p.id = s.project_id
+      ${where}
+    `).get(params) as any;
+
+    return {
+      projects: row.projects,
+      sessions: row.sessions,
+      messages: row.messages,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      cacheWriteTokens: row.cache_write_tokens
+    };
+  }
+
+  /**
+   * Sessions, messages and tokens per day and provider
+   */
+  getTimeline(filter: StatsFilter = {}): StatsTimelineEntry[] {
+    const { where, params } = this.buildWhere(filter);
+    const rows = this.db.prepare(`
+      SELECT
+        substr(${SESSION_DATE_SQL}, 1, 10) as date,
+        s.provider,
+        COUNT(*) as sessions,
+        COALESCE(SUM(s.message_count), 0) as messages,
+        COALESCE(SUM(${SESSION_TOKENS_SQL}), 0) as tokens
+      FROM sessions s
+      JOIN projects p ON p.id = s.project_id
+      ${where}
+      GROUP BY date, s.provider
+      ORDER BY date ASC, s.provider ASC
+    `).all(params) as any[];
+
+    return rows.map(row => ({
+      date: row.date,
+      provider: row.provider,
+      sessions: row.sessions,
+      messages: row.messages,
+      tokens: row.tokens
+    }));
+  }
+
+  /**
+   * Most used models, counted from models_json with tokens from usage_json
+   */
+  getModels(filter: StatsFilter = {}, limit = 20): StatsModelEntry[] {
+    const { where, params } = this.buildWhere(filter, 's.models_json IS NOT NULL');
+    const rows = this.db.prepare(`
+      SELECT
+        json_extract(m.value, '$[0]') as model,
+        SUM(json_extract(m.value, '$[1]')) as uses,
+        COUNT(DISTINCT s.id) as sessions,
+        COALESCE(SUM(
+          COALESCE(json_extract(s.usage_json, '$."' || json_extract(m.value, '$[0]') || '".input'), 0)
+          + COALESCE(json_extract(s.usage_json, '$."' || json_extract(m.value, '$[0]') || '".output'), 0)
+          + COALESCE(json_extract(s.usage_json, '$."' || json_extract(m.value, '$[0]') || '".cacheRead'), 0)
+          + COALESCE(json_extract(s.usage_json, '$."' || json_extract(m.value, '$[0]') || '".cacheWrite'), 0)
+        ), 0) as tokens
+      FROM sessions s
+      JOIN projects p ON p.id = s.project_id
+      JOIN json_each(s.models_json) m
+      ${where}
+      GROUP BY model
+      ORDER BY uses DESC
+      LIMIT @limit
+    `).all({ ...params, limit }) as any[];
+
+    return rows.map(row => ({
+      model: row.model,
+      uses: row.uses,
+      sessions: row.sessions,
+      tokens: row.tokens
+    }));
+  }
+
+  /**
+   * Most used tools from tool-use cards, with the share of failed calls
+   */
+  getTools(filter: StatsFilter = {}, limit = 20): StatsToolEntry[] {
+    const { where, params } = this.buildWhere(filter, "m.card_type = 'tool-use'");
+    const rows = this.db.prepare(`
+      SELECT
+        COALESCE(m.subtitle, 'unknown') as tool,
+        COUNT(*) as uses,
+        SUM(m.is_error) as errors
+      FROM messages m
+      JOIN sessions s ON s.id = m.session_id
+      JOIN projects p ON p.id = s.project_id
+      ${where}
+      GROUP BY tool
+      ORDER BY uses DESC
+      LIMIT @limit
+    `).all({ ...params, limit }) as any[];
+
+    return rows.map(row => ({
+      tool: row.tool,
+      uses: row.uses,
+      errors: row.errors,
+      errorRate: row.uses > 0 ? row.errors / row.uses : 0
+    }));
+  }
+
+  /**
+   * Providers that have at least one session
+   */
+  listProviders(): string[] {
+    const rows = this.db.prepare('SELECT DISTINCT provider FROM sessions ORDER BY provider').all() as any[];
+    return rows.map(row => row.provider);
+  }
+
+  private getBreakdown(column: string, filter: StatsFilter, limit: number): StatsBreakdownEntry[] {
+    const { where, params } = this.buildWhere(filter);
+    const rows = this.db.prepare(`
+      SELECT
+        COALESCE(${column}, '') as key,
+        COUNT(*) as sessions,
+        COALESCE(SUM(s.message_count), 0) as messages,
+        COALESCE(SUM(${SESSION_TOKENS_SQL}), 0) as tokens
+      FROM sessions s
+      JOIN projects p ON p.id = s.project_id
+      ${where}
+      GROUP BY key
+      ORDER BY sessions DESC
+      LIMIT @limit
+    `).all({ ...params, limit }) as any[];
+
+    return rows.map(row => ({
+      key: row.key,
+      sessions: row.sessions,
+      messages: row.messages,
+      tokens: row.tokens
+    }));
+  }
+
+  private buildWhere(filter: StatsFilter, ...extra: string[]): { where: string; params: Record<string, string> } {
+    const conditions = [...extra];
+    const params: Record<string, string> = {};
+
+    if (filter.since) {
+      conditions.push(`${SESSION_DATE_SQL} >= @since`);
+      params.since = filter.since;
+    }
+    if (filter.provider) {
+      conditions.push('s.provider = @provider');
+      params.provider = filter.provider;
+    }
+    if (filter.projectUuid) {
+      conditions.push('p.project_uuid = @projectUuid');
+      params.projectUuid = filter.projectUuid;
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+}
+
+/**
+ * ISO date of the start of a window of the last `days` days, undefined for all time
+ */
+export function getStatsSince(days: number, now: Date = new Date()): string | undefined {
+  if (!Number.isFinite(days) || days <= 0) return undefined;
+  const since = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  return since.toISOString().slice(0, 10);
+}
@@ -0,0 +1,190 @@
+import Database from 'better-sqlite3';
+import { dot } from '../utils/embedder';
+import { SearchEntry, SearchFilter, SearchResult, SessionSearchOptions, SessionSearchPage } from './SearchRepository';
+
+export interface VectorEntry extends SearchEntry {
+  /** Normalized embedding of content */
+  embedding: Float32Array;
+}
+
+export interface VectorSearchOptions extends SessionSearchOptions {
+  /** Minimum cosine similarity of a matching message */
+  minScore?: number;
+}
+
+export const DEFAULT_MIN_SCORE = 0.25;
+const MAX_LIMIT = 100;
+
+/**
+ * Repository for message embeddings in vectors.db
+ * Search is an exact scan over the filtered rows, which stays fast enough for
+ * the message counts of a personal archive and needs no native extension.
+ */
+export class VectorRepository {
+  constructor(private db: Database.Database) {}
+
+  insert(entry: VectorEntry): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO message_vectors (session_id, project_id, card_type, session_title, project_name, provider, git_branch, is_error, timestamp, time, content, embedding)
+      VALUES (@sessionId, @projectId, @cardType, @sessionTitle, @projectName, @provider, @gitBranch, @isError, @timestamp, @time, @content, @embedding)
+    `);
+
+    stmt.run({
+      sessionId: entry.sessionId,
+      projectId: entry.projectId,
+      cardType: entry.cardType,
+      sessionTitle: entry.sessionTitle,
+      projectName: entry.projectName,
+      provider: entry.provider,
+      gitBranch: entry.gitBranch || null,
+      isError: entry.isError ? 1 : 0,
+      timestamp: entry.timestamp,
+      time: Number.isNaN(Date.parse(entry.timestamp)) ? null : Date.parse(entry.timestamp),
+      content: entry.content,
+      embedding: Buffer.from(entry.embedding.buffer, entry.embedding.byteOffset, entry.embedding.byteLength),
+    });
+  }
+
+  deleteBySessionId(sessionId: string): void {
+    this.db.prepare('DELETE FROM message_vectors WHERE session_id = ?').run(sessionId);
+  }
+
+  deleteByProjectId(projectId: string): void {
+    this.db.prepare('DELETE FROM message_vectors WHERE project_id = ?').run(projectId);
+  }
+
+  /**
+   * Delete the entries of messages of the given card types older than a point in time
+   * @param before Epoch milliseconds
+   */
+  deleteByCardTypesBefore(cardTypes: string[], before: number): void {
+    this.db.prepare('DELETE FROM message_vectors WHERE card_type IN (SELECT value FROM json_each(?)) AND time < ?').run(JSON.stringify(cardTypes), before);
+  }
+
+  /**
+   * Sessions ranked by their most similar message
+   */
+  searchSessions(queryVector: Float32Array, options: VectorSearchOptions = {}): SessionSearchPage {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_LIMIT);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const matchesPerSession = Math.min(Math.max(options.matchesPerSession ?? 5, 0), MAX_LIMIT);
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    const { where, params } = this.buildWhere(options);
+
+    const rows = this.db.prepare(`
+      SELECT
+        session_id AS sessionId,
+        project_id AS projectId,
+        card_type AS cardType,
+        session_title AS sessionTitle,
+        project_name AS projectName,
+        provider,
+        timestamp,
+        content,
+        embedding
+      FROM message_vectors
+      ${where}
+    `).iterate(params) as IterableIterator<any>;
+
+    const sessions = new Map<string, SearchResult[]>();
+    for (const row of rows) {
+      const score = dot(queryVector, toVector(row.embedding));
+      if (score < minScore) continue;
+
+      const { embedding, ...result } = row;
+      const matches = sessions.get(row.sessionId) || [];
+      matches.push({ ...result, score: Math.round(score * 100) / 100 });
+      sessions.set(row.sessionId, matches);
+    }
+
+    const ranked = [...sessions.values()]
+      .map(matches => matches.sort((a, b) => b.score - a.score))
+      .sort((a, b) => b[0].score - a[0].score || a[0].sessionId.localeCompare(b[0].sessionId));
+
+    return {
+      total: ranked.length,
+      results: ranked.slice(offset, offset + limit).map(matches => ({
+        sessionId: matches[0].sessionId,
+        sessionTitle: matches[0].sessionTitle,
+        projectId: matches[0].projectId,
+        projectName: matches[0].projectName,
+        provider: matches[0].provider,
+        score: matches[0].score,
+        matchCount: matches.length,
+        matches: matches.slice(0, matchesPerSession),
+      })),
+    };
+  }
+
+  /**
+   * Name of the embedder the stored vectors were computed with
+   */
+  getEmbedderName(): string | undefined {
+    const row = this.db.prepare("SELECT value FROM index_info WHERE key = 'embedder'").get() as any;
+    return row?.value;
+  }
+
+  setEmbedderName(name: string): void {
+    this.db.prepare(`
+      INSERT INTO index_info (key, value) VALUES ('embedder', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(name);
+  }
+
+  isEmpty(): boolean {
+    return !this.db.prepare('SELECT 1 FROM message_vectors LIMIT 1').get();
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM message_vectors');
+  }
+
+  getCount(): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM message_vectors').get() as any;
+    return row.count;
+  }
+
+  private buildWhere(filter: SearchFilter): { where: string; params: Record<string, string | number> } {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filter.projectId) {
+      conditions.push('project_id = @projectId');
+      params.projectId = filter.projectId;
+    }
+    if (filter.provider) {
+      conditions.push('provider = @provider');
+      params.provider = filter.provider;
+    }
+    if (filter.cardType) {
+      conditions.push('card_type = @cardType');
+      params.cardType = filter.cardType;
+    }
+    if (filter.gitBranch) {
+      conditions.push('git_branch = @gitBranch');
+      params.gitBranch = filter.gitBranch;
+    }
+    if (filter.errorsOnly) {
+      conditions.push('is_error = 1');
+    }
+    if (filter.after) {
+      conditions.push('time >= @after');
+      params.after = filter.after.getTime();
+    }
+    if (filter.before) {
+      conditions.push('time < @before');
+      params.before = filter.before.getTime();
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+}
+
+/**
+ * Copy a stored BLOB into a Float32Array; SQLite buffers are not guaranteed to be 4-byte aligned
+ */
+function toVector(blob: Buffer): Float32Array {
+  const bytes = new Uint8Array(blob.byteLength);
+  bytes.set(blob);
+  return new Float32Array(bytes.buffer);
+}
@@ -0,0 +1,75 @@
+import Database from 'better-sqlite3';
+import { ProjectRepository } from '../ProjectRepository';
+import { SessionRepository } from '../SessionRepository';
+import { MessageRepository } from '../MessageRepository';
+import { Migrator } from '../../migrations/migrator';
+import { SESSIONS_MIGRATIONS } from '../../migrations/sessionsMigrations';
+import { decodeCursor } from '../../utils/cursor';
+import { RenderableMessage, SessionProvider } from '../../types';
+
+describe('repository pagination', () => {
+  let db: Database.Database;
+  let projects: ProjectRepository;
+  let sessions: SessionRepository;
+  let messages: MessageRepository;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    new Migrator(db, SESSIONS_MIGRATIONS).migrate();
+    projects = new ProjectRepository(db);
+    sessions = new SessionRepository(db);
+    messages = new MessageRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('pages projects by most recent update, with ties broken by id', () => {
+    for (const [uuid, updatedAt] of [['a', '2025-01-01'], ['b', '2025-01-03'], ['c', '2025-01-02'], ['d', '2025-01-02']]) {
+      projects.upsert({ projectUuid: uuid, name: uuid, createdAt: updatedAt, updatedAt });
+    }
+
+    const first = projects.listPage(2);
+    expect(first.items.map(p => p.projectUuid)).toEqual(['b', 'd']);
+
+    const after = decodeCursor<{ updatedAt: string; id: number }>(first.nextCursor!, { updatedAt: 'string', id: 'number' })!;
+    const second = projects.listPage(2, after);
+    expect(second.items.map(p => p.projectUuid)).toEqual(['c', 'a']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('pages sessions of one project', () => {
+    const projectId = projects.upsert({ projectUuid: 'p', name: 'p', createdAt: '2025-01-01', updatedAt: '2025-01-01' });
+    const other = projects.upsert({ projectUuid: 'q', name: 'q', createdAt: '2025-01-01', updatedAt: '2025-01-01' });
+    for (const [id, updatedAt] of [['s1', '2025-01-01'], ['s2', '2025-01-02'], ['s3', '2025-01-03']]) {
+      sessions.upsert({ projectId, sessionId: id, title: id, provider: SessionProvider.CODEX, messageCount: 0, createdAt: updatedAt, updatedAt });
+    }
+    sessions.upsert({ projectId: other, sessionId: 'x', title: 'x', provider: SessionProvider.CODEX, messageCount: 0, createdAt: '2025-01-05', updatedAt: '2025-01-05' });
+
+    const first = sessions.getPageByProjectId(projectId, 2);
+    expect(first.items.map(s => s.sessionId)).toEqual(['s3', 's2']);
+
+    const after = decodeCursor<{ updatedAt: string; id: number }>(first.nextCursor!, { updatedAt: 'string', id: 'number' })!;
+    expect(sessions.getPageByProjectId(projectId, 2, after).items.map(s => s.sessionId)).toEqual(['s1']);
+  });
+
+  it('pages messages within a sequence range', () => {
+    const projectId = projects.upsert({ projectUuid: 'p', name: 'p', createdAt: '2025-01-01', updatedAt: '2025-01-01' });
+    const sessionId = sessions.upsert({ projectId, sessionId: 's', title: 's', provider: SessionProvider.CODEX, messageCount: 6, createdAt: '2025-01-01', updatedAt: '2025-01-01' });
+    for (let sequence = 0; sequence < 6; sequence++) {
+      messages.upsert({
+        sessionId, sequence, cardType: 'user', title: 'user', content: [{ type: 'text', text: `m${sequence}` }],
+        timestamp: '2025-01-01T00:00:00Z', canExpand: true, isError: false, createdAt: '2025-01-01'
+      } as RenderableMessage);
+    }
+
+    const first = messages.getPageBySessionId(sessionId, 2, { from: 1, to: 4 });
+    expect(first.items.map(m => m.sequence)).toEqual([1, 2]);
+
+    const after = decodeCursor<{ sequence: number }>(first.nextCursor!, { sequence: 'number' })!;
+    const second = messages.getPageBySessionId(sessionId, 2, { from: 1, to: 4 }, after);
+    expect(second.items.map(m => m.sequence)).toEqual([3, 4]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import { SearchRepository, SearchEntry } from '../SearchRepository';
 import { SEARCH_TABLE_SQL } from '../../searchDatabase';
+import { SearchQueryError } from '../../utils/searchQuery';
 
 function createTestDb(): Database.Database {
   const db = new Database(':memory:');
@@ -17,6 +18,7 @@ function makeEntry(overrides: Partial<SearchEntry> = {}): SearchEntry {
     sessionTitle: 'Test Session',
     projectName: 'test-project',
     timestamp: '2025-01-01T00:00:00Z',
+    provider: 'claude_code',
     ...overrides,
   };
 }
@@ -153,4 +155,200 @@ describe('SearchRepository', () => {
     const results = repo.search('timestamped');
     expect(results[0].timestamp).toBe('2025-06-15T12:00:00Z');
   });
+
+  describe('searchSessions', () => {
+    beforeEach(() => {
+      repo.insert(makeEntry({ content: 'deploy script failed', sessionId: 's1', projectId: 'p1' }));
+      repo.insert(makeEntry({ content: 'fix the deploy script', sessionId: 's1', projectId: 'p1', cardType: 'user' }));
+      repo.insert(makeEntry({ content: 'deploy to staging', sessionId: 's2', projectId: 'p2', provider: 'codex' }));
+      repo.insert(makeEntry({ content: 'deploy to production', sessionId: 's3', projectId: 'p1', provider: 'codex' }));
+      repo.insert(makeEntry({ content: 'unrelated', sessionId: 's4', projectId: 'p1' }));
+    });
+
+    it('groups matches by session with a total count', () => {
+      const page = repo.searchSessions('deploy');
+      expect(page.total).toBe(3);
+      expect(page.results.map(r => r.sessionId).sort()).toEqual(['s1', 's2', 's3']);
+
+      const s1 = page.results.find(r => r.sessionId === 's1')!;
+      expect(s1.matchCount).toBe(2);
+      expect(s1.matches).toHaveLength(2);
+      expect(s1.matches[0].content).toContain('<mark>');
+    });
+
+    it('pages through sessions with limit and offset', () => {
+      const all = repo.searchSessions('deploy').results.map(r => r.sessionId);
+      const first = repo.searchSessions('deploy', { limit: 2 });
+      const second = repo.searchSessions('deploy', { limit: 2, offset: 2 });
+
+      expect(first.total).toBe(3);
+      expect(second.total).toBe(3);
+      expect([...first.results, ...second.results].map(r => r.sessionId)).toEqual(all);
+    });
+
+    it('filters by project, provider and card type', () => {
+      expect(repo.searchSessions('deploy', { projectId: 'p1' }).results.map(r => r.sessionId).sort()).toEqual(['s1', 's3']);
+      expect(repo.searchSessions('deploy', { provider: 'codex' }).total).toBe(2);
+
+      const users = repo.searchSessions('deploy', { cardType: 'user' });
+      expect(users.total).toBe(1);
+      expect(users.results[0].matches).toHaveLength(1);
+      expect(users.results[0].matches[0].cardType).toBe('user');
+    });
+
+    it('limits matches per session', () => {
+      const page = repo.searchSessions('deploy', { projectId: 'p1', matchesPerSession: 1 });
+      expect(page.results.every(r => r.matches.length === 1)).toBe(true);
+    });
+  });
+
+  it('reports whether the index is empty', () => {
+    expect(repo.isEmpty()).toBe(true);
+    repo.insert(makeEntry());
+    expect(repo.isEmpty()).toBe(false);
+    repo.clear();
+    expect(repo.isEmpty()).toBe(true);
+  });
+
+  describe('query syntax', () => {
+    beforeEach(() => {
+      repo.insert(makeEntry({ content: 'auth with redis', sessionId: 's1', gitBranch: 'main', timestamp: '2025-01-01T00:00:00Z' }));
+      repo.insert(makeEntry({ content: 'auth mock suite', sessionId: 's2', gitBranch: 'feature', timestamp: '2025-02-01T00:00:00Z' }));
+      repo.insert(makeEntry({ content: 'npm test --auth', sessionId: 's3', cardType: 'tool-use', toolName: 'Bash', provider: 'codex', timestamp: '2025-03-01T00:00:00Z' }));
+    });
+
+    const sessionsOf = (query: string) => repo.search(query).map(r => r.sessionId).sort();
+
+    it('combines boolean operators and phrases', () => {
+      expect(sessionsOf('auth redis')).toEqual(['s1']);
+      expect(sessionsOf('redis OR suite')).toEqual(['s1', 's2']);
+      expect(sessionsOf('auth -mock')).toEqual(['s1', 's3']);
+      expect(sessionsOf('"mock suite"')).toEqual(['s2']);
+    });
+
+    it('applies field filters', () => {
+      expect(sessionsOf('auth branch:main')).toEqual(['s1']);
+      expect(sessionsOf('auth type:tool-use tool:bash')).toEqual(['s3']);
+      expect(sessionsOf('auth provider:codex')).toEqual(['s3']);
+      expect(sessionsOf('auth -provider:codex')).toEqual(['s1', 's2']);
+      expect(sessionsOf('auth after:2025-01-15 before:2025-02-15')).toEqual(['s2']);
+      expect(sessionsOf('auth branch:main branch:feature')).toEqual(['s1', 's2']);
+    });
+
+    it('keeps messages without a value for negated filters', () => {
+      expect(sessionsOf('auth -branch:main')).toEqual(['s2', 's3']);
+      expect(sessionsOf('auth -tool:bash')).toEqual(['s1', 's2']);
+      expect(sessionsOf('auth -branch:main -branch:feature')).toEqual(['s3']);
+    });
+
+    it('searches with filters only', () => {
+      const results = repo.search('tool:Bash');
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toBe('npm test --auth');
+      expect(repo.searchSessions('type:tool-use').total).toBe(1);
+    });
+
+    it('throws SearchQueryError for invalid queries', () => {
+      expect(() => repo.search('"unterminated')).toThrow(SearchQueryError);
+    });
+  });
+
+  describe('facets', () => {
+    const now = Date.parse('2025-03-10T00:00:00Z');
+
+    beforeEach(() => {
+      repo.insert(makeEntry({ content: 'build failed', sessionId: 's1', gitBranch: 'main', timestamp: '2025-03-09T12:00:00Z' }));
+      repo.insert(makeEntry({ content: 'npm run build', sessionId: 's1', gitBranch: 'main', cardType: 'tool-result', isError: true, timestamp: '2025-03-09T12:01:00Z' }));
+      repo.insert(makeEntry({ content: 'build passes', sessionId: 's2', gitBranch: 'feature', provider: 'codex', timestamp: '2025-03-05T00:00:00Z' }));
+      repo.insert(makeEntry({ content: 'build docs', sessionId: 's3', provider: 'codex', cardType: 'user', timestamp: '2024-06-01T00:00:00Z' }));
+    });
+
+    it('counts matching sessions per value', () => {
+      const facets = repo.getFacets('build', {}, now);
+      expect(facets.providers).toEqual([{ value: 'codex', count: 2 }, { value: 'claude_code', count: 1 }]);
+      expect(facets.cardTypes).toEqual([
+        { value: 'assistant', count: 2 },
+        { value: 'tool-result', count: 1 },
+        { value: 'user', count: 1 },
+      ]);
+      expect(facets.branches).toEqual([{ value: 'feature', count: 1 }, { value: 'main', count: 1 }]);
+      expect(facets.ranges).toEqual([
+        { value: '24h', count: 1 },
+        { value: '7d', count: 2 },
+        { value: '30d', count: 2 },
+        { value: '1y', count: 3 },
+      ]);
+      expect(facets.errors).toBe(1);
+    });
+
+    it('ignores a facet\'s own filter but applies the others', () => {
+      const facets = repo.getFacets('build', { provider: 'codex' }, now);
+      expect(facets.providers.map(f => f.value)).toEqual(['codex', 'claude_code']);
+      expect(facets.branches).toEqual([{ value: 'feature', count: 1 }]);
+      expect(facets.errors).toBe(0);
+    });
+
+    it('filters by branch, errors and time', () => {
+      expect(repo.searchSessions('build', { gitBranch: 'feature' }).results.map(r => r.sessionId)).toEqual(['s2']);
+
+      const errors = repo.searchSessions('build', { errorsOnly: true });
+      expect(errors.total).toBe(1);
+      expect(errors.results[0].matches.map(m => m.cardType)).toEqual(['tool-result']);
+
+      const recent = repo.searchSessions('build', { after: new Date('2025-03-01T00:00:00Z') });
+      expect(recent.results.map(r => r.sessionId).sort()).toEqual(['s1', 's2']);
+      expect(repo.searchSessions('build', { before: new Date('2025-01-01T00:00:00Z') }).results.map(r => r.sessionId)).toEqual(['s3']);
+    });
+
+    it('sorts sessions by their most recent or oldest match', () => {
+      expect(repo.searchSessions('build', { sort: 'newest' }).results.map(r => r.sessionId)).toEqual(['s1', 's2', 's3']);
+      expect(repo.searchSessions('build', { sort: 'oldest' }).results.map(r => r.sessionId)).toEqual(['s3', 's2', 's1']);
+    });
+  });
+
+  describe('findSimilarSessions', () => {
+    beforeEach(() => {
+      repo.insert(makeEntry({ content: 'The login redirect loops after token refresh', sessionId: 's1', cardType: 'user' }));
+      repo.insert(makeEntry({ content: 'file_path src/auth/session.ts', sessionId: 's1', cardType: 'tool-use', toolName: 'Read' }));
+      repo.insert(makeEntry({ content: 'Session expired: refresh the token on login', sessionId: 's2', cardType: 'user', projectId: 'p2', provider: 'codex' }));
+      repo.insert(makeEntry({ content: 'file_path lib/session.ts', sessionId: 's2', cardType: 'tool-use', toolName: 'Edit' }));
+      repo.insert(makeEntry({ content: 'Fix the redirect of the landing page', sessionId: 's3', cardType: 'user' }));
+      repo.insert(makeEntry({ content: 'The token refresh is mentioned by the assistant only', sessionId: 's3', cardType: 'assistant' }));
+      repo.insert(makeEntry({ content: 'Update the chart colors', sessionId: 's4', cardType: 'user' }));
+      repo.insert(makeEntry({ content: 'Rename chart labels', sessionId: 's5', cardType: 'user' }));
+    });
+
+    it('ranks sessions by shared prompt words and file names', () => {
+      const similar = repo.findSimilarSessions('s1');
+
+      expect(similar.map(s => s.sessionId)).toEqual(['s2', 's3']);
+      expect(similar[0].provider).toBe('codex');
+      expect(similar[0].sharedTerms).toEqual(expect.arrayContaining(['session.ts', 'token', 'refresh', 'login']));
+      expect(similar[0].score).toBeGreaterThan(similar[1].score);
+      expect(similar[1].sharedTerms).toEqual(['redirect']);
+    });
+
+    it('returns nothing for unknown sessions', () => {
+      expect(repo.findSimilarSessions('missing')).toEqual([]);
+    });
+
+    it('considers file names even when frequent words fill the candidate terms', () => {
+      const words = Array.from({ length: 50 }, (_, i) => `keyword${String.fromCharCode(97 + (i % 26))}${String.fromCharCode(97 + Math.floor(i / 26))}`);
+      repo.insert(makeEntry({ content: `${words.join(' ')} ${words.join(' ')}`, sessionId: 's6', cardType: 'user' }));
+      repo.insert(makeEntry({ content: 'file_path src/billing/invoiceRenderer.ts', sessionId: 's6', cardType: 'tool-use' }));
+      repo.insert(makeEntry({ content: 'file_path lib/invoiceRenderer.ts', sessionId: 's7', cardType: 'tool-use' }));
+
+      const similar = repo.findSimilarSessions('s6');
+      expect(similar.map(s => s.sessionId)).toEqual(['s7']);
+      expect(similar[0].sharedTerms).toEqual(['invoiceRenderer.ts']);
+    });
+
+    it('caches results until the index changes', () => {
+      const first = repo.findSimilarSessions('s1');
+      expect(repo.findSimilarSessions('s1')).toBe(first);
+
+      repo.deleteBySessionId('s3');
+      expect(repo.findSimilarSessions('s1').map(s => s.sessionId)).toEqual(['s2']);
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import Database from 'better-sqlite3';
+import { StatsRepository, getStatsSince } from '../StatsRepository';
+import { ProjectRepository } from '../ProjectRepository';
+import { SessionRepository } from '../SessionRepository';
+import { MessageRepository } from '../MessageRepository';
+import { Migrator } from '../../migrations/migrator';
+import { SESSIONS_MIGRATIONS } from '../../migrations/sessionsMigrations';
+import { RenderableMessage, Session, SessionProvider } from '../../types';
+
+describe('StatsRepository', () => {
+  let db: Database.Database;
+  let repo: StatsRepository;
+  let sessions: SessionRepository;
+  let messages: MessageRepository;
+  let projectA: number;
+  let projectB: number;
+
+  function addSession(projectId: number, sessionId: string, overrides: Partial<Session> = {}): number {
+    return sessions.upsert({
+      projectId,
+      sessionId,
+      title: sessionId,
+      provider: SessionProvider.CLAUDE_CODE,
+      messageCount: 2,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T11:00:00.000Z',
+      ...overrides
+    });
+  }
+
+  function addToolUse(sessionId: number, sequence: number, tool: string, isError = false): void {
+    messages.upsert({
+      sessionId,
+      sequence,
+      cardType: 'tool-use',
+      title: 'tool_use',
+      subtitle: tool,
+      content: [],
+      timestamp: '2025-01-01T10:00:00.000Z',
+      canExpand: true,
+      isError,
+      createdAt: '2025-01-01T10:00:00.000Z'
+    } as RenderableMessage);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    new Migrator(db, SESSIONS_MIGRATIONS).migrate();
+    repo = new StatsRepository(db);
+    sessions = new SessionRepository(db);
+    messages = new MessageRepository(db);
+
+    const projects = new ProjectRepository(db);
+    const now = '2025-01-01T00:00:00.000Z';
+    projectA = projects.upsert({ projectUuid: 'a', name: 'alpha', createdAt: now, updatedAt: now });
+    projectB = projects.upsert({ projectUuid: 'b', name: 'beta', createdAt: now, updatedAt: now });
+
+    const s1 = addSession(projectA, 's1', {
+      gitBranch: 'main',
+      modelsJson: JSON.stringify([['claude-sonnet-4', 3], ['claude-haiku', 1]]),
+      inputTokens: 100,
+      outputTokens: 50,
+      usageJson: JSON.stringify({
+        'claude-sonnet-4': { input: 80, output: 40, cacheRead: 0, cacheWrite: 0 },
+        'claude-haiku': { input: 20, output: 10, cacheRead: 0, cacheWrite: 0 }
+      })
+    });
+    addSession(projectA, 's2', {
+      gitBranch: 'main',
+      messageCount: 4,
+      createdAt: '2025-01-03T10:00:00.000Z',
+      modelsJson: JSON.stringify([['claude-sonnet-4', 2]])
+    });
+    const s3 = addSession(projectB, 's3', {
+      provider: SessionProvider.CODEX,
+      gitBranch: 'feature',
+      createdAt: '2025-01-03T12:00:00.000Z',
+      modelsJson: JSON.stringify([['gpt-5', 1]]),
+      inputTokens: 10,
+      outputTokens: 5,
+      usageJson: JSON.stringify({ 'gpt-5': { input: 10, output: 5, cacheRead: 0, cacheWrite: 0 } })
+    });
+
+    addToolUse(s1, 0, 'Read');
+    addToolUse(s1, 1, 'Read');
+    addToolUse(s1, 2, 'Bash', true);
+    addToolUse(s3, 0, 'Read', true);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('sums totals over all sessions', () => {
+    expect(repo.getTotals()).toEqual({
+      projects: 2,
+      sessions: 3,
+      messages: 8,
+      inputTokens: 110,
+      outputTokens: 55,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0
+    });
+  });
+
+  it('groups the timeline by day and provider', () => {
+    expect(repo.getTimeline()).toEqual([
+      { date: '2025-01-01', provider: 'claude_code', sessions: 1, messages: 2, tokens: 150 },
+      { date: '2025-01-03', provider: 'claude_code', sessions: 1, messages: 4, tokens: 0 },
+      { date: '2025-01-03', provider: 'codex', sessions: 1, messages: 2, tokens: 15 }
+    ]);
+  });
+
+  it('counts models from models_json with tokens from usage_json', () => {
+    const models = repo.getModels();
+    expect(models[0]).toEqual({ model: 'claude-sonnet-4', uses: 5, sessions: 2, tokens: 120 });
+    expect(models.find(m => m.model === 'gpt-5')).toEqual({ model: 'gpt-5', uses: 1, sessions: 1, tokens: 15 });
+  });
+
+  it('breaks sessions down by provider, project and branch', () => {
+    const stats = repo.getStats();
+    expect(stats.providers[0]).toMatchObject({ key: 'claude_code', sessions: 2, messages: 6 });
+    expect(stats.projects.map(p => p.key)).toEqual(['alpha', 'beta']);
+    expect(stats.branches[0]).toMatchObject({ key: 'main', sessions: 2 });
+  });
+
+  it('computes tool error rates from tool-use cards', () => {
+    expect(repo.getTools()).toEqual([
+      { tool: 'Read', uses: 3, errors: 1, errorRate: 1 / 3 },
+      { tool: 'Bash', uses: 1, errors: 1, errorRate: 1 }
+    ]);
+  });
+
+  it('dates sessions by their start time when the provider records one', () => {
+    addSession(projectB, 's4', { created: '2024-12-31T23:00:00.000Z', createdAt: '2025-01-05T00:00:00.000Z' });
+    expect(repo.getTimeline()[0]).toMatchObject({ date: '2024-12-31', sessions: 1 });
+    expect(repo.getTotals({ since: '2025-01-04' }).sessions).toBe(0);
+  });
+
+  it('filters by date, provider and project', () => {
+    expect(repo.getTotals({ since: '2025-01-02' }).sessions).toBe(2);
+    expect(repo.getTotals({ provider: SessionProvider.CODEX }).sessions).toBe(1);
+    expect(repo.getTools({ projectUuid: 'b' })).toEqual([{ tool: 'Read', uses: 1, errors: 1, errorRate: 1 }]);
+  });
+
+  it('lists providers with sessions', () => {
+    expect(repo.listProviders()).toEqual(['claude_code', 'codex']);
+  });
+});
+
+describe('getStatsSince', () => {
+  it('returns the first day of the window', () => {
+    expect(getStatsSince(7, new Date('2025-01-10T12:00:00Z'))).toBe('2025-01-04');
+    expect(getStatsSince(1, new Date('2025-01-10T12:00:00Z'))).toBe('2025-01-10');
+  });
+
+  it('returns undefined for all time', () => {
+    expect(getStatsSince(0)).toBeUndefined();
+  });
+});
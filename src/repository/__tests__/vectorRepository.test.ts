@@ -0,0 +1,77 @@
+import Database from 'better-sqlite3';
+import { VectorRepository, VectorEntry } from '../VectorRepository';
+import { Migrator } from '../../migrations/migrator';
+import { VECTOR_MIGRATIONS } from '../../migrations/vectorMigrations';
+import { HashingEmbedder } from '../../utils/embedder';
+
+describe('VectorRepository', () => {
+  const embedder = new HashingEmbedder();
+  let db: Database.Database;
+  let repo: VectorRepository;
+
+  function add(content: string, overrides: Partial<VectorEntry> = {}): void {
+    repo.insert({
+      content,
+      sessionId: 'session-1',
+      projectId: 'project-1',
+      cardType: 'assistant',
+      sessionTitle: 'Test Session',
+      projectName: 'test-project',
+      timestamp: '2025-01-01T00:00:00Z',
+      provider: 'claude_code',
+      embedding: embedder.embedOne(content),
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    new Migrator(db, VECTOR_MIGRATIONS).migrate();
+    repo = new VectorRepository(db);
+
+    add('The login race came from refreshing session tokens twice', { sessionId: 's1' });
+    add('Refreshing tokens now happens behind a lock', { sessionId: 's1', cardType: 'user' });
+    add('Session token refresh retries after a failure', { sessionId: 's2', provider: 'codex', timestamp: '2025-03-01T00:00:00Z' });
+    add('Adjusted the colors of the stats charts', { sessionId: 's3' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('ranks sessions by their most similar message', () => {
+    const page = repo.searchSessions(embedder.embedOne('session token refresh'), { minScore: 0.2 });
+
+    expect(page.results.map(r => r.sessionId)).toEqual(['s2', 's1']);
+    expect(page.total).toBe(2);
+    expect(page.results[1].matchCount).toBe(2);
+    expect(page.results[1].matches[0].score).toBeGreaterThanOrEqual(page.results[1].matches[1].score);
+    expect(page.results[0].matches[0].content).toBe('Session token refresh retries after a failure');
+  });
+
+  it('applies filters and pagination', () => {
+    const query = embedder.embedOne('session token refresh');
+
+    expect(repo.searchSessions(query, { minScore: 0.2, provider: 'codex' }).results.map(r => r.sessionId)).toEqual(['s2']);
+    expect(repo.searchSessions(query, { minScore: 0.2, cardType: 'user' }).results.map(r => r.sessionId)).toEqual(['s1']);
+    expect(repo.searchSessions(query, { minScore: 0.2, before: new Date('2025-02-01') }).results.map(r => r.sessionId)).toEqual(['s1']);
+
+    const second = repo.searchSessions(query, { minScore: 0.2, limit: 1, offset: 1 });
+    expect(second.total).toBe(2);
+    expect(second.results.map(r => r.sessionId)).toEqual(['s1']);
+  });
+
+  it('replaces the vectors of a session', () => {
+    repo.deleteBySessionId('s1');
+    expect(repo.getCount()).toBe(2);
+    repo.clear();
+    expect(repo.isEmpty()).toBe(true);
+  });
+
+  it('remembers the embedder of the stored vectors', () => {
+    expect(repo.getEmbedderName()).toBeUndefined();
+    repo.setEmbedderName('hashing-512');
+    repo.setEmbedderName('transformers-Xenova/all-MiniLM-L6-v2');
+    expect(repo.getEmbedderName()).toBe('transformers-Xenova/all-MiniLM-L6-v2');
+  });
+});
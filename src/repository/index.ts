@@ -2,3 +2,7 @@ export { ProjectRepository } from './ProjectRepository';
 export { SessionRepository } from './SessionRepository';
 export { MessageRepository } from './MessageRepository';
 export { SearchRepository } from './SearchRepository';
+export { ImportStateRepository } from './ImportStateRepository';
+export { StatsRepository } from './StatsRepository';
+export { VectorRepository } from './VectorRepository';
+export { ApiTokenRepository } from './ApiTokenRepository';
@@ -2,32 +2,28 @@ import Database from 'better-sqlite3';
 import { SearchRepository } from './repository/SearchRepository';
 import { existsSync, mkdirSync } from 'fs';
 import path from 'path';
+import { resolveDataDir } from './utils/paths';
+import { DatabaseOptions } from './database';
+import { Migration, MigrationResult, Migrator, getBackupPath } from './migrations/migrator';
+import { SEARCH_MIGRATIONS } from './migrations/searchMigrations';
+
+export { SEARCH_TABLE_SQL } from './migrations/searchMigrations';
 
 /**
- * Manages the separate FTS5 search database (var/search.db)
+ * Manages the separate FTS5 search database (search.db in the data directory)
  */
-export const SEARCH_TABLE_SQL = `
-  CREATE VIRTUAL TABLE IF NOT EXISTS search_messages USING fts5(
-    content,
-    session_id,
-    project_id,
-    card_type,
-    session_title,
-    project_name,
-    timestamp UNINDEXED,
-    tokenize='trigram'
-  )
-`;
-
 export class SearchDatabase {
   private readonly db: Database.Database;
+  private readonly dbPath: string;
+  private readonly isNewDatabase: boolean;
+  private readonly migrator: Migrator;
   public search: SearchRepository;
 
-  constructor() {
-    const dbPath = 'var/search.db';
-    mkdirSync(path.dirname(dbPath), { recursive: true });
-    const isNewDatabase = !existsSync(dbPath);
-    this.db = new Database(dbPath);
+  constructor(dataDir: string = resolveDataDir(), options: DatabaseOptions = {}) {
+    this.dbPath = path.join(dataDir, 'search.db');
+    mkdirSync(dataDir, { recursive: true });
+    this.isNewDatabase = !existsSync(this.dbPath);
+    this.db = new Database(this.dbPath);
 
     // Optimize database performance
     this.db.pragma('journal_mode = WAL');
@@ -35,15 +31,45 @@ export class SearchDatabase {
     this.db.pragma('cache_size = -64000'); // 64MB cache
     this.db.pragma('temp_store = MEMORY');
 
-    if (isNewDatabase) {
-      this.db.exec(SEARCH_TABLE_SQL);
+    this.migrator = new Migrator(this.db, SEARCH_MIGRATIONS);
+    if (options.migrate !== false) {
+      this.migrate();
     }
+
     this.search = new SearchRepository(this.db);
   }
 
+  /**
+   * Apply pending schema migrations, backing up existing databases first
+   */
+  migrate(): MigrationResult {
+    const fromVersion = this.migrator.getCurrentVersion();
+    const backupPath = this.isNewDatabase ? undefined : getBackupPath(this.dbPath, fromVersion);
+    const result = this.migrator.migrate(backupPath);
+
+    if (result.backupPath) {
+      console.log(`Migrated ${this.dbPath} from v${result.fromVersion} to v${result.toVersion} (backup: ${result.backupPath})`);
+    }
+
+    return result;
+  }
+
+  getSchemaVersion(): number {
+    return this.migrator.getCurrentVersion();
+  }
+
+  getPendingMigrations(): Migration[] {
+    return this.migrator.getPendingMigrations();
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
   resetTables(): void {
     this.db.exec('DROP TABLE IF EXISTS search_messages');
-    this.db.exec(SEARCH_TABLE_SQL);
+    this.db.exec('DROP TABLE IF EXISTS schema_version');
+    this.migrator.migrate();
   }
 
   /**
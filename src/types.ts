@@ -10,7 +10,14 @@ export enum SessionProvider {
   JUNIE = 'junie',
   KILO_CODE = 'kilocode',
   GEMINI = 'gemini',
-  DROID = 'droid'
+  DROID = 'droid',
+  CURSOR = 'cursor',
+  CLINE = 'cline',
+  ROO_CODE = 'roo_code',
+  AIDER = 'aider',
+  COPILOT = 'copilot',
+  CHATGPT = 'chatgpt',
+  CLAUDE_AI = 'claude_ai'
 }
 
   /**
@@ -26,6 +33,17 @@ export enum SessionProvider {
     messageCount?: number;
   }
 
+/**
+ * Token counts reported by a provider for one model response or summed over many
+ * input excludes cached tokens; cacheRead/cacheWrite are prompt cache hits and writes
+ */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
 /**
  * Session metadata
  * Ported from: de.espend.ml.llm.session.SessionService.kt
@@ -38,6 +56,10 @@ export interface SessionMetadata {
   created?: string;
   modified?: string;
   messageCount: number;
+  /** Total token usage of the session, if the provider records it */
+  usage?: TokenUsage;
+  /** Token usage per model, used to estimate cost */
+  usageByModel?: Record<string, TokenUsage>;
 }
 
 /**
@@ -85,9 +107,9 @@ export type InfoStyle = 'default' | 'error';
  */
 export type ParsedMessage =
   | { type: 'user'; timestamp: string; content: MessageContent[] }
-  | { type: 'assistant_text'; timestamp: string; content: MessageContent[] }
-  | { type: 'assistant_thinking'; timestamp: string; thinking: string }
-  | { type: 'tool_use'; timestamp: string; toolName: string; toolCallId?: string; input: Record<string, string>; results: ToolResult[] }
+  | { type: 'assistant_text'; timestamp: string; content: MessageContent[]; usage?: TokenUsage; model?: string }
+  | { type: 'assistant_thinking'; timestamp: string; thinking: string; usage?: TokenUsage; model?: string }
+  | { type: 'tool_use'; timestamp: string; toolName: string; toolCallId?: string; input: Record<string, string>; results: ToolResult[]; usage?: TokenUsage; model?: string }
   | { type: 'tool_result'; timestamp: string; toolName?: string; toolCallId?: string; output: MessageContent[]; isError: boolean }
   | { type: 'info'; timestamp: string; title: string; subtitle?: string; content?: MessageContent; style: InfoStyle };
 
@@ -162,6 +184,12 @@ export interface RenderableMessage {
    * Affects styling (red/error colors)
    */
   isError: boolean;
+
+  /** Token usage of the model response that produced this card */
+  usage?: TokenUsage;
+
+  /** Model that produced this card */
+  model?: string;
   
   /** Creation timestamp (ISO 8601 datetime string) */
   createdAt: string;
@@ -195,13 +223,66 @@ export interface Session {
   created?: string;
   modified?: string;
   messageCount: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  /** JSON of Record<model, TokenUsage> */
+  usageJson?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Session known to a server, used by push to send only new or changed sessions
+ */
+export interface SessionManifestEntry {
+  sessionId: string;
+  projectUuid: string;
+  provider: SessionProvider;
+  messageCount: number;
+  updatedAt: string;
+}
+
 /**
  * Session with project info
  */
 export interface SessionWithProject extends Session {
   projectName: string;
 }
+
+/**
+ * Import state entity for database
+ * Fingerprint of a session source file from the last successful import
+ */
+export interface ImportState {
+  provider: SessionProvider;
+  sourcePath: string;
+  size: number;
+  mtimeMs: number;
+  contentHash: string;
+  sessionId?: string;
+  importedAt: string;
+}
+
+/**
+ * Permission of an API token: browse and query (read), send sessions (push), use the MCP endpoint (mcp)
+ */
+export type TokenScope = 'read' | 'push' | 'mcp';
+
+/**
+ * API token entity for database
+ * Only a hash of the secret is stored; the token itself is shown once on creation.
+ */
+export interface ApiToken {
+  id?: number;
+  name: string;
+  /** SHA-256 of the token */
+  tokenHash: string;
+  /** Start of the token, to recognize it in listings */
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../../database';
+import { createApiToken, getRequestToken, getRequiredScope, hashToken, isLoopbackHost, parseScopes, verifyApiToken } from '../auth';
+
+describe('auth', () => {
+  describe('API tokens', () => {
+    let tempDir: string;
+    let db: DatabaseManager;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+      db = new DatabaseManager(tempDir);
+    });
+
+    afterEach(() => {
+      db.close();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('stores only a hash of new tokens', () => {
+      const { token, apiToken } = createApiToken(db, 'laptop', ['read', 'push']);
+
+      expect(token).toMatch(/^mm_[A-Za-z0-9_-]{43}$/);
+      expect(apiToken.prefix).toBe(token.slice(0, 10));
+      expect(db.apiTokens.listAll()).toEqual([expect.objectContaining({ name: 'laptop', tokenHash: hashToken(token), scopes: ['read', 'push'] })]);
+      expect(JSON.stringify(db.apiTokens.listAll())).not.toContain(token);
+    });
+
+    it('verifies active tokens and records their use', () => {
+      const { token } = createApiToken(db, 'laptop', ['read']);
+
+      expect(db.apiTokens.hasActive()).toBe(true);
+      expect(verifyApiToken(db, token)?.name).toBe('laptop');
+      expect(db.apiTokens.listAll()[0].lastUsedAt).toBeDefined();
+      expect(verifyApiToken(db, token + 'x')).toBeUndefined();
+    });
+
+    it('revokes tokens by id, name or prefix', () => {
+      const first = createApiToken(db, 'laptop', ['read']);
+      const second = createApiToken(db, 'ci', ['push']);
+
+      expect(db.apiTokens.revoke('laptop', '2025-01-01')).toBe(1);
+      expect(db.apiTokens.revoke('laptop', '2025-01-01')).toBe(0);
+      expect(verifyApiToken(db, first.token)).toBeUndefined();
+      expect(db.apiTokens.hasActive()).toBe(true);
+
+      expect(db.apiTokens.revoke(second.apiToken.prefix, '2025-01-01')).toBe(1);
+      expect(db.apiTokens.hasActive()).toBe(false);
+      expect(db.apiTokens.listAll().map(token => token.revokedAt)).toEqual(['2025-01-01', '2025-01-01']);
+    });
+  });
+
+  it('parses scope lists', () => {
+    expect(parseScopes('read, push,read')).toEqual(['read', 'push']);
+    expect(() => parseScopes('read,admin')).toThrow('Unknown scope "admin"');
+    expect(() => parseScopes(' ')).toThrow('At least one scope');
+  });
+
+  it('maps request paths to scopes', () => {
+    expect(getRequiredScope('/api/mcp')).toBe('mcp');
+    expect(getRequiredScope('/api/import/session')).toBe('push');
+    expect(getRequiredScope('/api/import/manifest')).toBe('push');
+    expect(getRequiredScope('/api/search')).toBe('read');
+    expect(getRequiredScope('/sessions/abc')).toBe('read');
+    expect(getRequiredScope('/sessions/abc/delete', 'POST')).toBe('push');
+    expect(getRequiredScope('/api/sessions/abc', 'DELETE')).toBe('push');
+  });
+
+  it('reads tokens from bearer headers and the login cookie', () => {
+    expect(getRequestToken({ authorization: 'Bearer mm_abc' })).toBe('mm_abc');
+    expect(getRequestToken({ cookie: 'theme=dark; mm_token=mm_a%3Db' })).toBe('mm_a=b');
+    expect(getRequestToken({ authorization: 'Basic dXNlcg==' })).toBeUndefined();
+    expect(getRequestToken({})).toBeUndefined();
+  });
+
+  it('recognizes loopback addresses', () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('localhost')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+import { DatabaseManager } from '../../database';
+import { SessionProvider } from '../../types';
+import { BACKUP_FORMAT, readBackup, restoreBackup, writeBackup } from '../backup';
+
+describe('backup', () => {
+  let tempDir: string;
+  let source: DatabaseManager;
+  let archive: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-test-'));
+    source = new DatabaseManager(path.join(tempDir, 'source'));
+    archive = path.join(tempDir, 'backup.jsonl.gz');
+
+    const projectId = source.projects.upsert({ projectUuid: 'p-1', name: 'shop', path: '/work/shop', createdAt: '2025-01-01', updatedAt: '2025-01-02' });
+    const sessionId = source.sessions.upsert({
+      projectId,
+      sessionId: 's-1',
+      title: 'Fix the checkout',
+      provider: SessionProvider.CODEX,
+      gitBranch: 'main',
+      modelsJson: JSON.stringify([['gpt-5', 1]]),
+      messageCount: 2,
+      inputTokens: 100,
+      createdAt: '2025-01-01',
+      updatedAt: '2025-01-02'
+    });
+    const base = { sessionId, timestamp: '2025-01-01T10:00:00Z', createdAt: '2025-01-01', canExpand: true, isError: false };
+    source.messages.upsert({ ...base, sequence: 0, cardType: 'user', title: 'user', content: [{ type: 'text', text: 'Checkout fails' }] });
+    source.messages.upsert({ ...base, sequence: 1, cardType: 'tool-result', title: 'tool_result', isError: true, content: [{ type: 'code', code: 'Error: lock' }] });
+  });
+
+  afterEach(() => {
+    source.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes a header, the projects and one line per session', async () => {
+    expect(await writeBackup(source, archive)).toEqual({ projects: 1, sessions: 1, messages: 2 });
+
+    const records = [];
+    for await (const record of readBackup(archive)) records.push(record);
+
+    expect(records.map(record => record.type)).toEqual(['header', 'project', 'session']);
+    expect(records[0]).toMatchObject({ format: BACKUP_FORMAT, version: 1, sessions: 1 });
+    expect(records[2]).toMatchObject({ sessionId: 's-1', projectUuid: 'p-1', projectName: 'shop' });
+    expect(records[2]).not.toHaveProperty('projectId');
+  });
+
+  it('restores sessions and messages into another database', async () => {
+    await writeBackup(source, archive);
+    const target = new DatabaseManager(path.join(tempDir, 'target'));
+
+    try {
+      expect(await restoreBackup(target, archive)).toEqual({ projects: 1, sessions: 1, messages: 2 });
+      // Restoring twice replaces instead of duplicating
+      await restoreBackup(target, archive);
+
+      const project = target.projects.getByUuid('p-1')!;
+      expect(project).toMatchObject({ name: 'shop', path: '/work/shop', createdAt: '2025-01-01' });
+
+      const session = target.sessions.getBySessionId('s-1')!;
+      expect(session).toMatchObject({ projectId: project.id, title: 'Fix the checkout', provider: SessionProvider.CODEX, inputTokens: 100 });
+
+      const messages = target.messages.getBySessionId(session.id!);
+      expect(messages.map(message => message.cardType)).toEqual(['user', 'tool-result']);
+      expect(messages[1]).toMatchObject({ isError: true, content: [{ type: 'code', code: 'Error: lock' }] });
+      expect(target.messages.getCount()).toBe(2);
+    } finally {
+      target.close();
+    }
+  });
+
+  it('rejects files that are not backups or come from a newer version', async () => {
+    const other = path.join(tempDir, 'other.jsonl.gz');
+
+    fs.writeFileSync(other, gzipSync('{"type":"session"}\n'));
+    await expect(restoreBackup(source, other)).rejects.toThrow('is not a Mega Memory backup');
+
+    fs.writeFileSync(other, gzipSync(JSON.stringify({ type: 'header', format: BACKUP_FORMAT, version: 99 }) + '\n'));
+    await expect(restoreBackup(source, other)).rejects.toThrow('version 99 backup');
+  });
+});
@@ -0,0 +1,32 @@
+import { decodeCursor, encodeCursor, parsePageLimit, toPage, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../cursor';
+
+describe('cursor', () => {
+  it('round-trips a key', () => {
+    const cursor = encodeCursor({ updatedAt: '2025-01-01 10:00:00', id: 7 });
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, { updatedAt: 'string', id: 'number' })).toEqual({ updatedAt: '2025-01-01 10:00:00', id: 7 });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor', { id: 'number' })).toBeNull();
+    expect(decodeCursor(encodeCursor({ id: 'x' }), { id: 'number' })).toBeNull();
+    expect(decodeCursor(Buffer.from('[1]').toString('base64url'), { id: 'number' })).toBeNull();
+  });
+
+  it('builds pages from limit + 1 rows', () => {
+    const more = toPage([{ n: 1 }, { n: 2 }, { n: 3 }], 2, item => ({ n: item.n }));
+    expect(more.items).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(decodeCursor(more.nextCursor!, { n: 'number' })).toEqual({ n: 2 });
+
+    const last = toPage([{ n: 1 }], 2, item => ({ n: item.n }));
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('clamps the page limit', () => {
+    expect(parsePageLimit(undefined)).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parsePageLimit('abc')).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parsePageLimit('0')).toBe(1);
+    expect(parsePageLimit('10')).toBe(10);
+    expect(parsePageLimit('100000')).toBe(MAX_PAGE_LIMIT);
+  });
+});
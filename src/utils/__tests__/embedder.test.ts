@@ -0,0 +1,52 @@
+import { HashingEmbedder, TransformersEmbedder, createEmbedder, dot } from '../embedder';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+
+  it('is deterministic and normalized', async () => {
+    const [a, b] = await embedder.embed(['Refresh the session token', 'Refresh the session token']);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(dot(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('scores related wording above unrelated text', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'how did we fix the token refresh',
+      'Fixed refreshing of expired session tokens',
+      'Bump the chart colors in the stats page',
+    ]);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+
+  it('embeds empty text as a zero vector', () => {
+    expect(dot(embedder.embedOne(''), embedder.embedOne('anything'))).toBe(0);
+  });
+});
+
+describe('createEmbedder', () => {
+  it('defaults to the sentence model when transformers.js is installed', () => {
+    const embedder = createEmbedder({}, '/tmp', true);
+    expect(embedder).toBeInstanceOf(TransformersEmbedder);
+    expect(embedder.name).toBe('transformers-Xenova/all-MiniLM-L6-v2');
+  });
+
+  it('falls back to the hashing embedder without transformers.js', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(createEmbedder({}, '/tmp', false)).toBeInstanceOf(HashingEmbedder);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('@huggingface/transformers'));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('uses the hashing embedder when chosen explicitly', () => {
+    expect(createEmbedder({ embedder: 'hashing' }, '/tmp', true)).toBeInstanceOf(HashingEmbedder);
+  });
+
+  it('names transformers embedders by model', () => {
+    const embedder = createEmbedder({ embedder: 'transformers', model: 'Xenova/bge-small-en-v1.5' }, '/tmp');
+    expect(embedder).toBeInstanceOf(TransformersEmbedder);
+    expect(embedder.name).toBe('transformers-Xenova/bge-small-en-v1.5');
+  });
+});
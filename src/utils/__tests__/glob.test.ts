@@ -0,0 +1,35 @@
+import * as os from 'os';
+import { globToRegExp, matchesGlob } from '../glob';
+
+describe('glob', () => {
+  it('matches plain names exactly', () => {
+    expect(matchesGlob('my-app', 'my-app')).toBe(true);
+    expect(matchesGlob('my-app-2', 'my-app')).toBe(false);
+  });
+
+  it('matches single segments with * and ?', () => {
+    expect(matchesGlob('/work/api', '/work/*')).toBe(true);
+    expect(matchesGlob('/work/api/src', '/work/*')).toBe(false);
+    expect(matchesGlob('app1', 'app?')).toBe(true);
+  });
+
+  it('matches across segments with **', () => {
+    expect(matchesGlob('/work/api/src', '/work/**')).toBe(true);
+    expect(matchesGlob('/home/me/work/api', '**/work/*')).toBe(true);
+    expect(matchesGlob('/work/api', '/work/**/api')).toBe(true);
+  });
+
+  it('escapes regex characters', () => {
+    expect(matchesGlob('a.b', 'a.b')).toBe(true);
+    expect(matchesGlob('axb', 'a.b')).toBe(false);
+    expect(matchesGlob('app (1)', 'app (1)')).toBe(true);
+  });
+
+  it('expands a leading ~ to the home directory', () => {
+    expect(globToRegExp('~/work/*').test(`${os.homedir()}/work/api`)).toBe(true);
+  });
+
+  it('normalizes windows separators', () => {
+    expect(matchesGlob('C:\\work\\api', 'C:/work/*')).toBe(true);
+  });
+});
@@ -134,4 +134,15 @@ describe('HtmlBuilder', () => {
       expect(HtmlBuilder.escapeHtml(input)).toBe(expected);
     });
   });
+
+  describe('highlightHtml', () => {
+    it('should escape search matches around the highlight tags', () => {
+      expect(HtmlBuilder.highlightHtml('<script>alert(1)</script> fix the <mark>login</mark> test'))
+        .toBe('&lt;script&gt;alert(1)&lt;/script&gt; fix the <mark>login</mark> test');
+    });
+
+    it('should escape matches of filter-only queries without highlights', () => {
+      expect(HtmlBuilder.highlightHtml('<img src=x onerror="alert(1)">')).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    });
+  });
 });
@@ -0,0 +1,46 @@
+import * as os from 'os';
+import * as path from 'path';
+import { getEditorUserDir, resolveDataDir } from '../paths';
+
+describe('resolveDataDir', () => {
+  it('prefers --db-dir over the environment', () => {
+    const env = { MEGA_MEMORY_HOME: '/env/home', XDG_DATA_HOME: '/xdg' };
+
+    expect(resolveDataDir({ dbDir: '/custom' }, env)).toBe(path.resolve('/custom'));
+  });
+
+  it('uses MEGA_MEMORY_HOME before the XDG directory', () => {
+    expect(resolveDataDir({}, { MEGA_MEMORY_HOME: '/env/home', XDG_DATA_HOME: '/xdg' })).toBe(path.resolve('/env/home'));
+  });
+
+  it('falls back to the XDG data directory', () => {
+    expect(resolveDataDir({}, { XDG_DATA_HOME: '/xdg' })).toBe(path.join('/xdg', 'my-mega-memory'));
+  });
+
+  it('defaults to ~/.local/share when nothing is configured', () => {
+    if (process.platform === 'win32') return;
+
+    expect(resolveDataDir({}, {})).toBe(path.join(os.homedir(), '.local', 'share', 'my-mega-memory'));
+  });
+
+  it('expands ~ in configured directories', () => {
+    expect(resolveDataDir({ dbDir: '~/memory' }, {})).toBe(path.join(os.homedir(), 'memory'));
+  });
+
+  it('places profiles below the base directory', () => {
+    expect(resolveDataDir({ dbDir: '/custom', profile: 'work' }, {})).toBe(path.join(path.resolve('/custom'), 'profiles', 'work'));
+  });
+
+  it('rejects profile names that could escape the base directory', () => {
+    expect(() => resolveDataDir({ profile: '../other' }, {})).toThrow('Invalid profile name');
+  });
+});
+
+describe('getEditorUserDir', () => {
+  it('uses the XDG config directory on Linux', () => {
+    if (process.platform !== 'linux') return;
+
+    expect(getEditorUserDir('VSCodium', { XDG_CONFIG_HOME: '/xdg' })).toBe(path.join('/xdg', 'VSCodium', 'User'));
+    expect(getEditorUserDir('Code', {})).toBe(path.join(os.homedir(), '.config', 'Code', 'User'));
+  });
+});
@@ -0,0 +1,62 @@
+import { DEFAULT_PRICES } from '../../config';
+import { estimateCost, estimateSessionCost, findModelPrice, formatCost, formatTokens } from '../pricing';
+
+describe('pricing', () => {
+  const prices = {
+    'claude-sonnet-4*': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    'gpt-5*': { input: 1.25, output: 10 },
+    'gpt-5-mini*': { input: 0.25, output: 2 },
+    'my-local-model': { input: 0, output: 0 },
+  };
+
+  it('finds exact and glob prices', () => {
+    expect(findModelPrice('my-local-model', prices)).toEqual({ input: 0, output: 0 });
+    expect(findModelPrice('claude-sonnet-4-5-20250929', prices)?.input).toBe(3);
+    expect(findModelPrice('unknown-model', prices)).toBeNull();
+  });
+
+  it('prefers the most specific pattern', () => {
+    expect(findModelPrice('gpt-5-mini-2025-08-07', prices)?.input).toBe(0.25);
+    expect(findModelPrice('gpt-5-codex', prices)?.input).toBe(1.25);
+  });
+
+  it('matches models with a provider prefix', () => {
+    expect(findModelPrice('anthropic/claude-sonnet-4.5', prices)?.output).toBe(15);
+  });
+
+  it('estimates cost per million tokens', () => {
+    const cost = estimateCost(
+      { input: 1_000_000, output: 100_000, cacheRead: 2_000_000, cacheWrite: 0 },
+      prices['claude-sonnet-4*']
+    );
+
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.6);
+  });
+
+  it('falls back to the input price for cache tokens without a price', () => {
+    expect(estimateCost({ input: 0, output: 0, cacheRead: 1_000_000, cacheWrite: 0 }, prices['gpt-5*'])).toBeCloseTo(1.25);
+  });
+
+  it('reports models without a price', () => {
+    const estimate = estimateSessionCost({
+      'gpt-5': { input: 1_000_000, output: 0, cacheRead: 0, cacheWrite: 0 },
+      'mystery': { input: 1_000_000, output: 0, cacheRead: 0, cacheWrite: 0 },
+    }, prices);
+
+    expect(estimate.cost).toBeCloseTo(1.25);
+    expect(estimate.unpricedModels).toEqual(['mystery']);
+  });
+
+  it('ships defaults for common models', () => {
+    expect(findModelPrice('claude-opus-4-5-20251101', DEFAULT_PRICES)?.input).toBe(5);
+    expect(findModelPrice('claude-opus-4-1-20250805', DEFAULT_PRICES)?.input).toBe(15);
+  });
+
+  it('formats tokens and cost', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12_345)).toBe('12.3k');
+    expect(formatTokens(2_500_000)).toBe('2.5M');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(1.234)).toBe('$1.23');
+  });
+});
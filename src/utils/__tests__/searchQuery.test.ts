@@ -0,0 +1,77 @@
+import { parseSearchQuery, SearchQueryError } from '../searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('quotes plain terms and joins them with AND', () => {
+    expect(parseSearchQuery('auth redis')).toEqual({ match: '"auth" AND "redis"', filters: [] });
+    expect(parseSearchQuery('auth AND redis').match).toBe('"auth" AND "redis"');
+  });
+
+  it('compiles OR, NOT and grouping', () => {
+    expect(parseSearchQuery('auth OR oauth').match).toBe('("auth" OR "oauth")');
+    expect(parseSearchQuery('auth -test').match).toBe('"auth" NOT "test"');
+    expect(parseSearchQuery('auth NOT test NOT mock').match).toBe('"auth" NOT "test" NOT "mock"');
+    expect(parseSearchQuery('(auth OR login) redis').match).toBe('("auth" OR "login") AND "redis"');
+    expect(parseSearchQuery('auth redis OR login').match).toBe('(("auth" AND "redis") OR "login")');
+    expect(parseSearchQuery('auth redis -(test OR mock)').match).toBe('("auth" AND "redis") NOT ("test" OR "mock")');
+  });
+
+  it('keeps phrases together and supports prefixes', () => {
+    expect(parseSearchQuery('"exact phrase" -test').match).toBe('"exact phrase" NOT "test"');
+    expect(parseSearchQuery('migrat*').match).toBe('"migrat"*');
+    expect(parseSearchQuery('"foo bar"*').match).toBe('"foo bar"*');
+  });
+
+  it('searches FTS5 syntax literally', () => {
+    expect(parseSearchQuery('hello"world').match).toBe('"hello""world"');
+    expect(parseSearchQuery('src/utils/helper.ts').match).toBe('"src/utils/helper.ts"');
+    expect(parseSearchQuery('getUser() foo-bar').match).toBe('"getUser()" AND "foo-bar"');
+    expect(parseSearchQuery('http://localhost:3000').match).toBe('"http://localhost:3000"');
+  });
+
+  it('treats operators without operands as words', () => {
+    expect(parseSearchQuery('OR AND NOT').match).toBe('"OR" AND "AND" AND "NOT"');
+    expect(parseSearchQuery('rock and roll').match).toBe('"rock" AND "and" AND "roll"');
+  });
+
+  it('extracts field filters', () => {
+    const parsed = parseSearchQuery('type:tool-use tool:Bash project:"my app" provider:codex branch:main -type:thinking timeout');
+    expect(parsed.match).toBe('"timeout"');
+    expect(parsed.filters).toEqual([
+      { field: 'type', value: 'tool-use', negated: false },
+      { field: 'tool', value: 'Bash', negated: false },
+      { field: 'project', value: 'my app', negated: false },
+      { field: 'provider', value: 'codex', negated: false },
+      { field: 'branch', value: 'main', negated: false },
+      { field: 'type', value: 'thinking', negated: true }
+    ]);
+  });
+
+  it('allows queries made of filters only', () => {
+    expect(parseSearchQuery('tool:Bash')).toEqual({ filters: [{ field: 'tool', value: 'Bash', negated: false }] });
+  });
+
+  it('normalizes dates', () => {
+    const parsed = parseSearchQuery('after:2025-01-31 before:7d deploy');
+    expect(parsed.filters[0]).toEqual({ field: 'after', value: '2025-01-31T00:00:00.000Z', negated: false });
+    expect(new Date(parsed.filters[1].value).getTime()).toBeLessThan(Date.now() - 6 * 24 * 3600 * 1000);
+  });
+
+  it.each([
+    ['', 'Enter something'],
+    ['"unterminated', 'Unterminated quote'],
+    ['(auth OR login', 'Missing closing parenthesis'],
+    ['auth ()', 'Empty group'],
+    ['-test', 'need a term to exclude from'],
+    ['auth OR -test', 'need a term to exclude from'],
+    ['-type:user', 'not negated'],
+    ['type:', 'Missing value for type:'],
+    ['type:message', 'Unknown type "message"'],
+    ['provider:windsurf', 'Unknown provider "windsurf"'],
+    ['after:yesterday deploy', 'Invalid date in after:yesterday'],
+    ['auth OR type:user', 'filters cannot be used inside parentheses or with OR'],
+    ['(auth type:user) OR redis', 'filters cannot be used inside parentheses or with OR'],
+  ])('rejects %p', (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+});
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SearchDatabase } from '../../searchDatabase';
+import { VectorDatabase } from '../../vectorDatabase';
+import { SessionSearchResult } from '../../repository/SearchRepository';
+import { HashingEmbedder } from '../embedder';
+import { SearchQueryError } from '../searchQuery';
+import { SemanticIndex, fuseRankings, searchSessionsByMode } from '../semanticSearch';
+
+function result(sessionId: string, score = 1): SessionSearchResult {
+  return { sessionId, sessionTitle: sessionId, projectId: 'p1', projectName: 'proj', provider: 'claude_code', score, matchCount: 1, matches: [] };
+}
+
+describe('fuseRankings', () => {
+  it('ranks sessions found by both rankings first', () => {
+    const fused = fuseRankings([[result('a'), result('b')], [result('c'), result('b')]]);
+    expect(fused.map(r => r.sessionId)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(2 / 62, 4);
+  });
+
+  it('orders sessions below the scored ranks by their best rank', () => {
+    const fused = fuseRankings([[result('a'), result('b'), result('x'), result('c')], [result('d'), result('c')]], 60, 1);
+    expect(fused.map(r => r.sessionId)).toEqual(['a', 'd', 'b', 'c', 'x']);
+    expect(fused[2].score).toBe(0);
+  });
+
+  it('keeps the entry of the first ranking', () => {
+    const keyword = { ...result('a'), matchCount: 3 };
+    expect(fuseRankings([[keyword], [result('a')]])[0].matchCount).toBe(3);
+  });
+});
+
+describe('searchSessionsByMode', () => {
+  const embedder = new HashingEmbedder();
+  let tempDir: string;
+  let searchDb: SearchDatabase;
+  let semantic: SemanticIndex;
+
+  function add(sessionId: string, content: string): void {
+    const entry = {
+      content,
+      sessionId,
+      projectId: 'p1',
+      cardType: 'assistant',
+      sessionTitle: sessionId,
+      projectName: 'proj',
+      timestamp: '2025-01-01T00:00:00Z',
+      provider: 'claude_code',
+    };
+    searchDb.search.insert(entry);
+    semantic.db.vectors.insert({ ...entry, embedding: embedder.embedOne(content) });
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-search-test-'));
+    searchDb = new SearchDatabase(tempDir);
+    semantic = { db: new VectorDatabase(tempDir), embedder, minScore: 0.2 };
+
+    add('s1', 'Serialized the token refresh so two tabs cannot race');
+    add('s2', 'Refreshing tokens failed after the session expired');
+    add('s3', 'Updated chart colors on the stats page');
+  });
+
+  afterEach(() => {
+    searchDb.close();
+    semantic.db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds sessions with different wording semantically', async () => {
+    expect((await searchSessionsByMode(searchDb, semantic, 'refreshed token', 'keyword')).total).toBe(0);
+
+    const page = await searchSessionsByMode(searchDb, semantic, 'refreshed token', 'semantic');
+    expect(page.results.map(r => r.sessionId).sort()).toEqual(['s1', 's2']);
+  });
+
+  it('fuses keyword and semantic rankings in hybrid mode', async () => {
+    const page = await searchSessionsByMode(searchDb, semantic, 'two tabs race', 'hybrid', { limit: 1 });
+    expect(page.results.map(r => r.sessionId)).toEqual(['s1']);
+    expect(page.results[0].matches[0].content).toContain('<mark>');
+    expect(page.total).toBeGreaterThanOrEqual(1);
+  });
+
+  it('pages hybrid results past the first candidates of each ranking', async () => {
+    for (let i = 0; i < 130; i++) {
+      add(`k${String(i).padStart(3, '0')}`, `token refresh attempt ${i}`);
+    }
+
+    const first = await searchSessionsByMode(searchDb, semantic, 'token refresh', 'hybrid', { limit: 50 });
+    expect(first.results).toHaveLength(50);
+    expect(first.total).toBeGreaterThanOrEqual(130);
+
+    const seen = first.results.map(r => r.sessionId);
+    let page = first;
+    for (let offset = 50; page.results.length > 0; offset += 50) {
+      page = await searchSessionsByMode(searchDb, semantic, 'token refresh', 'hybrid', { limit: 50, offset });
+      seen.push(...page.results.map(r => r.sessionId));
+    }
+
+    // The 130 added sessions plus s1 and s2 from the fixture, each on exactly one page
+    expect(seen).toHaveLength(132);
+    expect(new Set(seen).size).toBe(132);
+    const last = await searchSessionsByMode(searchDb, semantic, 'token refresh', 'hybrid', { limit: 50, offset: 100 });
+    expect(last.total).toBe(132);
+    expect(last.totalIsLowerBound).toBe(false);
+  });
+
+  it('requires an embedding index for semantic modes', async () => {
+    await expect(searchSessionsByMode(searchDb, undefined, 'token', 'hybrid')).rejects.toThrow(SearchQueryError);
+  });
+});
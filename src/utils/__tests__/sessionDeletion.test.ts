@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../../database';
+import { SearchDatabase } from '../../searchDatabase';
+import { RenderableMessage, SessionProvider } from '../../types';
+import { STRIPPED_CONTENT, SessionStores, applyRetention, deleteProject, deleteSession, hasRetentionPolicy, pruneMissingSources } from '../sessionDeletion';
+
+describe('session deletion', () => {
+  let tempDir: string;
+  let stores: SessionStores;
+
+  function addSession(projectUuid: string, sessionId: string, text: string, updatedAt = '2025-01-01'): void {
+    const projectId = stores.db.projects.upsert({ projectUuid, name: projectUuid, path: `/work/${projectUuid}`, createdAt: '2025-01-01', updatedAt });
+    stores.db.sessions.upsert({
+      projectId,
+      sessionId,
+      title: text,
+      provider: SessionProvider.CLAUDE_CODE,
+      messageCount: 2,
+      createdAt: '2025-01-01',
+      updatedAt
+    });
+
+    addMessage(sessionId, 0, 'user', text, '2025-01-01T10:00:00Z');
+    addMessage(sessionId, 1, 'user', `${text} again`, '2025-01-01T10:00:00Z');
+  }
+
+  function addMessage(sessionId: string, sequence: number, cardType: RenderableMessage['cardType'], text: string, timestamp: string): void {
+    const session = stores.db.sessions.getBySessionId(sessionId)!;
+    const project = stores.db.projects.getById(session.projectId)!;
+
+    stores.db.messages.upsert({ sessionId: session.id!, sequence, cardType, title: cardType, content: [{ type: 'text', text }], timestamp, createdAt: '2025-01-01', canExpand: true, isError: false });
+    stores.searchDb.search.insert({ content: text, sessionId, projectId: project.projectUuid, cardType, sessionTitle: session.title, projectName: project.name, timestamp, provider: SessionProvider.CLAUDE_CODE });
+  }
+
+  function trackSource(sessionId: string, sourcePath: string): void {
+    stores.db.importState.upsert({ provider: SessionProvider.CLAUDE_CODE, sourcePath, size: 1, mtimeMs: 1, contentHash: 'hash', sessionId, importedAt: '2025-01-01' });
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-deletion-test-'));
+    stores = { db: new DatabaseManager(tempDir), searchDb: new SearchDatabase(tempDir) };
+
+    addSession('shop', 's-1', 'checkout leaked secret');
+    addSession('shop', 's-2', 'checkout retry logic', '2025-03-01');
+    addSession('blog', 's-3', 'render markdown posts', '2025-03-01');
+  });
+
+  afterEach(() => {
+    stores.db.close();
+    stores.searchDb.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('deletes a session with its messages and search entries', () => {
+    expect(deleteSession(stores, 's-1')).toEqual({ projects: 0, sessions: 1, messages: 2 });
+
+    expect(stores.db.sessions.getBySessionId('s-1')).toBeUndefined();
+    expect(stores.db.messages.getCount()).toBe(4);
+    expect(stores.searchDb.search.searchSessions('leaked').total).toBe(0);
+    expect(stores.searchDb.search.searchSessions('checkout').total).toBe(1);
+    expect(deleteSession(stores, 's-1').sessions).toBe(0);
+  });
+
+  it('deletes a project with all of its sessions', () => {
+    expect(deleteProject(stores, 'shop')).toEqual({ projects: 1, sessions: 2, messages: 4 });
+
+    expect(stores.db.projects.getByUuid('shop')).toBeUndefined();
+    expect(stores.db.sessions.getCount()).toBe(1);
+    expect(stores.db.messages.getCount()).toBe(2);
+    expect(stores.searchDb.search.getCount()).toBe(2);
+    expect(deleteProject(stores, 'shop')).toBeNull();
+  });
+
+  it('prunes sessions whose source files are gone, and projects left empty', () => {
+    const existing = path.join(tempDir, 'existing.jsonl');
+    fs.writeFileSync(existing, '{}');
+    trackSource('s-1', path.join(tempDir, 'deleted.jsonl'));
+    trackSource('s-2', existing);
+    trackSource('s-3', path.join(tempDir, 'moved.jsonl'));
+    trackSource('s-3', path.join(tempDir, 'also-deleted.jsonl'));
+
+    const dryRun = pruneMissingSources(stores, { dryRun: true });
+    expect(dryRun).toMatchObject({ projects: 0, sessions: 2, messages: 4 });
+    expect(dryRun.missingSources).toHaveLength(3);
+    expect(stores.db.sessions.getCount()).toBe(3);
+
+    const result = pruneMissingSources(stores);
+    expect(result).toMatchObject({ projects: 1, sessions: 2, messages: 4 });
+    expect(stores.db.sessions.getBySessionId('s-2')).toBeDefined();
+    expect(stores.db.projects.getByUuid('blog')).toBeUndefined();
+    expect(stores.db.importState.listAll().map(state => state.sourcePath)).toEqual([existing]);
+    expect(stores.searchDb.search.getCount()).toBe(2);
+  });
+
+  it('keeps sessions that still have another source or were pushed', () => {
+    const existing = path.join(tempDir, 'existing.jsonl');
+    fs.writeFileSync(existing, '{}');
+    trackSource('s-1', path.join(tempDir, 'old-location.jsonl'));
+    trackSource('s-1', existing);
+
+    expect(pruneMissingSources(stores)).toMatchObject({ projects: 0, sessions: 0 });
+    expect(stores.db.sessions.getCount()).toBe(3);
+  });
+
+  describe('retention', () => {
+    const now = Date.parse('2025-03-11T00:00:00Z');
+
+    it('deletes sessions beyond the age and per-project limits', () => {
+      expect(hasRetentionPolicy({})).toBe(false);
+      expect(hasRetentionPolicy({ maxAgeDays: 0, maxSessionsPerProject: 1 })).toBe(true);
+
+      expect(applyRetention(stores, { maxSessionsPerProject: 1 }, { now, dryRun: true })).toMatchObject({ sessions: 1, messages: 2 });
+      expect(stores.db.sessions.getCount()).toBe(3);
+
+      expect(applyRetention(stores, { maxSessionsPerProject: 1 }, { now })).toMatchObject({ projects: 0, sessions: 1 });
+      expect(stores.db.sessions.getBySessionId('s-1')).toBeUndefined();
+      expect(stores.searchDb.search.searchSessions('leaked').total).toBe(0);
+
+      expect(applyRetention(stores, { maxAgeDays: 5 }, { now })).toMatchObject({ projects: 2, sessions: 2, messages: 4 });
+      expect(stores.db.sessions.getCount()).toBe(0);
+    });
+
+    it('strips old thinking and tool result content but keeps the conversation', () => {
+      addMessage('s-3', 2, 'thinking', 'pondering the markdown renderer', '2025-01-01T11:00:00Z');
+      addMessage('s-3', 3, 'tool-result', 'old build output', '2025-01-01T11:00:00Z');
+      addMessage('s-3', 4, 'tool-result', 'recent build output', '2025-03-10T11:00:00Z');
+
+      const dryRun = applyRetention(stores, { stripContentAfterDays: 30 }, { now, dryRun: true });
+      expect(dryRun).toMatchObject({ sessions: 0, strippedMessages: 2 });
+      expect(dryRun.strippedBytes).toBeGreaterThan(0);
+      expect(stores.searchDb.search.searchSessions('pondering').total).toBe(1);
+
+      expect(applyRetention(stores, { stripContentAfterDays: 30 }, { now })).toMatchObject({ sessions: 0, strippedMessages: 2 });
+      const messages = stores.db.messages.getBySessionId(stores.db.sessions.getBySessionId('s-3')!.id!);
+      expect(messages.map(message => message.content)).toEqual([
+        [{ type: 'text', text: 'render markdown posts' }],
+        [{ type: 'text', text: 'render markdown posts again' }],
+        STRIPPED_CONTENT,
+        STRIPPED_CONTENT,
+        [{ type: 'text', text: 'recent build output' }],
+      ]);
+      expect(stores.searchDb.search.searchSessions('pondering').total).toBe(0);
+      expect(stores.searchDb.search.searchSessions('recent build').total).toBe(1);
+      expect(stores.searchDb.search.searchSessions('markdown posts').total).toBe(1);
+
+      expect(applyRetention(stores, { stripContentAfterDays: 30 }, { now }).strippedMessages).toBe(0);
+    });
+  });
+});
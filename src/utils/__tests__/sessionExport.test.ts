@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../../database';
+import { SessionProvider } from '../../types';
+import { formatRenderableMessage, formatSessionExport, getExportFileName, loadSessionExport, SessionExport } from '../sessionExport';
+
+describe('session export', () => {
+  let tempDir: string;
+  let db: DatabaseManager;
+  let data: SessionExport;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-export-test-'));
+    db = new DatabaseManager(tempDir);
+
+    const projectId = db.projects.upsert({ projectUuid: 'p-1', name: 'shop', path: '/work/shop', createdAt: '2025-01-01', updatedAt: '2025-01-01' });
+    const sessionId = db.sessions.upsert({
+      projectId,
+      sessionId: 'a1b2c3d4-session',
+      title: 'Fix the checkout: race',
+      provider: SessionProvider.CLAUDE_CODE,
+      gitBranch: 'main',
+      modelsJson: JSON.stringify([['claude-sonnet-4', 2]]),
+      created: '2025-01-01T10:00:00Z',
+      messageCount: 3,
+      inputTokens: 100,
+      outputTokens: 20,
+      createdAt: '2025-01-01',
+      updatedAt: '2025-01-01'
+    });
+    const base = { sessionId, timestamp: '2025-01-01T10:00:00Z', createdAt: '2025-01-01', canExpand: true, isError: false };
+    db.messages.upsert({ ...base, sequence: 0, cardType: 'user', title: 'user', content: [{ type: 'text', text: 'Checkout fails <sometimes>' }] });
+    db.messages.upsert({ ...base, sequence: 1, cardType: 'tool-use', title: 'tool_use', subtitle: 'Edit', content: [{ type: 'diff', oldText: 'let lock', newText: 'const lock', filePath: 'cart.ts' }] });
+    db.messages.upsert({ ...base, sequence: 2, cardType: 'assistant', title: 'text', content: [{ type: 'markdown', markdown: 'Fixed **it**' }] });
+
+    data = loadSessionExport(db, 'a1b2c3d4-session')!;
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('loads a normalized session without database ids', () => {
+    expect(data.project).toEqual({ projectUuid: 'p-1', name: 'shop', path: '/work/shop' });
+    expect(data.metadata).toMatchObject({ gitBranch: 'main', models: [['claude-sonnet-4', 2]], usage: { input: 100, output: 20, cacheRead: 0, cacheWrite: 0 } });
+    expect(data.messages).toHaveLength(3);
+    expect(data.messages[0]).not.toHaveProperty('id');
+    expect(data.messages[0]).not.toHaveProperty('createdAt');
+    expect(loadSessionExport(db, 'missing')).toBeNull();
+  });
+
+  it('formats Markdown with a header and one section per message', () => {
+    const markdown = formatSessionExport(data, 'md');
+    expect(markdown.startsWith('# Fix the checkout: race\n\n- Project: shop\n- Provider: claude_code\n- Branch: main')).toBe(true);
+    expect(markdown).toContain('[1] tool-use: tool_use\n\nEdit\n\n```diff\n# cart.ts\nlet lock\n---\nconst lock\n```');
+    expect(markdown.split('\n---\n\n')).toHaveLength(4);
+  });
+
+  it('fences code with more backticks than it contains', () => {
+    const markdown = formatRenderableMessage({
+      sequence: 3,
+      cardType: 'tool-result',
+      title: 'Read',
+      content: [
+        { type: 'code', code: 'Usage:\n```bash\nnpm test\n```', language: 'markdown' },
+        { type: 'json', json: '{"a": 1}' },
+      ],
+    });
+
+    expect(markdown).toBe('[3] tool-result: Read\n\n````markdown\nUsage:\n```bash\nnpm test\n```\n````\n\n```json\n{"a": 1}\n```');
+  });
+
+  it('formats self-contained HTML with escaped text and diff views', () => {
+    const html = formatSessionExport(data, 'html');
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<link|<script/);
+    expect(html).toContain('Checkout fails &lt;sometimes&gt;');
+    expect(html).toContain('<div class="diff-line diff-added">');
+    expect(html).toContain('<strong>it</strong>');
+  });
+
+  it('formats JSON and one JSONL line per message', () => {
+    expect(JSON.parse(formatSessionExport(data, 'json'))).toEqual(data);
+
+    const lines = formatSessionExport(data, 'jsonl').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.sequence)).toEqual([0, 1, 2]);
+    expect(lines[0].sessionId).toBe('a1b2c3d4-session');
+  });
+
+  it('names files after the title', () => {
+    expect(getExportFileName(data, 'html')).toBe('fix-the-checkout-race-a1b2c3d4.html');
+  });
+});
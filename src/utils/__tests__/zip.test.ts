@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listZipEntries, readZipEntry } from '../zip';
+
+const archivePath = path.join(__dirname, 'fixtures', 'archive.zip');
+
+describe('zip', () => {
+  it('should list entries', () => {
+    expect(listZipEntries(archivePath)).toEqual(['readme.txt', 'data/notes.md']);
+  });
+
+  it('should read stored entries', () => {
+    const entry = readZipEntry(archivePath, name => name === 'readme.txt');
+    expect(entry?.name).toBe('readme.txt');
+    expect(entry?.data.toString('utf-8')).toBe('stored entry\n');
+  });
+
+  it('should read deflated entries', () => {
+    const entry = readZipEntry(archivePath, name => name.endsWith('.md'));
+    expect(entry?.name).toBe('data/notes.md');
+    expect(entry?.data.toString('utf-8')).toBe('# Notes\n\n' + 'deflated entry\n'.repeat(20));
+  });
+
+  it('should return null if no entry matches', () => {
+    expect(readZipEntry(archivePath, name => name === 'missing.json')).toBeNull();
+  });
+
+  it('should reject files that are not zip archives', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zip-test-')), 'conversations.json');
+    fs.writeFileSync(filePath, '[]');
+
+    try {
+      expect(() => listZipEntries(filePath)).toThrow(`Not a zip archive: ${filePath}`);
+    } finally {
+      fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    }
+  });
+});
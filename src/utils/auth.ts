@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto';
+import { DatabaseManager } from '../database';
+import { ApiToken, TokenScope } from '../types';
+import { toDateTimeString } from './time';
+
+export const TOKEN_SCOPES: readonly TokenScope[] = ['read', 'push', 'mcp'];
+
+/** Cookie holding the token of a web UI login */
+export const AUTH_COOKIE = 'mm_token';
+
+const TOKEN_PREFIX = 'mm_';
+const PREFIX_LENGTH = 10;
+
+// Only refresh last_used_at once a minute, not on every request
+const TOUCH_INTERVAL_MS = 60_000;
+
+/**
+ * Parse a comma separated scope list such as "read,push"
+ * @throws Error for unknown scopes
+ */
+export function parseScopes(value: string): TokenScope[] {
+  const scopes = value.split(',').map(scope => scope.trim()).filter(Boolean);
+
+  for (const scope of scopes) {
+    if (!(TOKEN_SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(`Unknown scope "${scope}". Available: ${TOKEN_SCOPES.join(', ')}`);
+    }
+  }
+  if (scopes.length === 0) {
+    throw new Error(`At least one scope is required: ${TOKEN_SCOPES.join(', ')}`);
+  }
+
+  return [...new Set(scopes)] as TokenScope[];
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create and store a token
+ * @returns the secret, which cannot be recovered later, and the stored record
+ */
+export function createApiToken(db: DatabaseManager, name: string, scopes: TokenScope[]): { token: string; apiToken: ApiToken } {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const apiToken: ApiToken = {
+    name,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, PREFIX_LENGTH),
+    scopes,
+    createdAt: toDateTimeString(Date.now()),
+  };
+  apiToken.id = db.apiTokens.insert(apiToken);
+
+  return { token, apiToken };
+}
+
+/**
+ * Look up an active token by its secret and record its use
+ */
+export function verifyApiToken(db: DatabaseManager, token: string): ApiToken | undefined {
+  const apiToken = db.apiTokens.getActiveByHash(hashToken(token));
+  if (!apiToken) return undefined;
+
+  const now = Date.now();
+  if (!apiToken.lastUsedAt || now - new Date(apiToken.lastUsedAt).getTime() > TOUCH_INTERVAL_MS) {
+    db.apiTokens.touch(apiToken.id!, toDateTimeString(now));
+  }
+  return apiToken;
+}
+
+/**
+ * Scope needed for a request: MCP, pushing or deleting sessions, or reading everything else
+ */
+export function getRequiredScope(requestPath: string, method: string = 'GET'): TokenScope {
+  if (requestPath === '/api/mcp' || requestPath.startsWith('/api/mcp/')) return 'mcp';
+  if (requestPath.startsWith('/api/import/')) return 'push';
+  if (method !== 'GET' && method !== 'HEAD') return 'push';
+  return 'read';
+}
+
+/**
+ * Token from an "Authorization: Bearer" header or the login cookie
+ */
+export function getRequestToken(headers: { authorization?: string; cookie?: string }): string | undefined {
+  const bearer = headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) return bearer[1];
+
+  for (const part of (headers.cookie || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === AUTH_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a listen address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
@@ -0,0 +1,157 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { DatabaseManager } from '../database';
+import { Project, RenderableMessage, SessionWithProject } from '../types';
+
+export const BACKUP_FORMAT = 'my-mega-memory-backup';
+
+/** Archive schema version; restore accepts archives up to this version */
+export const BACKUP_VERSION = 1;
+
+/**
+ * First line of an archive
+ */
+export interface BackupHeader {
+  type: 'header';
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  projects: number;
+  sessions: number;
+  messages: number;
+}
+
+export interface BackupProject extends Omit<Project, 'id'> {
+  type: 'project';
+}
+
+/**
+ * A session with its messages, on one line
+ * Database ids are replaced by the project UUID, so an archive can be restored into any database.
+ */
+export interface BackupSession extends Omit<SessionWithProject, 'id' | 'projectId'> {
+  type: 'session';
+  projectUuid: string;
+  messages: Array<Omit<RenderableMessage, 'id' | 'sessionId'>>;
+}
+
+export type BackupRecord = BackupHeader | BackupProject | BackupSession;
+
+export interface BackupSummary {
+  projects: number;
+  sessions: number;
+  messages: number;
+}
+
+/**
+ * Write all projects, sessions and messages to a gzipped JSONL archive
+ * Projects come before the sessions that reference them.
+ */
+export async function writeBackup(db: DatabaseManager, file: string): Promise<BackupSummary> {
+  const projects = db.projects.listAll();
+  const summary: BackupSummary = {
+    projects: projects.length,
+    sessions: db.sessions.getCount(),
+    messages: db.messages.getCount(),
+  };
+
+  function* lines(): Generator<string> {
+    const header: BackupHeader = { type: 'header', format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: new Date().toISOString(), ...summary };
+    yield JSON.stringify(header) + '\n';
+
+    for (const item of projects) {
+      const { id, ...project } = db.projects.getById(item.id)!;
+      const record: BackupProject = { type: 'project', ...project };
+      yield JSON.stringify(record) + '\n';
+    }
+
+    for (const project of projects) {
+      for (const { id, projectId, ...session } of db.sessions.getByProjectId(project.id)) {
+        const record: BackupSession = {
+          type: 'session',
+          ...session,
+          projectUuid: project.projectUuid,
+          projectName: project.name,
+          messages: db.messages.getBySessionId(id!).map(({ id, sessionId, ...message }) => message),
+        };
+        yield JSON.stringify(record) + '\n';
+      }
+    }
+  }
+
+  await pipeline(Readable.from(lines()), createGzip(), createWriteStream(file));
+  return summary;
+}
+
+/**
+ * Read the records of an archive
+ * @throws Error if the file is not an archive or was written by a newer version
+ */
+export async function* readBackup(file: string): AsyncGenerator<BackupRecord> {
+  const lines = createInterface({ input: createReadStream(file).pipe(createGunzip()), crlfDelay: Infinity });
+  let header: BackupHeader | undefined;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    const record = JSON.parse(line) as BackupRecord;
+    if (!header) {
+      if (record.type !== 'header' || record.format !== BACKUP_FORMAT) {
+        throw new Error(`${file} is not a Mega Memory backup`);
+      }
+      if (record.version > BACKUP_VERSION) {
+        throw new Error(`${file} is a version ${record.version} backup; this version can restore up to version ${BACKUP_VERSION}`);
+      }
+      header = record;
+    }
+
+    yield record;
+  }
+
+  if (!header) {
+    throw new Error(`${file} is empty`);
+  }
+}
+
+/**
+ * Restore an archive into sessions.db
+ * Existing projects and sessions with the same ids are overwritten; everything else is kept.
+ * The search index is not touched, rebuild it afterwards.
+ */
+export async function restoreBackup(db: DatabaseManager, file: string): Promise<BackupSummary> {
+  const projectIds = new Map<string, number>();
+  const summary: BackupSummary = { projects: 0, sessions: 0, messages: 0 };
+
+  for await (const record of readBackup(file)) {
+    if (record.type === 'project') {
+      const { type, ...project } = record;
+      projectIds.set(project.projectUuid, db.projects.upsert(project));
+      summary.projects++;
+    } else if (record.type === 'session') {
+      const { type, projectUuid, projectName, messages, ...session } = record;
+      const projectId = projectIds.get(projectUuid);
+      if (projectId === undefined) {
+        throw new Error(`Session ${session.sessionId} references unknown project ${projectUuid}`);
+      }
+
+      db.beginTransaction();
+      try {
+        const sessionId = db.sessions.upsert({ ...session, projectId });
+        db.messages.deleteBySessionId(sessionId);
+        messages.forEach(message => db.messages.upsert({ ...message, sessionId }));
+        db.commitTransaction();
+      } catch (e) {
+        db.rollbackTransaction();
+        throw e;
+      }
+
+      summary.sessions++;
+      summary.messages += messages.length;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,56 @@
+/**
+ * Opaque cursors for keyset pagination.
+ * A cursor is the sort key of the last item of a page, JSON encoded as base64url,
+ * so the next page continues after that item even when rows are added in between.
+ */
+
+export type CursorKey = Record<string, string | number>;
+
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor and check that it has the expected fields with the expected types
+ * @returns null if the cursor is malformed
+ */
+export function decodeCursor<T extends CursorKey>(cursor: string, fields: Record<keyof T, 'string' | 'number'>): T | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!key || typeof key !== 'object' || Array.isArray(key)) return null;
+
+    for (const [field, type] of Object.entries(fields)) {
+      if (typeof key[field] !== type) return null;
+    }
+    return key as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a page from rows queried with `limit + 1`, the extra row telling whether more follow
+ */
+export function toPage<T>(rows: T[], limit: number, keyOf: (item: T) => CursorKey): Page<T> {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit && items.length > 0 ? encodeCursor(keyOf(items[items.length - 1])) : null;
+  return { items, nextCursor };
+}
+
+/**
+ * Parse a `limit` query parameter, clamped to 1..MAX_PAGE_LIMIT
+ */
+export function parsePageLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? ''), 10);
+  if (Number.isNaN(limit)) return DEFAULT_PAGE_LIMIT;
+  return Math.min(Math.max(limit, 1), MAX_PAGE_LIMIT);
+}
@@ -0,0 +1,179 @@
+import path from 'path';
+
+/**
+ * Turns text into fixed-size vectors for semantic search
+ * Vectors are L2-normalized, so the dot product is the cosine similarity.
+ */
+export interface Embedder {
+  /** Identifies the embedder and model; the vector index is rebuilt when it changes */
+  readonly name: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/**
+ * Embedding settings in config.json; semantic search is disabled without them
+ */
+export interface EmbeddingConfig {
+  /**
+   * "transformers" (default when @huggingface/transformers is installed) or "hashing"
+   * (no dependencies, lexical only; used in tests and as the fallback)
+   */
+  embedder?: 'hashing' | 'transformers';
+  /** transformers.js model, downloaded once into <data dir>/models */
+  model?: string;
+  /** Minimum cosine similarity of semantic matches */
+  minScore?: number;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+const HASHING_DIMENSIONS = 512;
+
+// Frequent words that would otherwise make every English message look alike
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not',
+  'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then', 'there', 'this', 'to', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Deterministic feature hashing of words and character trigrams
+ * Needs no model, so it is the embedder used in tests and the fallback without
+ * transformers.js. It finds related wording (plurals, inflections, shared terms) but not synonyms.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(private readonly dimensions: number = HASHING_DIMENSIONS) {
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      if (STOP_WORDS.has(word)) continue;
+      this.add(vector, `w:${word}`, 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private add(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The sign bit keeps collisions from adding up to a bias
+    vector[hash % this.dimensions] += (hash & 0x80000000) ? -weight : weight;
+  }
+}
+
+/**
+ * Sentence embeddings computed on the CPU with transformers.js
+ * The package is an optional dependency; the model is downloaded on first use
+ */
+export class TransformersEmbedder implements Embedder {
+  readonly name: string;
+  private extractor?: Promise<any>;
+
+  constructor(private readonly model: string = DEFAULT_EMBEDDING_MODEL, private readonly cacheDir?: string) {
+    this.name = `transformers-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return (output.tolist() as number[][]).map(values => Float32Array.from(values));
+  }
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor();
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<any> {
+    // Not a literal specifier, so TypeScript does not require the optional package to be installed
+    const packageName = TRANSFORMERS_PACKAGE;
+    let transformers: any;
+    try {
+      transformers = await import(packageName);
+    } catch {
+      throw new Error(`The transformers embedder needs ${packageName}: npm install ${packageName}`);
+    }
+
+    if (this.cacheDir) {
+      transformers.env.cacheDir = this.cacheDir;
+    }
+    return transformers.pipeline('feature-extraction', this.model);
+  }
+}
+
+/**
+ * Whether the optional transformers.js package is installed
+ */
+export function isTransformersAvailable(): boolean {
+  try {
+    require.resolve(TRANSFORMERS_PACKAGE);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create the embedder selected in config.json
+ * Without a choice, the sentence model is used when transformers.js is installed.
+ */
+export function createEmbedder(config: EmbeddingConfig, dataDir: string, transformersAvailable: boolean = isTransformersAvailable()): Embedder {
+  const embedder = config.embedder || (transformersAvailable ? 'transformers' : 'hashing');
+
+  if (embedder === 'transformers') {
+    return new TransformersEmbedder(config.model || DEFAULT_EMBEDDING_MODEL, path.join(dataDir, 'models'));
+  }
+  if (!config.embedder) {
+    console.warn(`Semantic search falls back to the hashing embedder, which only matches related wording. Install ${TRANSFORMERS_PACKAGE} for the sentence model.`);
+  }
+  return new HashingEmbedder();
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Dot product; the cosine similarity of normalized vectors
+ */
+export function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
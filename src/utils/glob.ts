@@ -0,0 +1,46 @@
+import * as os from 'os';
+
+/**
+ * Convert a shell-style glob into a RegExp matching the whole string.
+ * Supports `*` (within one path segment), `**` (across segments), `?` and a leading `~`.
+ * Backslashes are treated as path separators so Windows paths match the same patterns.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.replace(/\\/g, '/');
+  if (glob === '~' || glob.startsWith('~/')) {
+    glob = os.homedir().replace(/\\/g, '/') + glob.slice(1);
+  }
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a value (name or path) against a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value.replace(/\\/g, '/'));
+}
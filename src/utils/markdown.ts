@@ -43,6 +43,16 @@ export class HtmlBuilder {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&#039;');
   }
+
+  /**
+   * Escapes a search match and keeps only the <mark> tags that highlight() put around the matched terms
+   */
+  static highlightHtml(text: string): string {
+    return text
+      .split(/(<\/?mark>)/)
+      .map(part => part === '<mark>' || part === '</mark>' ? part : HtmlBuilder.escapeHtml(part))
+      .join('');
+  }
 }
 
 /**
@@ -0,0 +1,66 @@
+import * as os from 'os';
+import * as path from 'path';
+
+const APP_DIR_NAME = 'my-mega-memory';
+
+export interface DataDirOptions {
+  /** Explicit database directory (--db-dir), wins over everything else */
+  dbDir?: string;
+  /** Named profile (--profile), stored below <base>/profiles/<name> */
+  profile?: string;
+}
+
+/**
+ * Resolve the directory holding sessions.db and search.db
+ * Precedence: --db-dir, MEGA_MEMORY_HOME, $XDG_DATA_HOME/my-mega-memory, platform default
+ */
+export function resolveDataDir(options: DataDirOptions = {}, env: NodeJS.ProcessEnv = process.env): string {
+  const base = options.dbDir
+    ? path.resolve(expandHome(options.dbDir))
+    : env.MEGA_MEMORY_HOME
+      ? path.resolve(expandHome(env.MEGA_MEMORY_HOME))
+      : defaultDataDir(env);
+
+  if (!options.profile) {
+    return base;
+  }
+
+  if (!/^[A-Za-z0-9_-]+$/.test(options.profile)) {
+    throw new Error(`Invalid profile name "${options.profile}": use letters, digits, "-" and "_"`);
+  }
+
+  return path.join(base, 'profiles', options.profile);
+}
+
+/**
+ * User settings directory of a VS Code based editor, e.g. "Code", "VSCodium" or "Cursor"
+ * Holds globalStorage/ (extension data) and workspaceStorage/
+ */
+export function getEditorUserDir(appName: string, env: NodeJS.ProcessEnv = process.env): string {
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', appName, 'User');
+  }
+  if (process.platform === 'win32' && env.APPDATA) {
+    return path.join(env.APPDATA, appName, 'User');
+  }
+  return path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), appName, 'User');
+}
+
+function defaultDataDir(env: NodeJS.ProcessEnv): string {
+  if (env.XDG_DATA_HOME) {
+    return path.join(env.XDG_DATA_HOME, APP_DIR_NAME);
+  }
+
+  if (process.platform === 'win32' && env.LOCALAPPDATA) {
+    return path.join(env.LOCALAPPDATA, APP_DIR_NAME);
+  }
+
+  return path.join(os.homedir(), '.local', 'share', APP_DIR_NAME);
+}
+
+function expandHome(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')) {
+    return path.join(os.homedir(), dir.slice(1));
+  }
+  return dir;
+}
@@ -0,0 +1,98 @@
+import { ModelPrice } from '../config';
+import { Session, TokenUsage } from '../types';
+import { matchesGlob } from './glob';
+
+export interface CostEstimate {
+  /** Estimated cost in USD of all priced models */
+  cost: number;
+  /** Models with usage but no matching price */
+  unpricedModels: string[];
+}
+
+/**
+ * Find the price for a model: exact name first, then the most specific glob
+ * Provider prefixes like "anthropic/claude-sonnet-4.5" are matched without the prefix too
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+
+  const names = model.includes('/') ? [model, model.slice(model.lastIndexOf('/') + 1)] : [model];
+  const patterns = Object.keys(prices).sort((a, b) => b.length - a.length);
+
+  for (const pattern of patterns) {
+    if (names.some(name => matchesGlob(name.toLowerCase(), pattern.toLowerCase()))) {
+      return prices[pattern];
+    }
+  }
+
+  return null;
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    usage.input * price.input +
+    usage.output * price.output +
+    usage.cacheRead * (price.cacheRead ?? price.input) +
+    usage.cacheWrite * (price.cacheWrite ?? price.input)
+  ) / 1_000_000;
+}
+
+/**
+ * Estimate the cost of a session from its per-model usage
+ */
+export function estimateSessionCost(usageByModel: Record<string, TokenUsage>, prices: Record<string, ModelPrice>): CostEstimate {
+  let cost = 0;
+  const unpricedModels: string[] = [];
+
+  for (const [model, usage] of Object.entries(usageByModel)) {
+    const price = findModelPrice(model, prices);
+    if (price) {
+      cost += estimateCost(usage, price);
+    } else {
+      unpricedModels.push(model);
+    }
+  }
+
+  return { cost, unpricedModels };
+}
+
+/**
+ * Format a token count for display, e.g. 1234567 -> "1.2M"
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+export interface SessionUsageSummary {
+  usage: TokenUsage;
+  byModel: Record<string, TokenUsage>;
+  estimate: CostEstimate;
+}
+
+/**
+ * Token totals and estimated cost of a stored session, null if the provider recorded no usage
+ */
+export function summarizeSessionUsage(session: Session, prices: Record<string, ModelPrice>): SessionUsageSummary | null {
+  if (session.inputTokens === undefined && session.outputTokens === undefined) {
+    return null;
+  }
+
+  const byModel: Record<string, TokenUsage> = session.usageJson ? JSON.parse(session.usageJson) : {};
+
+  return {
+    usage: {
+      input: session.inputTokens || 0,
+      output: session.outputTokens || 0,
+      cacheRead: session.cacheReadTokens || 0,
+      cacheWrite: session.cacheWriteTokens || 0
+    },
+    byModel,
+    estimate: estimateSessionCost(byModel, prices)
+  };
+}
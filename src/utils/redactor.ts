@@ -0,0 +1,277 @@
+import { MessageContent, ParsedMessage } from '../types';
+import { SessionWithProject } from '../adapters/sessionAdapter';
+import { matchesGlob } from './glob';
+
+/**
+ * User-defined pattern in config.json
+ * With a named group "secret" only that part of the match is redacted.
+ */
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+  /** RegExp flags; "g" is always added */
+  flags?: string;
+}
+
+export interface ProjectRedactionConfig {
+  enabled?: boolean;
+  /** Turn single built-in detectors on or off, e.g. { "high-entropy": false } */
+  detectors?: Record<string, boolean>;
+  rules?: RedactionRule[];
+}
+
+/**
+ * Redaction settings in config.json; built-in detectors are on by default
+ */
+export interface RedactionConfig extends ProjectRedactionConfig {
+  /** Overrides for projects whose path or name matches the glob; rules are added to the global ones */
+  projects?: Record<string, ProjectRedactionConfig>;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Extra check on the matched secret, for patterns that also match harmless text */
+  accept?: (secret: string) => boolean;
+}
+
+const HIGH_ENTROPY_BITS = 4.5;
+
+export const BUILT_IN_DETECTORS: Detector[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'aws-secret-key', pattern: /aws_secret_access_key["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gi },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'api-key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: 'bearer-token', pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/gi },
+  {
+    // .env style assignments such as DB_PASSWORD=... or export API_KEY=...
+    name: 'env-secret',
+    pattern: /\b[A-Z0-9_]*(?:_KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?)\s*=\s*["']?(?<secret>[^\s"'#[\]{}(),;]{8,})/g,
+    accept: isLiteralValue,
+  },
+  {
+    // Quoted values in JSON, YAML and code, e.g. "apiKey": "..." or password = '...'
+    name: 'config-secret',
+    pattern: /\b(?:api[_-]?key|secret|client[_-]?secret|access[_-]?token|auth[_-]?token|password)["']?\s*[:=]\s*["'](?<secret>[^\s"']{8,})["']/gi,
+    accept: isLiteralValue,
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    // SSH remotes and commit addresses that are not personal
+    accept: email => !/^git@|noreply/i.test(email),
+  },
+  { name: 'high-entropy', pattern: /[A-Za-z0-9+/=_-]{32,}/g, accept: isHighEntropy },
+];
+
+/**
+ * Replaces secrets and personal data in message content with [REDACTED:<detector>]
+ * Counts what it redacted, so imports can report it.
+ */
+export class Redactor {
+  private readonly globalRules: Detector[];
+  private readonly detectorsByProject = new Map<string, Detector[]>();
+  private counts: Record<string, number> = {};
+
+  constructor(private readonly config: RedactionConfig = {}) {
+    this.globalRules = compileRules(config.rules || []);
+  }
+
+  /**
+   * Redact a string with the detectors enabled for the project
+   */
+  redact(text: string, projectPath?: string, projectName?: string): string {
+    let redacted = text;
+
+    for (const detector of this.getDetectors(projectPath, projectName)) {
+      redacted = redacted.replace(detector.pattern, (match: string, ...args: any[]) => {
+        const groups = args[args.length - 1];
+        const secret: string = (typeof groups === 'object' && groups?.secret) || match;
+        if (detector.accept && !detector.accept(secret)) return match;
+
+        this.counts[detector.name] = (this.counts[detector.name] || 0) + 1;
+        return match.replace(secret, `[REDACTED:${detector.name}]`);
+      });
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact every text field of the content blocks, including both sides of diffs
+   */
+  redactContent(content: MessageContent[], projectPath?: string, projectName?: string): MessageContent[] {
+    const redact = (text: string) => this.redact(text, projectPath, projectName);
+
+    return content.map((block): MessageContent => {
+      switch (block.type) {
+        case 'text':
+          return { ...block, text: redact(block.text) };
+        case 'code':
+          return { ...block, code: redact(block.code) };
+        case 'markdown':
+          return { ...block, markdown: redact(block.markdown) };
+        case 'json':
+          return { ...block, json: redact(block.json) };
+        case 'diff':
+          return { ...block, oldText: redact(block.oldText), newText: redact(block.newText) };
+        case 'html':
+          return { ...block, html: redact(block.html) };
+        default:
+          return block;
+      }
+    });
+  }
+
+  /**
+   * Redact every text field of a parsed message: content, thinking, tool input and output
+   */
+  redactMessage(message: ParsedMessage, projectPath?: string, projectName?: string): ParsedMessage {
+    const redact = (text: string) => this.redact(text, projectPath, projectName);
+
+    switch (message.type) {
+      case 'user':
+      case 'assistant_text':
+        return { ...message, content: this.redactContent(message.content, projectPath, projectName) };
+      case 'assistant_thinking':
+        return { ...message, thinking: redact(message.thinking) };
+      case 'tool_use':
+        return {
+          ...message,
+          input: this.redactValue(message.input, projectPath, projectName) as Record<string, string>,
+          results: message.results.map(result => ({ ...result, output: this.redactValue(result.output, projectPath, projectName) as string })),
+        };
+      case 'tool_result':
+        return { ...message, output: this.redactContent(message.output, projectPath, projectName) };
+      case 'info':
+        return {
+          ...message,
+          title: redact(message.title),
+          subtitle: message.subtitle && redact(message.subtitle),
+          content: message.content && this.redactContent([message.content], projectPath, projectName)[0],
+        };
+    }
+  }
+
+  /**
+   * Redact the titles and messages of a session before it leaves the machine
+   */
+  redactSession(session: SessionWithProject): SessionWithProject {
+    const { projectPath, projectName } = session;
+
+    return {
+      ...session,
+      title: session.title && this.redact(session.title, projectPath, projectName),
+      session: {
+        ...session.session,
+        title: this.redact(session.session.title, projectPath, projectName),
+        messages: session.session.messages.map(message => this.redactMessage(message, projectPath, projectName)),
+      },
+    };
+  }
+
+  /**
+   * Redactions per detector since the last call
+   */
+  takeCounts(): Record<string, number> {
+    const counts = this.counts;
+    this.counts = {};
+    return counts;
+  }
+
+  /**
+   * Redact the strings in a value parsed from JSON
+   * Some adapters pass tool input through as is, with arrays, objects and numbers in it.
+   */
+  private redactValue(value: unknown, projectPath?: string, projectName?: string): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value, projectPath, projectName);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, projectPath, projectName));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item, projectPath, projectName)]));
+    }
+    return value;
+  }
+
+  private getDetectors(projectPath?: string, projectName?: string): Detector[] {
+    const key = `${projectPath ?? ''}\0${projectName ?? ''}`;
+    let detectors = this.detectorsByProject.get(key);
+
+    if (!detectors) {
+      const overrides = Object.entries(this.config.projects || {})
+        .filter(([pattern]) => (projectPath && matchesGlob(projectPath, pattern)) || (projectName && matchesGlob(projectName, pattern)))
+        .map(([, override]) => override);
+      const settings = [this.config, ...overrides];
+
+      const enabled = settings.reduce((value, setting) => setting.enabled ?? value, true);
+      const switches = Object.assign({}, ...settings.map(setting => setting.detectors || {})) as Record<string, boolean>;
+
+      detectors = enabled ? [
+        ...BUILT_IN_DETECTORS.filter(detector => switches[detector.name] !== false),
+        ...this.globalRules,
+        ...overrides.flatMap(override => compileRules(override.rules || [])),
+      ] : [];
+      this.detectorsByProject.set(key, detectors);
+    }
+
+    return detectors;
+  }
+}
+
+/**
+ * Sum of the per-detector counts, with a breakdown such as "3 (github-token: 2, jwt: 1)"
+ */
+export function formatRedactionCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  return entries.length > 0 ? `${total} (${entries.map(([name, count]) => `${name}: ${count}`).join(', ')})` : '0';
+}
+
+/**
+ * Excludes references to a secret, such as ${API_KEY} or process.env.API_KEY
+ */
+function isLiteralValue(secret: string): boolean {
+  return !/^(?:\$|process\.env\.|os\.environ|true$|false$|null$|undefined$)/i.test(secret);
+}
+
+/**
+ * Long tokens mixing upper case, lower case and digits with near-random character distribution,
+ * which excludes hex hashes, UUIDs, words and most paths
+ */
+export function isHighEntropy(value: string): boolean {
+  if (!/[a-z]/.test(value) || !/[A-Z]/.test(value) || !/[0-9]/.test(value)) return false;
+  // Short strings cannot reach the entropy of long ones, even when random
+  return shannonEntropy(value) >= Math.min(HIGH_ENTROPY_BITS, Math.log2(value.length) - 0.8);
+}
+
+function shannonEntropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function compileRules(rules: RedactionRule[]): Detector[] {
+  return rules.flatMap(rule => {
+    try {
+      const flags = (rule.flags || '').includes('g') ? rule.flags! : `${rule.flags || ''}g`;
+      return [{ name: rule.name, pattern: new RegExp(rule.pattern, flags) }];
+    } catch (e: any) {
+      console.warn(`Ignoring invalid redaction rule "${rule.name}": ${e.message}`);
+      return [];
+    }
+  });
+}
@@ -0,0 +1,337 @@
+import { RenderableMessage, SessionProvider } from '../types';
+import { parseDateOrDuration } from './time';
+
+/**
+ * Search query language compiled to FTS5 MATCH expressions.
+ *
+ *   auth redis              both terms (AND is implied)
+ *   auth OR oauth           either term
+ *   auth -test, NOT test    exclude a term
+ *   "exact phrase"          phrase
+ *   migrat*                 prefix
+ *   (a OR b) c              grouping
+ *   type:tool-use tool:Bash project:foo provider:codex branch:main
+ *   after:2025-01-01 before:7d
+ *
+ * Every term and phrase is quoted in the compiled expression, so FTS5 syntax in
+ * the input is always searched literally. Operators only count in upper case and
+ * where they have operands; elsewhere they are plain words.
+ */
+
+export const SEARCH_FIELDS = ['type', 'project', 'provider', 'branch', 'tool', 'before', 'after'] as const;
+
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export interface SearchQueryFilter {
+  field: SearchField;
+  /** Normalized value; ISO timestamps for before/after */
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  /** FTS5 MATCH expression, undefined if the query consists of field filters only */
+  match?: string;
+  filters: SearchQueryFilter[];
+}
+
+/**
+ * Raised for queries that cannot be compiled, with a message meant for the user
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const CARD_TYPES: Array<RenderableMessage['cardType']> = ['user', 'assistant', 'thinking', 'tool-use', 'tool-result', 'info', 'error'];
+const PROVIDERS = Object.values(SessionProvider) as string[];
+
+type Token =
+  | { kind: 'text'; text: string; prefix: boolean }
+  | { kind: 'field'; field: SearchField; value: string }
+  | { kind: 'op'; op: 'AND' | 'OR' | 'NOT' }
+  | { kind: 'minus' }
+  | { kind: 'lparen' }
+  | { kind: 'rparen' };
+
+type Node =
+  | { kind: 'text'; text: string; prefix: boolean }
+  | { kind: 'field'; field: SearchField; value: string }
+  | { kind: 'and'; children: Array<{ node: Node; negated: boolean }> }
+  | { kind: 'or'; children: Node[] };
+
+/**
+ * Parse a user query into an FTS5 MATCH expression and field filters
+ * @throws SearchQueryError if the query is malformed
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw new SearchQueryError('Enter something to search for');
+  }
+
+  const parser = new Parser(tokens);
+  const root = parser.parse();
+
+  const filters: SearchQueryFilter[] = [];
+  const textParts: Array<{ node: Node; negated: boolean }> = [];
+
+  // Field filters apply to the whole query, so they may only appear at the top level
+  const topLevel = root.kind === 'and' ? root.children : [{ node: root, negated: false }];
+  for (const part of topLevel) {
+    if (part.node.kind === 'field') {
+      filters.push({ field: part.node.field, value: normalizeFieldValue(part.node.field, part.node.value), negated: part.negated });
+    } else {
+      assertNoFields(part.node);
+      textParts.push(part);
+    }
+  }
+
+  if (textParts.length === 0) {
+    if (filters.every(f => f.negated)) {
+      throw new SearchQueryError('A query needs a search term or a filter that is not negated');
+    }
+    return { filters };
+  }
+
+  return { match: compileAnd(textParts), filters };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const end = input.indexOf('"', i + 1);
+    if (end === -1) {
+      throw new SearchQueryError('Unterminated quote: add a closing "');
+    }
+    const text = input.slice(i + 1, end);
+    i = end + 1;
+    return text;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      depth++;
+      i++;
+    } else if (char === ')' && depth > 0) {
+      tokens.push({ kind: 'rparen' });
+      depth--;
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/[\s-]/.test(input[i + 1])) {
+      tokens.push({ kind: 'minus' });
+      i++;
+    } else if (char === '"') {
+      const text = readQuoted();
+      const prefix = input[i] === '*';
+      if (prefix) i++;
+      tokens.push({ kind: 'text', text, prefix });
+    } else {
+      // A bare word ends at whitespace, or at ")" inside a group
+      let end = i;
+      while (end < input.length && !/\s/.test(input[end]) && !(input[end] === ')' && depth > 0)) {
+        end++;
+      }
+      const word = input.slice(i, end);
+
+      const field = word.match(/^([a-z]+):(.*)$/);
+      if (field && (SEARCH_FIELDS as readonly string[]).includes(field[1])) {
+        if (field[2].startsWith('"')) {
+          // Quoted value, e.g. project:"my app"
+          i += field[1].length + 1;
+          tokens.push({ kind: 'field', field: field[1] as SearchField, value: readQuoted() });
+          continue;
+        }
+        if (field[2] === '') {
+          throw new SearchQueryError(`Missing value for ${field[1]}:`);
+        }
+        tokens.push({ kind: 'field', field: field[1] as SearchField, value: field[2] });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: 'op', op: word });
+      } else if (word.length > 1 && word.endsWith('*')) {
+        tokens.push({ kind: 'text', text: word.slice(0, -1), prefix: true });
+      } else {
+        tokens.push({ kind: 'text', text: word, prefix: false });
+      }
+      i = end;
+    }
+  }
+
+  if (depth > 0) {
+    throw new SearchQueryError('Missing closing parenthesis');
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser: or := and (OR and)*, and := unary+, unary := (NOT | -)? primary
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new SearchQueryError('Unexpected ")"');
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    const children = [this.parseAnd()];
+    while (this.isOperator('OR') && this.hasOperand(this.pos + 1)) {
+      this.pos++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): Node {
+    const children: Array<{ node: Node; negated: boolean }> = [];
+
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.kind === 'rparen') break;
+      if (token.kind === 'op' && token.op === 'OR' && children.length > 0 && this.hasOperand(this.pos + 1)) break;
+
+      if (token.kind === 'op' && token.op === 'AND' && children.length > 0 && this.hasOperand(this.pos + 1)) {
+        this.pos++;
+        continue;
+      }
+
+      let negated = false;
+      if (token.kind === 'minus' || (token.kind === 'op' && token.op === 'NOT' && this.hasOperand(this.pos + 1))) {
+        negated = true;
+        this.pos++;
+      }
+
+      children.push({ node: this.parsePrimary(), negated });
+    }
+
+    if (children.length === 0) {
+      throw new SearchQueryError('Empty group: add a search term inside the parentheses');
+    }
+    return children.length === 1 && !children[0].negated ? children[0].node : { kind: 'and', children };
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new SearchQueryError('Expected a search term at the end of the query');
+    }
+    this.pos++;
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = this.parseOr();
+        this.pos++; // rparen, guaranteed by the tokenizer's depth check
+        return node;
+      }
+      case 'text':
+        return { kind: 'text', text: token.text, prefix: token.prefix };
+      case 'field':
+        return { kind: 'field', field: token.field, value: token.value };
+      case 'op':
+        // An operator without operands is an ordinary word
+        return { kind: 'text', text: token.op, prefix: false };
+      case 'minus':
+        throw new SearchQueryError('"-" must be followed by a term');
+      case 'rparen':
+        throw new SearchQueryError('Unexpected ")"');
+    }
+  }
+
+  private isOperator(op: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'op' && token.op === op;
+  }
+
+  /**
+   * Whether the token at index can start an operand, so a preceding keyword acts as an operator
+   */
+  private hasOperand(index: number): boolean {
+    const token = this.tokens[index];
+    if (!token || token.kind === 'rparen') return false;
+    if (token.kind === 'op') return token.op === 'NOT' ? this.hasOperand(index + 1) : true;
+    return true;
+  }
+}
+
+function assertNoFields(node: Node): void {
+  if (node.kind === 'field') {
+    throw new SearchQueryError(`${node.field}: filters cannot be used inside parentheses or with OR`);
+  }
+  if (node.kind === 'and') node.children.forEach(child => assertNoFields(child.node));
+  if (node.kind === 'or') node.children.forEach(assertNoFields);
+}
+
+function compile(node: Node): string {
+  switch (node.kind) {
+    case 'text':
+      return compileText(node.text, node.prefix);
+    case 'and':
+      return `(${compileAnd(node.children)})`;
+    case 'or':
+      return `(${node.children.map(compile).join(' OR ')})`;
+    case 'field':
+      throw new SearchQueryError(`${node.field}: filters cannot be used inside parentheses or with OR`);
+  }
+}
+
+/**
+ * FTS5 NOT is binary, so negated parts are subtracted from the AND of the positive ones
+ */
+function compileAnd(children: Array<{ node: Node; negated: boolean }>): string {
+  const positive = children.filter(c => !c.negated).map(c => compile(c.node));
+  const negative = children.filter(c => c.negated).map(c => compile(c.node));
+
+  if (positive.length === 0) {
+    throw new SearchQueryError('NOT and "-" need a term to exclude from, e.g. auth -test');
+  }
+
+  if (negative.length === 0) return positive.join(' AND ');
+
+  const base = positive.length === 1 ? positive[0] : `(${positive.join(' AND ')})`;
+  return negative.reduce((expr, neg) => `${expr} NOT ${neg}`, base);
+}
+
+function compileText(text: string, prefix: boolean): string {
+  return `"${text.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+}
+
+function normalizeFieldValue(field: SearchField, value: string): string {
+  switch (field) {
+    case 'type':
+      if (!(CARD_TYPES as string[]).includes(value)) {
+        throw new SearchQueryError(`Unknown type "${value}". Available: ${CARD_TYPES.join(', ')}`);
+      }
+      return value;
+    case 'provider':
+      if (!PROVIDERS.includes(value)) {
+        throw new SearchQueryError(`Unknown provider "${value}". Available: ${PROVIDERS.join(', ')}`);
+      }
+      return value;
+    case 'before':
+    case 'after': {
+      const date = parseDateOrDuration(value);
+      if (!date) {
+        throw new SearchQueryError(`Invalid date in ${field}:${value}. Use e.g. 2025-01-31 or 7d`);
+      }
+      return date.toISOString();
+    }
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,141 @@
+import { AppConfig } from '../config';
+import { SearchDatabase } from '../searchDatabase';
+import { VectorDatabase } from '../vectorDatabase';
+import { SessionSearchOptions, SessionSearchPage, SessionSearchResult } from '../repository/SearchRepository';
+import { DEFAULT_MIN_SCORE } from '../repository/VectorRepository';
+import { Embedder, createEmbedder } from './embedder';
+import { SearchQueryError } from './searchQuery';
+
+export const SEARCH_MODES = ['keyword', 'semantic', 'hybrid'] as const;
+
+export type SearchMode = typeof SEARCH_MODES[number];
+
+/**
+ * Embedding index and the embedder that fills and queries it
+ */
+export interface SemanticIndex {
+  db: VectorDatabase;
+  embedder: Embedder;
+  minScore: number;
+}
+
+/** Message types that are embedded; tool calls and output are left to keyword search */
+export const EMBEDDED_CARD_TYPES = ['user', 'assistant', 'thinking'];
+
+/** Longer messages are embedded by their beginning */
+export const MAX_EMBEDDED_CHARS = 2000;
+
+// Sessions fetched per request from each ranking before fusing (the repositories' page limit),
+// and the usual RRF damping constant
+const HYBRID_CANDIDATES = 100;
+const RRF_K = 60;
+
+/**
+ * Open vectors.db when semantic search is enabled in config.json
+ */
+export function openSemanticIndex(dataDir: string, config: AppConfig): SemanticIndex | undefined {
+  if (!config.embedding) return undefined;
+
+  return {
+    db: new VectorDatabase(dataDir),
+    embedder: createEmbedder(config.embedding, dataDir),
+    minScore: config.embedding.minScore ?? DEFAULT_MIN_SCORE,
+  };
+}
+
+export function parseSearchMode(value: unknown): SearchMode | undefined {
+  return (SEARCH_MODES as readonly unknown[]).includes(value) ? value as SearchMode : undefined;
+}
+
+/**
+ * Search sessions by keywords (FTS5 with the query language), by meaning (embeddings)
+ * or both, fusing the two rankings with reciprocal rank fusion
+ * @throws SearchQueryError if the query is malformed or semantic search is not enabled
+ */
+export async function searchSessionsByMode(
+  searchDb: SearchDatabase,
+  semantic: SemanticIndex | undefined,
+  query: string,
+  mode: SearchMode,
+  options: SessionSearchOptions = {}
+): Promise<SessionSearchPage> {
+  if (mode === 'keyword') {
+    return searchDb.search.searchSessions(query, options);
+  }
+
+  if (!semantic) {
+    throw new SearchQueryError(`${mode} search is not enabled. Add "embedding" to config.json and import again.`);
+  }
+  if (!query.trim()) {
+    throw new SearchQueryError('Enter something to search for');
+  }
+
+  const [queryVector] = await semantic.embedder.embed([query]);
+
+  if (mode === 'semantic') {
+    return semantic.db.vectors.searchSessions(queryVector, { ...options, minScore: semantic.minScore });
+  }
+
+  const offset = Math.max(options.offset ?? 0, 0);
+  const limit = Math.max(options.limit ?? 20, 1);
+  // Both rankings must reach past the requested page
+  const depth = Math.max(offset + limit, HYBRID_CANDIDATES);
+
+  const keyword = collectRanking(depth, (candidates) => searchDb.search.searchSessions(query, { ...options, ...candidates }));
+  const similar = collectRanking(depth, (candidates) => semantic.db.vectors.searchSessions(queryVector, { ...options, ...candidates, minScore: semantic.minScore }));
+  const fused = fuseRankings([keyword.results, similar.results]);
+
+  // Sessions beyond the depth of a ranking are not fused yet, so their union can only be bounded from below
+  const complete = keyword.results.length === keyword.total && similar.results.length === similar.total;
+  return {
+    total: complete ? fused.length : Math.max(fused.length, keyword.total, similar.total),
+    totalIsLowerBound: !complete,
+    results: fused.slice(offset, offset + limit),
+  };
+}
+
+/**
+ * Fetch the first depth sessions of a ranking, page by page
+ */
+function collectRanking(depth: number, search: (candidates: { limit: number; offset: number }) => SessionSearchPage): SessionSearchPage {
+  const results: SessionSearchResult[] = [];
+  let total = 0;
+
+  for (let offset = 0; offset < depth; offset += HYBRID_CANDIDATES) {
+    const page = search({ limit: HYBRID_CANDIDATES, offset });
+    total = page.total;
+    results.push(...page.results);
+    if (results.length >= total || page.results.length === 0) break;
+  }
+
+  return { total, results };
+}
+
+/**
+ * Reciprocal rank fusion: each session scores the sum of 1 / (k + rank) over the rankings
+ * Only the first scoredRanks positions of a ranking add to the score; sessions below them
+ * follow by their best rank. The order then does not depend on how deep the rankings were
+ * fetched, so pages of hybrid results stay consistent.
+ * Sessions keep the matches of the first ranking they appear in, so keyword
+ * results keep their highlighting.
+ */
+export function fuseRankings(rankings: SessionSearchResult[][], k: number = RRF_K, scoredRanks: number = HYBRID_CANDIDATES): SessionSearchResult[] {
+  const fused = new Map<string, { result: SessionSearchResult; bestRank: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, index) => {
+      const score = index < scoredRanks ? 1 / (k + index + 1) : 0;
+      const existing = fused.get(result.sessionId);
+      if (existing) {
+        existing.result.score += score;
+        existing.bestRank = Math.min(existing.bestRank, index);
+      } else {
+        fused.set(result.sessionId, { result: { ...result, score }, bestRank: index });
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.result.score - a.result.score || a.bestRank - b.bestRank || a.result.sessionId.localeCompare(b.result.sessionId))
+    .map(({ result }) => ({ ...result, score: Math.round(result.score * 10000) / 10000 }));
+}
@@ -0,0 +1,202 @@
+import { existsSync } from 'fs';
+import { DatabaseManager } from '../database';
+import { SearchDatabase } from '../searchDatabase';
+import { ImportState, MessageContent, RenderableMessage } from '../types';
+import { SemanticIndex } from './semanticSearch';
+
+/**
+ * Databases that hold a copy of session data
+ */
+export interface SessionStores {
+  db: DatabaseManager;
+  searchDb: SearchDatabase;
+  semantic?: SemanticIndex;
+}
+
+export interface DeletionResult {
+  projects: number;
+  sessions: number;
+  messages: number;
+}
+
+export interface PruneResult extends DeletionResult {
+  /** Tracked source files that no longer exist */
+  missingSources: ImportState[];
+}
+
+/**
+ * Retention policy, the "retention" section of config.json
+ */
+export interface RetentionConfig {
+  /** Delete sessions not updated for this many days */
+  maxAgeDays?: number;
+  /** Keep only the most recently updated sessions of each project */
+  maxSessionsPerProject?: number;
+  /** Drop the content of `stripCardTypes` messages older than this many days */
+  stripContentAfterDays?: number;
+  /** Card types whose content is dropped; thinking and tool results by default */
+  stripCardTypes?: Array<RenderableMessage['cardType']>;
+}
+
+export interface RetentionResult extends DeletionResult {
+  strippedMessages: number;
+  /** Size of the dropped message content */
+  strippedBytes: number;
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+const DEFAULT_STRIP_CARD_TYPES: Array<RenderableMessage['cardType']> = ['thinking', 'tool-result'];
+
+/** Content of messages whose content was dropped by the retention policy */
+export const STRIPPED_CONTENT: MessageContent[] = [{ type: 'text', text: '[Content removed by retention policy]' }];
+
+/**
+ * Delete a session with its messages, search entries and embeddings
+ * The import state is kept, so an unchanged source file is not imported again; `import --full` restores it.
+ */
+export function deleteSession(stores: SessionStores, sessionId: string): DeletionResult {
+  const result = removeSessions(stores, [sessionId]);
+  optimize(stores, result.sessions > 0);
+  return result;
+}
+
+/**
+ * Delete a project with all of its sessions
+ * @returns null if the project does not exist
+ */
+export function deleteProject(stores: SessionStores, projectUuid: string): DeletionResult | null {
+  const project = stores.db.projects.getByUuid(projectUuid);
+  if (!project || !project.id) return null;
+
+  const sessions = stores.db.sessions.getByProjectId(project.id);
+  const result: DeletionResult = {
+    projects: stores.db.projects.deleteByUuid(projectUuid),
+    sessions: sessions.length,
+    messages: sessions.reduce((sum, session) => sum + session.messageCount, 0),
+  };
+
+  stores.searchDb.search.deleteByProjectId(projectUuid);
+  stores.semantic?.db.vectors.deleteByProjectId(projectUuid);
+  optimize(stores, result.sessions > 0);
+  return result;
+}
+
+/**
+ * Delete the sessions whose source files were deleted, and projects left without sessions
+ * Sessions pushed from other machines have no tracked source and are never pruned.
+ */
+export function pruneMissingSources(stores: SessionStores, options: { dryRun?: boolean } = {}): PruneResult {
+  const states = stores.db.importState.listAll();
+  const missingSources = states.filter(state => !existsSync(state.sourcePath));
+  // A session can also have been imported from another file that still exists
+  const presentSessionIds = new Set(states.filter(state => !missingSources.includes(state)).map(state => state.sessionId));
+  const sessionIds = [...new Set(missingSources.map(state => state.sessionId))]
+    .filter((sessionId): sessionId is string => !!sessionId && !presentSessionIds.has(sessionId));
+
+  if (options.dryRun) {
+    const sessions = sessionIds.map(sessionId => stores.db.sessions.getBySessionId(sessionId)).filter(session => !!session);
+    return {
+      missingSources,
+      projects: 0,
+      sessions: sessions.length,
+      messages: sessions.reduce((sum, session) => sum + session!.messageCount, 0),
+    };
+  }
+
+  const result = removeSessions(stores, sessionIds);
+  missingSources.forEach(state => stores.db.importState.delete(state.provider, state.sourcePath));
+  result.projects = stores.db.projects.deleteEmpty();
+  optimize(stores, result.sessions > 0);
+  return { ...result, missingSources };
+}
+
+/**
+ * Whether a policy sets any limit
+ */
+export function hasRetentionPolicy(policy?: RetentionConfig): policy is RetentionConfig {
+  return !!policy && [policy.maxAgeDays, policy.maxSessionsPerProject, policy.stripContentAfterDays].some(isPositive);
+}
+
+/**
+ * Delete sessions beyond the age and per-project limits, then drop the content of old
+ * thinking and tool result messages; user and assistant text is kept
+ */
+export function applyRetention(stores: SessionStores, policy: RetentionConfig, options: { dryRun?: boolean; now?: number } = {}): RetentionResult {
+  const now = options.now ?? Date.now();
+  const sessionIds = new Set<string>();
+  if (isPositive(policy.maxAgeDays)) {
+    stores.db.sessions.getSessionIdsUpdatedBefore(new Date(now - policy.maxAgeDays * DAY_MS).toISOString()).forEach(id => sessionIds.add(id));
+  }
+  if (isPositive(policy.maxSessionsPerProject)) {
+    stores.db.sessions.getSessionIdsBeyondProjectLimit(Math.floor(policy.maxSessionsPerProject)).forEach(id => sessionIds.add(id));
+  }
+
+  const cardTypes = policy.stripCardTypes ?? DEFAULT_STRIP_CARD_TYPES;
+  const stripBefore = isPositive(policy.stripContentAfterDays) ? now - policy.stripContentAfterDays * DAY_MS : undefined;
+  const getStrippable = (excluded: string[]) => stripBefore === undefined
+    ? { count: 0, bytes: 0 }
+    : stores.db.messages.getStrippableStats(cardTypes, new Date(stripBefore).toISOString(), STRIPPED_CONTENT, excluded);
+
+  if (options.dryRun) {
+    const sessions = [...sessionIds].map(sessionId => stores.db.sessions.getBySessionId(sessionId)).filter(session => !!session);
+    const strippable = getStrippable([...sessionIds]);
+    return {
+      projects: 0,
+      sessions: sessions.length,
+      messages: sessions.reduce((sum, session) => sum + session!.messageCount, 0),
+      strippedMessages: strippable.count,
+      strippedBytes: strippable.bytes,
+    };
+  }
+
+  const result = removeSessions(stores, [...sessionIds]);
+  const strippable = getStrippable([]);
+  if (stripBefore !== undefined && strippable.count > 0) {
+    stores.db.messages.stripContent(cardTypes, new Date(stripBefore).toISOString(), STRIPPED_CONTENT);
+    stores.searchDb.search.deleteByCardTypesBefore(cardTypes, stripBefore);
+    stores.semantic?.db.vectors.deleteByCardTypesBefore(cardTypes, stripBefore);
+  }
+  result.projects = result.sessions > 0 ? stores.db.projects.deleteEmpty() : 0;
+  optimize(stores, result.sessions > 0 || strippable.count > 0);
+
+  return { ...result, strippedMessages: strippable.count, strippedBytes: strippable.bytes };
+}
+
+/**
+ * One line summary of applyRetention, e.g. "Deleted 3 sessions (120 messages), stripped 800 messages (42.0 MB)"
+ */
+export function formatRetentionResult(result: RetentionResult, dryRun = false): string {
+  const megabytes = (result.strippedBytes / 1024 / 1024).toFixed(1);
+  return dryRun
+    ? `Would delete ${result.sessions} sessions (${result.messages} messages) and strip ${result.strippedMessages} messages (${megabytes} MB)`
+    : `Deleted ${result.sessions} sessions (${result.messages} messages) and ${result.projects} empty projects, stripped ${result.strippedMessages} messages (${megabytes} MB)`;
+}
+
+function isPositive(value: number | undefined): value is number {
+  return typeof value === 'number' && value > 0;
+}
+
+function removeSessions(stores: SessionStores, sessionIds: string[]): DeletionResult {
+  const result: DeletionResult = { projects: 0, sessions: 0, messages: 0 };
+
+  for (const sessionId of sessionIds) {
+    const session = stores.db.sessions.getBySessionId(sessionId);
+    if (!session) continue;
+
+    result.sessions += stores.db.sessions.deleteBySessionId(sessionId);
+    result.messages += session.messageCount;
+    stores.searchDb.search.deleteBySessionId(sessionId);
+    stores.semantic?.db.vectors.deleteBySessionId(sessionId);
+  }
+
+  return result;
+}
+
+/**
+ * Merge the FTS index segments, so deleted text is gone from the index files as well
+ */
+function optimize(stores: SessionStores, changed: boolean): void {
+  if (changed) {
+    stores.searchDb.search.optimize();
+  }
+}
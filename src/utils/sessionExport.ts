@@ -0,0 +1,182 @@
+import ejs from 'ejs';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { DatabaseManager } from '../database';
+import { MessageContent, RenderableMessage, SessionDetail, SessionMetadata, SessionProvider } from '../types';
+import { DiffBuilder } from './diff';
+import { MarkdownConverter } from './markdown';
+
+export const EXPORT_FORMATS = ['md', 'html', 'json', 'jsonl'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * A message card as stored, without database ids
+ */
+export type ExportedMessage = Omit<RenderableMessage, 'id' | 'sessionId' | 'createdAt' | 'canExpand'>;
+
+/**
+ * Normalized session: a SessionDetail with provider and project, and the messages as rendered cards
+ */
+export interface SessionExport extends Omit<SessionDetail, 'messages'> {
+  provider: SessionProvider;
+  project: { projectUuid: string; name: string; path?: string } | null;
+  metadata: SessionMetadata;
+  messages: ExportedMessage[];
+}
+
+const EXPORT_TEMPLATE = path.join(__dirname, '..', 'templates', 'export.ejs');
+
+export function parseExportFormat(value: unknown): ExportFormat | undefined {
+  return (EXPORT_FORMATS as readonly unknown[]).includes(value) ? value as ExportFormat : undefined;
+}
+
+/**
+ * Load a session with its project and messages for export
+ * @returns null if the session does not exist
+ */
+export function loadSessionExport(db: DatabaseManager, sessionId: string): SessionExport | null {
+  const session = db.sessions.getBySessionId(sessionId);
+  if (!session || !session.id) return null;
+
+  const project = db.projects.getById(session.projectId);
+  const usageByModel = session.usageJson ? JSON.parse(session.usageJson) : undefined;
+
+  return {
+    sessionId: session.sessionId,
+    title: session.title,
+    provider: session.provider,
+    project: project ? { projectUuid: project.projectUuid, name: project.name, path: project.path } : null,
+    metadata: {
+      version: session.version,
+      gitBranch: session.gitBranch,
+      cwd: session.cwd,
+      models: session.modelsJson ? JSON.parse(session.modelsJson) : [],
+      created: session.created,
+      modified: session.modified,
+      messageCount: session.messageCount,
+      usage: session.inputTokens === undefined && session.outputTokens === undefined ? undefined : {
+        input: session.inputTokens || 0,
+        output: session.outputTokens || 0,
+        cacheRead: session.cacheReadTokens || 0,
+        cacheWrite: session.cacheWriteTokens || 0,
+      },
+      usageByModel,
+    },
+    messages: db.messages.getBySessionId(session.id).map(({ id, sessionId, createdAt, canExpand, ...message }) => message),
+  };
+}
+
+/**
+ * Serialize a session in one of the export formats
+ */
+export function formatSessionExport(data: SessionExport, format: ExportFormat): string {
+  switch (format) {
+    case 'md':
+      return formatMarkdown(data);
+    case 'html':
+      return ejs.render(readFileSync(EXPORT_TEMPLATE, 'utf-8'), {
+        session: data,
+        diffView: (oldText: string, newText: string) => DiffBuilder.generateDiffView(oldText, newText),
+        markdownToHtml: (markdown: string) => MarkdownConverter.toHtml(markdown),
+      });
+    case 'json':
+      return JSON.stringify(data, null, 2) + '\n';
+    case 'jsonl':
+      return data.messages.map(message => JSON.stringify({ sessionId: data.sessionId, ...message })).join('\n') + '\n';
+  }
+}
+
+/**
+ * File name for a download, from the session title
+ */
+export function getExportFileName(data: SessionExport, format: ExportFormat): string {
+  const slug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'session'}-${data.sessionId.slice(0, 8)}.${format}`;
+}
+
+/**
+ * Convert diff and markdown blocks to HTML for display
+ */
+export function renderContentBlocks(content: MessageContent[]): MessageContent[] {
+  return content.map((block) => {
+    if (block.type === 'diff') {
+      return { type: 'html' as const, html: DiffBuilder.generateDiffView(block.oldText, block.newText) };
+    }
+    if (block.type === 'markdown' && block.markdown) {
+      return { type: 'html' as const, html: MarkdownConverter.toHtml(block.markdown) };
+    }
+    return block;
+  });
+}
+
+/**
+ * Format a message card as Markdown
+ */
+export function formatRenderableMessage(message: Pick<RenderableMessage, 'sequence' | 'cardType' | 'title' | 'subtitle' | 'content'>): string {
+  const lines: string[] = [];
+  const header = `[${message.sequence}] ${message.cardType}${message.title ? `: ${message.title}` : ''}`;
+  lines.push(header);
+  if (message.subtitle) {
+    lines.push(message.subtitle);
+  }
+
+  message.content.forEach((block) => {
+    lines.push(formatContentBlock(block));
+  });
+
+  return lines.filter(Boolean).join('\n\n');
+}
+
+function formatContentBlock(block: MessageContent): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'markdown':
+      return block.markdown;
+    case 'code':
+      return fence(block.language || '', block.code);
+    case 'json':
+      return fence('json', block.json);
+    case 'diff': {
+      const header = block.filePath ? `# ${block.filePath}\n` : '';
+      return fence('diff', `${header}${block.oldText}\n---\n${block.newText}`);
+    }
+    case 'html':
+      return fence('html', block.html);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Code block whose fence is longer than any backtick run in the code, so code containing ``` cannot close it
+ */
+function fence(language: string, code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const backticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${backticks}${language}\n${code}\n${backticks}`;
+}
+
+function formatMarkdown(data: SessionExport): string {
+  const details = [
+    data.project ? `- Project: ${data.project.name}` : '',
+    `- Provider: ${data.provider}`,
+    data.metadata.gitBranch ? `- Branch: ${data.metadata.gitBranch}` : '',
+    data.metadata.created ? `- Created: ${data.metadata.created}` : '',
+    data.metadata.models.length > 0 ? `- Models: ${data.metadata.models.map(([model]) => model).join(', ')}` : '',
+    `- Session ID: ${data.sessionId}`,
+  ].filter(Boolean);
+
+  return [
+    `# ${data.title}\n\n${details.join('\n')}`,
+    ...data.messages.map(formatRenderableMessage),
+  ].join('\n\n---\n\n') + '\n';
+}
@@ -2,3 +2,18 @@ export function toDateTimeString(timestamp: number): string {
   const ms = timestamp > 1_000_000_000_000 ? timestamp : timestamp * 1000;
   return new Date(ms).toISOString();
 }
+
+/**
+ * Parse a date (2025-01-31, any Date-parsable string) or a duration back from now (12h, 7d, 2w)
+ * @returns null if the value is neither
+ */
+export function parseDateOrDuration(value: string, now: number = Date.now()): Date | null {
+  const relative = value.match(/^(\d+)([hdw])$/);
+  if (relative) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2] as 'h' | 'd' | 'w'];
+    return new Date(now - parseInt(relative[1], 10) * hours * 3600 * 1000);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
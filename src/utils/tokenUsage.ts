@@ -0,0 +1,69 @@
+import { ParsedMessage, TokenUsage } from '../types';
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): TokenUsage {
+  target.input += usage.input;
+  target.output += usage.output;
+  target.cacheRead += usage.cacheRead;
+  target.cacheWrite += usage.cacheWrite;
+  return target;
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+}
+
+/**
+ * Attach usage to the first assistant generated message (text, thinking or tool call)
+ * A single provider response often maps to several parsed messages; only one carries the usage
+ */
+export function attachUsage(messages: ParsedMessage[], usage: TokenUsage, model?: string): boolean {
+  for (const message of messages) {
+    if (message.type === 'assistant_text' || message.type === 'assistant_thinking' || message.type === 'tool_use') {
+      message.usage = usage;
+      if (model) message.model = model;
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Sums token usage per model while a session is parsed
+ */
+export class UsageAccumulator {
+  private readonly byModel = new Map<string, TokenUsage>();
+
+  add(usage: TokenUsage, model?: string): void {
+    const key = model || 'unknown';
+    let total = this.byModel.get(key);
+    if (!total) {
+      total = emptyUsage();
+      this.byModel.set(key, total);
+    }
+    addUsage(total, usage);
+  }
+
+  isEmpty(): boolean {
+    return this.byModel.size === 0;
+  }
+
+  /**
+   * Metadata fields for SessionMetadata, empty when the provider recorded no usage
+   */
+  toMetadata(): { usage?: TokenUsage; usageByModel?: Record<string, TokenUsage> } {
+    if (this.isEmpty()) return {};
+
+    const usage = emptyUsage();
+    const usageByModel: Record<string, TokenUsage> = {};
+    for (const [model, modelUsage] of this.byModel) {
+      addUsage(usage, modelUsage);
+      usageByModel[model] = modelUsage;
+    }
+
+    return { usage, usageByModel };
+  }
+}
@@ -0,0 +1,164 @@
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** End of central directory record plus the longest possible comment */
+const MAX_EOCD_SIZE = 22 + 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Read a single file from a zip archive without extracting the others
+ * Supports stored and deflated entries and zip64 archives (exports with many attachments)
+ * @returns null if no entry matches
+ */
+export function readZipEntry(zipPath: string, match: (name: string) => boolean): { name: string; data: Buffer } | null {
+  const fd = openSync(zipPath, 'r');
+
+  try {
+    const entry = listEntries(fd, zipPath).find(e => match(e.name));
+    return entry ? { name: entry.name, data: readEntry(fd, entry) } : null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Names of all files in a zip archive
+ */
+export function listZipEntries(zipPath: string): string[] {
+  const fd = openSync(zipPath, 'r');
+
+  try {
+    return listEntries(fd, zipPath).map(e => e.name);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function read(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = readSync(fd, buffer, 0, length, position);
+  return bytesRead < length ? buffer.subarray(0, bytesRead) : buffer;
+}
+
+function listEntries(fd: number, zipPath: string): ZipEntry[] {
+  const fileSize = fstatSync(fd).size;
+  const tailStart = Math.max(0, fileSize - MAX_EOCD_SIZE);
+  const tail = read(fd, tailStart, fileSize - tailStart);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error(`Not a zip archive: ${zipPath}`);
+  }
+
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+  // Zip64: the real values are in a separate record, found through the locator before the EOCD
+  if (directoryOffset === ZIP64_MARKER || directorySize === ZIP64_MARKER || entryCount === 0xffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR_SIGNATURE) {
+      throw new Error(`Invalid zip64 archive: ${zipPath}`);
+    }
+    const record = read(fd, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error(`Invalid zip64 archive: ${zipPath}`);
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  const directory = read(fd, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount && offset + 46 <= directory.length; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip central directory: ${zipPath}`);
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const entry: ZipEntry = {
+      name: directory.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42)
+    };
+
+    applyZip64Extra(entry, directory.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength));
+    entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Sizes and offsets that do not fit 32 bits are stored in the zip64 extra field, in this order
+ */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  let offset = 0;
+
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const size = extra.readUInt16LE(offset + 2);
+
+    if (id === 0x0001) {
+      let field = offset + 4;
+      for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (entry[key] === ZIP64_MARKER && field + 8 <= offset + 4 + size) {
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+
+    offset += 4 + size;
+  }
+}
+
+function readEntry(fd: number, entry: ZipEntry): Buffer {
+  const header = read(fd, entry.localHeaderOffset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip entry: ${entry.name}`);
+  }
+
+  const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data = read(fd, dataOffset, entry.compressedSize);
+
+  switch (entry.method) {
+    case STORED:
+      return data;
+    case DEFLATED:
+      return inflateRawSync(data);
+    default:
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}
@@ -0,0 +1,84 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import { VectorRepository } from './repository/VectorRepository';
+import { resolveDataDir } from './utils/paths';
+import { DatabaseOptions } from './database';
+import { Migration, MigrationResult, Migrator, getBackupPath } from './migrations/migrator';
+import { VECTOR_MIGRATIONS } from './migrations/vectorMigrations';
+
+/**
+ * Manages the optional embedding index for semantic search (vectors.db in the data directory)
+ * Like search.db it only holds data derived from sessions.db and can be rebuilt at any time.
+ */
+export class VectorDatabase {
+  private readonly db: Database.Database;
+  private readonly dbPath: string;
+  private readonly isNewDatabase: boolean;
+  private readonly migrator: Migrator;
+  public vectors: VectorRepository;
+
+  constructor(dataDir: string = resolveDataDir(), options: DatabaseOptions = {}) {
+    this.dbPath = path.join(dataDir, 'vectors.db');
+    mkdirSync(dataDir, { recursive: true });
+    this.isNewDatabase = !existsSync(this.dbPath);
+    this.db = new Database(this.dbPath);
+
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    this.migrator = new Migrator(this.db, VECTOR_MIGRATIONS);
+    if (options.migrate !== false) {
+      this.migrate();
+    }
+
+    this.vectors = new VectorRepository(this.db);
+  }
+
+  /**
+   * Apply pending schema migrations, backing up existing databases first
+   */
+  migrate(): MigrationResult {
+    const fromVersion = this.migrator.getCurrentVersion();
+    const backupPath = this.isNewDatabase ? undefined : getBackupPath(this.dbPath, fromVersion);
+    const result = this.migrator.migrate(backupPath);
+
+    if (result.backupPath) {
+      console.log(`Migrated ${this.dbPath} from v${result.fromVersion} to v${result.toVersion} (backup: ${result.backupPath})`);
+    }
+
+    return result;
+  }
+
+  getSchemaVersion(): number {
+    return this.migrator.getCurrentVersion();
+  }
+
+  getPendingMigrations(): Migration[] {
+    return this.migrator.getPendingMigrations();
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  beginTransaction(): void {
+    this.db.exec('BEGIN TRANSACTION');
+  }
+
+  commitTransaction(): void {
+    this.db.exec('COMMIT');
+  }
+
+  rollbackTransaction(): void {
+    this.db.exec('ROLLBACK');
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  vacuum(): void {
+    this.db.exec('VACUUM');
+  }
+}